@@ -0,0 +1,12 @@
+#!/bin/sh
+set -e
+
+# Headless Chromium plays into a PulseAudio null sink; the browser service
+# records the sink's monitor and streams it to room members
+if [ -n "$AUDIO_SINK" ]; then
+  pulseaudio --daemonize=yes --exit-idle-time=-1 --disallow-exit
+  pactl load-module module-null-sink sink_name="$AUDIO_SINK" sink_properties=device.description=CollabBrowser
+  pactl set-default-sink "$AUDIO_SINK"
+fi
+
+exec "$@"
@@ -0,0 +1,252 @@
+import { promises as fs } from 'fs';
+import { isAbsolute, relative, resolve } from 'path';
+import { AutomationAction, AutomationErrorCode, AutomationResult, BrowserType, ElementBox } from '../types';
+
+export const AUTOMATION_ACTIONS: AutomationAction[] = ['click', 'type', 'wait', 'scroll', 'select', 'upload', 'boxes'];
+
+const DEFAULT_TIMEOUT = 10000;
+const MAX_TIMEOUT = 60000;
+const NETWORK_IDLE_TIME = 500; // Quiet this long counts as idle, as in Playwright
+const MAX_BOXES = 100;
+
+type WaitState = 'visible' | 'hidden' | 'attached';
+
+// A failure we can describe; anything else is reported as action_failed
+interface AutomationFailure {
+  code: AutomationErrorCode;
+  message: string;
+}
+
+// Structured automation of a room's page for test harnesses and tours: click,
+// type, wait, scroll, select, upload and element boxes by CSS selector. Every call resolves
+// to an AutomationResult rather than throwing, with an error code the HTTP
+// layer maps to a status. Files can only be uploaded from the upload directory.
+export class PageAutomation {
+  private uploadDir: string;
+
+  constructor(uploadDir: string) {
+    this.uploadDir = resolve(uploadDir);
+  }
+
+  isAction(value: unknown): value is AutomationAction {
+    return AUTOMATION_ACTIONS.includes(value as AutomationAction);
+  }
+
+  async run(roomId: string, action: AutomationAction, page: any, browserType: BrowserType, params: any): Promise<AutomationResult> {
+    const startedAt = Date.now();
+    const done = (details: Record<string, unknown>): AutomationResult =>
+      ({ success: true, roomId, action, duration: Date.now() - startedAt, ...details });
+    const failed = (error: AutomationFailure): AutomationResult =>
+      ({ success: false, roomId, action, duration: Date.now() - startedAt, error });
+
+    params = params ?? {};
+    const timeout = this.normalizeTimeout(params.timeout);
+    const selector = typeof params.selector === 'string' && params.selector.trim() ? params.selector : null;
+    if (!selector && !(action === 'wait' && params.networkIdle === true)) {
+      return failed({ code: 'invalid_request', message: 'selector is required' });
+    }
+
+    try {
+      switch (action) {
+        case 'click':
+          return done(await this.click(page, browserType, selector!, params, timeout));
+        case 'type':
+          if (typeof params.text !== 'string') {
+            return failed({ code: 'invalid_request', message: 'text is required' });
+          }
+          return done(await this.type(page, browserType, selector!, params, timeout));
+        case 'wait':
+          return done(await this.wait(page, browserType, selector, params, timeout));
+        case 'scroll':
+          return done(await this.scroll(page, browserType, selector!, timeout));
+        case 'select':
+          return done(await this.select(page, browserType, selector!, params, timeout));
+        case 'upload':
+          return done(await this.upload(page, browserType, selector!, params, timeout));
+        case 'boxes':
+          return done({ boxes: await this.boxes(page, selector!) });
+      }
+    } catch (error: any) {
+      return failed(this.describeError(error, action, selector, timeout));
+    }
+  }
+
+  private async click(page: any, browserType: BrowserType, selector: string, params: any, timeout: number) {
+    const button = ['left', 'right', 'middle'].includes(params.button) ? params.button : 'left';
+    const clickCount = Number.isInteger(params.clickCount) && params.clickCount > 0 ? params.clickCount : 1;
+
+    await this.waitForElement(page, browserType, selector, 'visible', timeout);
+    await page.click(selector, browserType === 'playwright' ? { button, clickCount, timeout } : { button, clickCount });
+    return { selector, button, clickCount };
+  }
+
+  private async type(page: any, browserType: BrowserType, selector: string, params: any, timeout: number) {
+    const delay = Number.isFinite(params.delay) ? Math.min(Math.max(params.delay, 0), 1000) : 0;
+
+    await this.waitForElement(page, browserType, selector, 'visible', timeout);
+    if (params.clear) {
+      await page.$eval(selector, (element: any) => {
+        if ('value' in element) {
+          element.value = '';
+        } else if (element.isContentEditable) {
+          element.textContent = '';
+        }
+        element.dispatchEvent(new (globalThis as any).Event('input', { bubbles: true }));
+      });
+    }
+
+    // Typing key by key fires the same events a person would
+    await page.type(selector, params.text, { delay });
+    if (params.pressEnter) {
+      await page.keyboard.press('Enter');
+    }
+
+    return { selector, typed: params.text.length };
+  }
+
+  // Wait for an element to reach a state, for the network to go quiet, or both
+  private async wait(page: any, browserType: BrowserType, selector: string | null, params: any, timeout: number) {
+    const state: WaitState = ['visible', 'hidden', 'attached'].includes(params.state) ? params.state : 'visible';
+    const deadline = Date.now() + timeout;
+
+    if (selector) {
+      await this.waitForElement(page, browserType, selector, state, timeout);
+    }
+
+    if (params.networkIdle === true) {
+      const remaining = Math.max(deadline - Date.now(), 1);
+      if (browserType === 'playwright') {
+        await page.waitForLoadState('networkidle', { timeout: remaining });
+      } else {
+        await page.waitForNetworkIdle({ idleTime: NETWORK_IDLE_TIME, timeout: remaining });
+      }
+    }
+
+    return { selector, state: selector ? state : undefined, networkIdle: params.networkIdle === true };
+  }
+
+  // Bring an element into the middle of the viewport
+  private async scroll(page: any, browserType: BrowserType, selector: string, timeout: number) {
+    await this.waitForElement(page, browserType, selector, 'attached', timeout);
+    await page.$eval(selector, (element: any) => element.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+    return { selector };
+  }
+
+  private async select(page: any, browserType: BrowserType, selector: string, params: any, timeout: number) {
+    const values: string[] = (Array.isArray(params.values) ? params.values : [params.value])
+      .filter((value: unknown) => typeof value === 'string');
+    if (values.length === 0) {
+      throw this.failure('invalid_request', 'value or values is required');
+    }
+
+    await this.waitForElement(page, browserType, selector, 'attached', timeout);
+    // Both return the values that ended up selected
+    const selected: string[] = browserType === 'playwright'
+      ? await page.selectOption(selector, values, { timeout })
+      : await page.select(selector, ...values);
+
+    if (selected.length === 0) {
+      throw this.failure('element_not_found', `No option of "${selector}" has the value ${values.map(value => JSON.stringify(value)).join(', ')}`);
+    }
+    return { selector, values: selected };
+  }
+
+  private async upload(page: any, browserType: BrowserType, selector: string, params: any, timeout: number) {
+    const requested: unknown[] = Array.isArray(params.paths) ? params.paths : [params.path];
+    if (requested.length === 0 || !requested.every(path => typeof path === 'string' && path)) {
+      throw this.failure('invalid_request', 'path or paths is required');
+    }
+
+    const files: string[] = [];
+    for (const path of requested as string[]) {
+      files.push(await this.resolveUpload(path));
+    }
+
+    await this.waitForElement(page, browserType, selector, 'attached', timeout);
+    if (browserType === 'playwright') {
+      await page.setInputFiles(selector, files, { timeout });
+    } else {
+      const input = await page.$(selector);
+      await input.uploadFile(...files);
+      await input.dispose();
+    }
+
+    return { selector, files: requested };
+  }
+
+  // Boxes of the elements matching the selector, in document order. The
+  // callbacks handed to $eval and $$eval run in the page, where globalThis is
+  // the window.
+  private async boxes(page: any, selector: string): Promise<ElementBox[]> {
+    return page.$$eval(selector, (elements: any[], max: number) => elements.slice(0, max).map((element) => {
+      const rect = element.getBoundingClientRect();
+      const style = (globalThis as any).getComputedStyle(element);
+      return {
+        x: rect.x,
+        y: rect.y,
+        width: rect.width,
+        height: rect.height,
+        visible: rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none',
+        tagName: element.tagName.toLowerCase(),
+        text: (element.innerText ?? element.textContent ?? '').trim().slice(0, 200)
+      };
+    }), MAX_BOXES);
+  }
+
+  private async waitForElement(page: any, browserType: BrowserType, selector: string, state: WaitState, timeout: number): Promise<void> {
+    if (browserType === 'playwright') {
+      await page.waitForSelector(selector, { state, timeout });
+    } else {
+      await page.waitForSelector(selector, { visible: state === 'visible', hidden: state === 'hidden', timeout });
+    }
+  }
+
+  // A path inside the upload directory; relative paths are taken from there
+  private async resolveUpload(path: string): Promise<string> {
+    const file = resolve(this.uploadDir, path);
+    const inside = relative(this.uploadDir, file);
+    if (!inside || inside.startsWith('..') || isAbsolute(inside)) {
+      throw this.failure('invalid_request', `${path} is outside the upload directory`);
+    }
+
+    try {
+      if ((await fs.stat(file)).isFile()) return file;
+    } catch (error) {
+      // Reported below
+    }
+    throw this.failure('file_not_found', `No file at ${path}`);
+  }
+
+  private normalizeTimeout(value: unknown): number {
+    const timeout = Number(value ?? DEFAULT_TIMEOUT);
+    return Number.isFinite(timeout) && timeout > 0 ? Math.min(Math.round(timeout), MAX_TIMEOUT) : DEFAULT_TIMEOUT;
+  }
+
+  private failure(code: AutomationErrorCode, message: string): AutomationFailure {
+    return { code, message };
+  }
+
+  private describeError(error: any, action: AutomationAction, selector: string | null, timeout: number): AutomationFailure {
+    // Thrown by our own checks
+    if (error && !(error instanceof Error) && typeof error.code === 'string') {
+      return error;
+    }
+
+    const message = String(error?.message ?? error);
+    // Both Playwright and Puppeteer name their timeouts this way
+    if (error?.name === 'TimeoutError') {
+      return action === 'wait'
+        ? { code: 'timeout', message: `Timed out after ${timeout}ms` }
+        : { code: 'element_not_found', message: `No element matched "${selector}" within ${timeout}ms` };
+    }
+    if (/is not a valid selector|Unexpected token|Unknown engine|failed to find element matching/i.test(message) && selector) {
+      return /failed to find element/i.test(message)
+        ? { code: 'element_not_found', message: `No element matches "${selector}"` }
+        : { code: 'invalid_selector', message: `"${selector}" is not a valid selector` };
+    }
+    if (/No element found|No node found/i.test(message)) {
+      return { code: 'element_not_found', message: `No element matches "${selector}"` };
+    }
+    return { code: 'action_failed', message };
+  }
+}
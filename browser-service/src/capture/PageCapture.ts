@@ -0,0 +1,180 @@
+import { BrowserType } from '../types';
+import { createCDPSession } from '../utils/cdp';
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+export const IMAGE_CONTENT_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+export interface ScreenshotOptions {
+  format: ImageFormat;
+  // 0-100, for JPEG and WebP only
+  quality?: number;
+  // The whole scrollable page rather than the viewport
+  fullPage: boolean;
+  // Capture just the first element matching this
+  selector?: string;
+  // A region in CSS pixels from the top left of the page
+  clip?: { x: number; y: number; width: number; height: number };
+}
+
+export interface PdfOptions {
+  format: string;
+  landscape: boolean;
+  printBackground: boolean;
+  scale: number;
+  // e.g. '1-3, 5'; every page when unset
+  pageRanges?: string;
+}
+
+const DEFAULT_QUALITY = 80;
+const MAX_CLIP_SIZE = 16384;
+const PAPER_FORMATS = ['Letter', 'Legal', 'Tabloid', 'Ledger', 'A0', 'A1', 'A2', 'A3', 'A4', 'A5', 'A6'];
+
+function isTrue(value: unknown): boolean {
+  return value === 'true' || value === '1';
+}
+
+// Read ?format, ?quality, ?fullPage, ?selector and ?clip=x,y,width,height
+export function parseScreenshotOptions(query: any): { options?: ScreenshotOptions; error?: string } {
+  const format = (query.format ?? 'png') as ImageFormat;
+  if (!Object.keys(IMAGE_CONTENT_TYPES).includes(format)) {
+    return { error: 'format must be png, jpeg or webp' };
+  }
+
+  let quality: number | undefined;
+  if (query.quality !== undefined) {
+    if (format === 'png') {
+      return { error: 'quality only applies to jpeg and webp' };
+    }
+    quality = Number(query.quality);
+    if (!Number.isInteger(quality) || quality < 0 || quality > 100) {
+      return { error: 'quality must be a whole number from 0 to 100' };
+    }
+  } else if (format !== 'png') {
+    quality = DEFAULT_QUALITY;
+  }
+
+  const fullPage = isTrue(query.fullPage);
+  const selector = typeof query.selector === 'string' && query.selector.trim() ? query.selector : undefined;
+
+  let clip: ScreenshotOptions['clip'];
+  if (query.clip !== undefined) {
+    const parts = String(query.clip).split(',').map(Number);
+    if (parts.length !== 4 || !parts.every(Number.isFinite) || parts[0] < 0 || parts[1] < 0 ||
+        parts[2] <= 0 || parts[3] <= 0 || parts[2] > MAX_CLIP_SIZE || parts[3] > MAX_CLIP_SIZE) {
+      return { error: 'clip must be x,y,width,height with a positive width and height' };
+    }
+    clip = { x: parts[0], y: parts[1], width: parts[2], height: parts[3] };
+  }
+
+  if ([fullPage, selector, clip].filter(Boolean).length > 1) {
+    return { error: 'Use only one of fullPage, selector and clip' };
+  }
+
+  return { options: { format, quality, fullPage, selector, clip } };
+}
+
+// Read ?format (paper size), ?landscape, ?printBackground, ?scale and ?pageRanges
+export function parsePdfOptions(query: any): { options?: PdfOptions; error?: string } {
+  const format = PAPER_FORMATS.find(paper => paper.toLowerCase() === String(query.format ?? 'A4').toLowerCase());
+  if (!format) {
+    return { error: `format must be one of ${PAPER_FORMATS.join(', ')}` };
+  }
+
+  const scale = query.scale === undefined ? 1 : Number(query.scale);
+  if (!Number.isFinite(scale) || scale < 0.1 || scale > 2) {
+    return { error: 'scale must be from 0.1 to 2' };
+  }
+
+  const pageRanges = typeof query.pageRanges === 'string' && query.pageRanges.trim() ? query.pageRanges.trim() : undefined;
+  if (pageRanges && !/^\d+(-\d+)?(\s*,\s*\d+(-\d+)?)*$/.test(pageRanges)) {
+    return { error: 'pageRanges must look like 1-3, 5' };
+  }
+
+  return {
+    options: {
+      format,
+      landscape: isTrue(query.landscape),
+      // Pages print with their colours unless asked not to
+      printBackground: query.printBackground === undefined || isTrue(query.printBackground),
+      scale,
+      pageRanges
+    }
+  };
+}
+
+// Screenshot a page; resolves to null if the selector matches nothing
+export async function captureScreenshot(page: any, browserType: BrowserType, options: ScreenshotOptions): Promise<Buffer | null> {
+  // Playwright only encodes PNG and JPEG; Chromium itself does WebP
+  if (options.format === 'webp' && browserType === 'playwright') {
+    return captureWithCDP(page, options);
+  }
+
+  const image = { type: options.format, ...(options.quality !== undefined ? { quality: options.quality } : {}) };
+
+  if (options.selector) {
+    const element = await page.$(options.selector);
+    if (!element) return null;
+    try {
+      return await element.screenshot(image);
+    } finally {
+      await element.dispose();
+    }
+  }
+
+  return page.screenshot({ ...image, fullPage: options.fullPage, ...(options.clip ? { clip: options.clip } : {}) });
+}
+
+export async function printToPdf(page: any, options: PdfOptions): Promise<Buffer> {
+  return page.pdf({
+    format: options.format,
+    landscape: options.landscape,
+    printBackground: options.printBackground,
+    scale: options.scale,
+    ...(options.pageRanges ? { pageRanges: options.pageRanges } : {})
+  });
+}
+
+// Page.captureScreenshot straight from Chromium. A clip is in page
+// coordinates, and capturing beyond the viewport lets it cover the whole page.
+async function captureWithCDP(page: any, options: ScreenshotOptions): Promise<Buffer | null> {
+  let clip = options.clip ? { ...options.clip, scale: 1 } : undefined;
+
+  if (options.selector) {
+    const element = await page.$(options.selector);
+    if (!element) return null;
+    try {
+      // Boxes are relative to the viewport
+      const box = await element.boundingBox();
+      if (!box) {
+        throw new Error(`"${options.selector}" is not visible`);
+      }
+      const scroll = await page.evaluate('({ x: window.scrollX, y: window.scrollY })');
+      clip = { x: box.x + scroll.x, y: box.y + scroll.y, width: box.width, height: box.height, scale: 1 };
+    } finally {
+      await element.dispose();
+    }
+  }
+
+  const cdp = await createCDPSession(page, 'playwright');
+  try {
+    if (options.fullPage) {
+      const metrics = await cdp.send('Page.getLayoutMetrics');
+      const size = metrics.cssContentSize ?? metrics.contentSize;
+      clip = { x: 0, y: 0, width: Math.ceil(size.width), height: Math.ceil(size.height), scale: 1 };
+    }
+
+    const { data } = await cdp.send('Page.captureScreenshot', {
+      format: 'webp',
+      quality: options.quality,
+      ...(clip ? { clip, captureBeyondViewport: true } : {})
+    });
+    return Buffer.from(data, 'base64');
+  } finally {
+    await cdp.detach().catch(() => undefined);
+  }
+}
@@ -4,6 +4,74 @@ import helmet from 'helmet';
 import compression from 'compression';
 import { Server as SocketIOServer } from 'socket.io';
 import { createServer } from 'http';
+import { RoomSessionManager, DEFAULT_URL } from './room/RoomSessionManager';
+import { DEFAULT_DEVICE_SETTINGS, DEFAULT_USER_AGENT, resolveDeviceSettings } from './room/DeviceEmulation';
+import { PageStateTracker } from './room/PageStateTracker';
+import { MediaTracker } from './room/MediaTracker';
+import { SessionRecorder, RECORDING_STREAM_SETTINGS } from './recording/SessionRecorder';
+import { ScriptRunner, MAX_SCRIPT_LENGTH } from './scripting/ScriptRunner';
+import { PageAutomation } from './automation/PageAutomation';
+import { TourPlayer, TOUR_COMMANDS, TourCommand } from './tours/TourPlayer';
+import {
+  captureScreenshot,
+  IMAGE_CONTENT_TYPES,
+  parsePdfOptions,
+  parseScreenshotOptions,
+  printToPdf
+} from './capture/PageCapture';
+import { InputController } from './input/InputController';
+import { FrameBroadcaster } from './streaming/FrameBroadcaster';
+import { AudioCapture, AUDIO_CHANNELS, AUDIO_SAMPLE_RATE } from './streaming/AudioCapture';
+import { WorkerRegistration } from './worker/WorkerRegistration';
+import {
+  AutomationErrorCode,
+  BrowserState,
+  BrowserTab,
+  BrowserType,
+  ControlMessage,
+  ControlType,
+  IceCandidate,
+  MediaAction,
+  MediaCommand,
+  MediaState,
+  NavigationControlData,
+  RecordingInfo,
+  RoomSession,
+  ScreencastFrameMetadata,
+  SessionDescription,
+  StreamSettings,
+  TourState
+} from './types';
+
+const CONTROL_TYPES: ControlType[] = ['mouse', 'keyboard', 'scroll', 'click', 'navigation'];
+const MEDIA_ACTIONS: MediaAction[] = ['play', 'pause', 'seek', 'volume', 'mute', 'rate'];
+const FRAME_ACK_TIMEOUT = 2000; // Give up waiting on a client that never acks a frame
+// PulseAudio sink the browser plays into; audio is only captured when set
+const AUDIO_SINK = process.env.AUDIO_SINK;
+// How many rooms the signaling server may assign to this service. The browser
+// has one audio output, so with sound each room needs a worker to itself.
+const WORKER_CAPACITY = AUDIO_SINK ? 1 : parseInt(process.env.WORKER_CAPACITY || '10', 10);
+if (AUDIO_SINK && parseInt(process.env.WORKER_CAPACITY || '1', 10) > 1) {
+  console.log('⚠️ WORKER_CAPACITY is ignored while AUDIO_SINK is set; this worker takes one room');
+}
+const WORKER_STATUS_INTERVAL = 5000; // Heartbeat to the signaling servers
+const INPUT_REPORT_INTERVAL = 10000; // Tell the signaling servers a data-channel holder is still active
+// Where recorded sessions are kept; workers sharing it can replay each other's
+const RECORDINGS_DIR = process.env.RECORDINGS_DIR || 'recordings';
+// The only place the automation API may upload files from
+const UPLOADS_DIR = process.env.UPLOADS_DIR || 'uploads';
+
+const AUTOMATION_STATUS: Record<AutomationErrorCode, number> = {
+  invalid_request: 400,
+  invalid_selector: 400,
+  room_not_found: 404,
+  control_held: 409,
+  browser_unavailable: 503,
+  element_not_found: 404,
+  file_not_found: 404,
+  timeout: 408,
+  action_failed: 500
+};
 
 // Try to import browser automation libraries
 let playwright: any = null;
@@ -41,17 +109,68 @@ try {
   }
 }
 
+// Node-side WebRTC for publishing pages as video tracks
+let wrtc: any = null;
+
+try {
+  wrtc = require('@roamhq/wrtc');
+  console.log('✅ WebRTC video available (wrtc)');
+} catch (e: any) {
+  console.log('WebRTC not available, frames will be sent over Socket.IO:', e.message);
+}
+
+interface StreamingClient {
+  peerConnection: any;
+  tracks: any[];
+  roomId: string;
+  userId: string;
+}
+
+// Something sendCapture takes from a room's page
+interface CaptureRequest {
+  // 'screenshot' or 'PDF', for messages
+  label: string;
+  timeout: number;
+  contentType: string;
+  // Resolves to null when there is nothing to capture, e.g. no such element
+  capture: (page: any) => Promise<Buffer | null>;
+  notFound: string;
+  // Answers when no browser can be brought up
+  fallback: (currentUrl: string) => void;
+}
+
 class BrowserService {
   private app: express.Application;
   private server: any;
   private io: SocketIOServer;
   private browser: any = null;
-  private page: any = null;
-  private browserType: 'playwright' | 'puppeteer' | 'mock' = 'mock';
-  private currentUrl: string = 'https://www.google.com';
+  private browserType: BrowserType = 'mock';
+  private sessions: RoomSessionManager = new RoomSessionManager();
+  private input: InputController = new InputController();
   private isInitialized: boolean = false;
-  private streamingClients: Map<string, any> = new Map();
-  private streamingInterval: NodeJS.Timeout | null = null;
+  private streamingClients: Map<string, StreamingClient> = new Map();
+  // Room id -> member currently allowed to drive that room's page
+  private roomControllers: Map<string, string | null> = new Map();
+  // Room id -> when data-channel input there was last reported
+  private inputReportedAt: Map<string, number> = new Map();
+  // Room id -> the single capture shared by everyone watching that room
+  private broadcasters: Map<string, FrameBroadcaster> = new Map();
+  // Client id -> room whose frames the client is subscribed to
+  private viewerRooms: Map<string, string> = new Map();
+  private audio: AudioCapture | null = AUDIO_SINK ? new AudioCapture(AUDIO_SINK) : null;
+  private pageStates: PageStateTracker;
+  private media: MediaTracker;
+  private recorder: SessionRecorder = new SessionRecorder(RECORDINGS_DIR);
+  private scripts: ScriptRunner = new ScriptRunner();
+  private automation: PageAutomation = new PageAutomation(UPLOADS_DIR);
+  private tours: TourPlayer;
+  private statusTimer: NodeJS.Timeout | null = null;
+  // Set when SIGNALING_URL and WORKER_URL ask us to join a worker pool
+  private registration: WorkerRegistration | null = process.env.SIGNALING_URL && process.env.WORKER_URL
+    ? new WorkerRegistration(process.env.SIGNALING_URL, process.env.WORKER_URL, process.env.WORKER_TOKEN)
+    : null;
+  // Tab id -> room the tab belongs to
+  private tabRooms: Map<string, string> = new Map();
 
   constructor() {
     this.app = express();
@@ -91,6 +210,53 @@ class BrowserService {
     this.app.use(compression());
     this.app.use(express.json());
 
+    // Follow every tab's page and push its room's state as anything changes
+    this.pageStates = new PageStateTracker((tabId) => {
+      const roomId = this.tabRooms.get(tabId);
+      if (roomId) {
+        this.publishBrowserState(roomId);
+      }
+    });
+    // Everyone sees the media of the room's active tab
+    this.media = new MediaTracker((tabId) => {
+      const roomId = this.tabRooms.get(tabId);
+      if (roomId && this.sessions.getSession(roomId)?.activeTabId === tabId) {
+        this.publishMediaState(roomId);
+      }
+    });
+    this.recorder.on('recording-changed', (roomId: string, recording: RecordingInfo | null) => {
+      this.io.emit('recording-state', { roomId, recording });
+    });
+    this.tours = new TourPlayer({
+      navigate: async (roomId, url) => {
+        await this.navigateToUrl(roomId, url);
+      },
+      getPage: (roomId) => this.sessions.getSession(roomId)?.page ?? null,
+      getBrowserType: () => this.browserType
+    }, this.automation);
+    this.tours.on('tour-changed', (roomId: string, tour: TourState | null) => {
+      this.io.emit('tour-state', { roomId, tour });
+    });
+    this.sessions.on('tab-opened', (roomId: string, tab: BrowserTab) => {
+      this.tabRooms.set(tab.id, roomId);
+      this.pageStates.track(tab.id, tab.page, this.browserType);
+      this.media.track(tab.id, tab.page, this.browserType);
+    });
+    this.sessions.on('tab-closed', (roomId: string, tabId: string) => {
+      this.tabRooms.delete(tabId);
+      this.pageStates.untrack(tabId);
+      this.media.untrack(tabId);
+      this.publishBrowserState(roomId);
+    });
+    this.sessions.on('tab-activated', (roomId: string, tab: BrowserTab) => {
+      // Everyone watches (and drives) the active tab
+      this.broadcasters.get(roomId)?.setPage(tab.page).catch((error) => {
+        console.error(`Failed to switch the stream to tab ${tab.id}:`, error);
+      });
+      this.publishBrowserState(roomId);
+      this.publishMediaState(roomId);
+    });
+
     this.setupRoutes();
     this.setupSocketIO();
   }
@@ -98,15 +264,189 @@ class BrowserService {
   private setupSocketIO(): void {
     console.log('🚀 Setting up Socket.IO server for browser service...');
 
+    // Signaling servers schedule rooms by capacity and treat a missed
+    // heartbeat as this worker being gone
+    this.statusTimer = setInterval(() => this.io.emit('worker-status', this.getWorkerStatus()), WORKER_STATUS_INTERVAL);
+    this.sessions.on('session-opened', (session: RoomSession) => {
+      this.io.emit('worker-status', this.getWorkerStatus());
+      // A room that moved here isn't recorded any more, whatever its old worker said
+      this.io.emit('recording-state', { roomId: session.roomId, recording: this.recorder.getActive(session.roomId) });
+      this.io.emit('tour-state', { roomId: session.roomId, tour: this.tours.getState(session.roomId) });
+      this.io.emit('device-state', { roomId: session.roomId, device: session.device });
+    });
+    this.sessions.on('session-closed', () => this.io.emit('worker-status', this.getWorkerStatus()));
+
+    // Like the HTTP routes that drive pages, the socket is only for the
+    // signaling servers, which connect with WORKER_TOKEN
+    this.io.use((socket, next) => {
+      const token = process.env.WORKER_TOKEN;
+      if (!token || socket.handshake.auth?.token !== token) {
+        console.error(`❌ Signaling connection ${socket.id} rejected: invalid worker token`);
+        return next(new Error('Invalid worker token'));
+      }
+      next();
+    });
+
     this.io.on('connection', (socket) => {
       console.log(`🌐 Signaling server connected: ${socket.id}`);
+      socket.emit('worker-status', this.getWorkerStatus());
+
+      // Catch a (re)connecting signaling server up on every open room
+      for (const session of this.sessions.getSessions()) {
+        const state = this.getBrowserState(session.roomId);
+        if (state) {
+          socket.emit('browser-state', { roomId: session.roomId, state });
+        }
+        socket.emit('media-state', { roomId: session.roomId, state: this.getMediaState(session.roomId) });
+        socket.emit('recording-state', { roomId: session.roomId, recording: this.recorder.getActive(session.roomId) });
+        socket.emit('tour-state', { roomId: session.roomId, tour: this.tours.getState(session.roomId) });
+        socket.emit('device-state', { roomId: session.roomId, device: session.device });
+      }
+
+      // A room that moved here from another worker brings its device along
+      socket.on('open-room', async (data: { roomId: string; url?: string; device?: unknown }) => {
+        console.log(`🏠 Open room request: ${data.roomId}`);
+        let device = DEFAULT_DEVICE_SETTINGS;
+        if (data.device) {
+          const resolved = resolveDeviceSettings(data.device, DEFAULT_DEVICE_SETTINGS);
+          if (resolved.settings) {
+            device = resolved.settings;
+          } else {
+            console.log(`Ignoring the device of room ${data.roomId}: ${resolved.error}`);
+          }
+        }
+
+        try {
+          await this.sessions.openSession(data.roomId, data.url, device);
+        } catch (error) {
+          console.error(`Failed to open room ${data.roomId}:`, error);
+        }
+      });
+
+      socket.on('close-room', async (data: { roomId: string }) => {
+        console.log(`🗑️ Close room request: ${data.roomId}`);
+        await this.closeRoom(data.roomId);
+      });
+
+      socket.on('open-tab', async (data: { roomId: string; url?: string }) => {
+        console.log(`🗂️ Open tab request for room ${data.roomId}`);
+        const result = await this.sessions.openTab(data.roomId, data.url || undefined);
+        if (!result.success) {
+          console.log(`Cannot open tab in room ${data.roomId}: ${result.error}`);
+        }
+      });
+
+      socket.on('close-tab', async (data: { roomId: string; tabId: string }) => {
+        console.log(`🗂️ Close tab request for room ${data.roomId}: ${data.tabId}`);
+        const result = await this.sessions.closeTab(data.roomId, data.tabId);
+        if (!result.success) {
+          console.log(`Cannot close tab in room ${data.roomId}: ${result.error}`);
+        }
+      });
+
+      socket.on('switch-tab', async (data: { roomId: string; tabId: string }) => {
+        console.log(`🗂️ Switch tab request for room ${data.roomId}: ${data.tabId}`);
+        const result = await this.sessions.switchTab(data.roomId, data.tabId);
+        if (!result.success) {
+          console.log(`Cannot switch tab in room ${data.roomId}: ${result.error}`);
+        }
+      });
+
+      socket.on('control-changed', (data: { roomId: string; holderId: string | null; holderName?: string }) => {
+        if (this.roomControllers.get(data.roomId) !== data.holderId) {
+          this.recorder.record(data.roomId, { type: 'control-changed', holderId: data.holderId, holderName: data.holderName });
+        }
+        this.roomControllers.set(data.roomId, data.holderId);
+      });
+
+      // Recording; the signaling server has checked that the member is a
+      // moderator. Failures go back to that member.
+      socket.on('start-recording', async (data: { roomId: string; userId: string; startedBy: string }) => {
+        await this.startRecording(socket, data.roomId, data.userId, data.startedBy);
+      });
+
+      socket.on('stop-recording', async (data: { roomId: string }) => {
+        await this.stopRecording(data.roomId);
+      });
+
+      // Tours; as with recording, the signaling server has checked that the
+      // member is a moderator, and failures go back to them
+      socket.on('start-tour', (data: { roomId: string; userId: string; startedBy: string; source: unknown }) => {
+        if (!this.sessions.getSession(data.roomId)) {
+          socket.emit('tour-error', { roomId: data.roomId, userId: data.userId, message: 'The room has no page to tour' });
+          return;
+        }
+
+        try {
+          this.tours.start(data.roomId, data.source, typeof data.startedBy === 'string' ? data.startedBy : 'Unknown');
+        } catch (error: any) {
+          console.log(`Cannot start a tour in room ${data.roomId}: ${error.message}`);
+          socket.emit('tour-error', { roomId: data.roomId, userId: data.userId, message: error.message });
+        }
+      });
+
+      socket.on('tour-command', (data: { roomId: string; userId: string; command: TourCommand }) => {
+        if (!TOUR_COMMANDS.includes(data.command)) return;
+
+        const error = this.tours.command(data.roomId, data.command);
+        if (error) {
+          socket.emit('tour-error', { roomId: data.roomId, userId: data.userId, message: error });
+        }
+      });
+
+      // The host changed the room's device; the signaling server has checked
+      // that they are a moderator
+      socket.on('set-device', async (data: { roomId: string; userId: string; device: unknown }) => {
+        const result = await this.sessions.setDevice(data.roomId, data.device);
+        if (!result.success) {
+          console.log(`Cannot change the device of room ${data.roomId}: ${result.error}`);
+          socket.emit('device-error', { roomId: data.roomId, userId: data.userId, message: result.error });
+          return;
+        }
+
+        this.handleDeviceChanged(data.roomId);
+      });
+
+      // Chat is only sent here while the room is recorded
+      socket.on('chat-message', (data: { roomId: string; message: { userId: string; userName: string; text: string } }) => {
+        if (!data.message || typeof data.message.text !== 'string') return;
+        this.recorder.record(data.roomId, {
+          type: 'chat',
+          userId: data.message.userId,
+          userName: data.message.userName,
+          text: data.message.text
+        });
+      });
 
-      socket.on('webrtc-offer', async (data: { offer: RTCSessionDescriptionInit, clientId: string }) => {
-        console.log('📡 Received WebRTC offer from signaling server for client:', data.clientId);
+      socket.on('webrtc-offer', async (data: { offer: SessionDescription, clientId: string, roomId: string, userId: string }) => {
+        console.log(`📡 Received WebRTC offer from signaling server for client ${data.clientId} in room ${data.roomId}`);
+
+        if (!wrtc) {
+          // The client keeps receiving frames over Socket.IO
+          socket.emit('webrtc-error', {
+            message: 'WebRTC is not available on the browser service',
+            clientId: data.clientId
+          });
+          return;
+        }
 
         try {
+          // Replace any earlier connection from the same client
+          this.closePeerConnection(data.clientId);
+
+          // Make sure the room is being captured and grab tracks on its shared sources
+          await this.subscribeViewer(socket, data.clientId, data.roomId, {});
+          const tracks = this.broadcasters.get(data.roomId)?.createTracks() ?? [];
+          if (tracks.length === 0) {
+            socket.emit('webrtc-error', {
+              message: 'No page to stream for this room',
+              clientId: data.clientId
+            });
+            return;
+          }
+
           // Create WebRTC peer connection for this client
-          const peerConnection = new RTCPeerConnection({
+          const peerConnection = new wrtc.RTCPeerConnection({
             iceServers: [
               { urls: 'stun:stun.l.google.com:19302' },
               { urls: 'stun:stun1.l.google.com:19302' }
@@ -114,20 +454,48 @@ class BrowserService {
           });
 
           // Store the peer connection
-          this.streamingClients.set(data.clientId, peerConnection);
+          this.streamingClients.set(data.clientId, { peerConnection, tracks, roomId: data.roomId, userId: data.userId });
+
+          peerConnection.onconnectionstatechange = () => {
+            console.log(`📡 WebRTC connection for client ${data.clientId}: ${peerConnection.connectionState}`);
+
+            // Screencast frames only come on change, so resend the current
+            // page as the first frame of the new track
+            if (peerConnection.connectionState === 'connected') {
+              this.broadcasters.get(data.roomId)?.refresh().catch((error) => {
+                console.error('Failed to refresh screencast:', error);
+              });
+            }
+          };
 
           // Handle data channel
-          peerConnection.ondatachannel = (event) => {
+          peerConnection.ondatachannel = (event: any) => {
             const dataChannel = event.channel;
             console.log('Data channel received:', dataChannel.label);
 
-            dataChannel.onmessage = (event) => {
+            dataChannel.onmessage = (event: any) => {
               try {
                 const message = JSON.parse(event.data);
                 console.log('Received data channel message:', message);
 
+                // The data channel bypasses the signaling server, so apply
+                // its control check here
+                if (!data.userId || this.roomControllers.get(data.roomId) !== data.userId) {
+                  return;
+                }
+                this.reportInput(data.roomId, data.userId);
+
                 if (message.type === 'navigate') {
-                  this.navigateToUrl(message.url);
+                  this.navigateToUrl(data.roomId, message.url).catch((error) => {
+                    console.error('Navigation failed:', error);
+                  });
+                } else if (CONTROL_TYPES.includes(message.type)) {
+                  this.handleControl(data.roomId, {
+                    type: message.type,
+                    userId: data.userId,
+                    data: message.data,
+                    timestamp: message.timestamp || Date.now()
+                  });
                 }
               } catch (error) {
                 console.error('Error parsing data channel message:', error);
@@ -140,7 +508,7 @@ class BrowserService {
           };
 
           // Handle ICE candidates
-          peerConnection.onicecandidate = (event) => {
+          peerConnection.onicecandidate = (event: any) => {
             if (event.candidate) {
               socket.emit('webrtc-ice-candidate', {
                 candidate: event.candidate,
@@ -150,7 +518,14 @@ class BrowserService {
           };
 
           // Set remote description
-          await peerConnection.setRemoteDescription(new RTCSessionDescription(data.offer));
+          await peerConnection.setRemoteDescription(new wrtc.RTCSessionDescription(data.offer));
+
+          // Publish the page on the transceivers the client offered; sharing
+          // one stream lets the client keep audio and video in sync
+          const mediaStream = new wrtc.MediaStream(tracks);
+          for (const track of tracks) {
+            peerConnection.addTrack(track, mediaStream);
+          }
 
           // Create answer
           const answer = await peerConnection.createAnswer();
@@ -158,312 +533,758 @@ class BrowserService {
 
           // Send answer back to signaling server
           socket.emit('webrtc-answer', {
-            answer: answer,
+            answer: { type: answer.type, sdp: answer.sdp },
             clientId: data.clientId
           });
 
-          // Start streaming if browser is ready
-          this.startStreaming(data.clientId);
-
           console.log('📡 WebRTC connection established for client:', data.clientId);
 
         } catch (error) {
           console.error('❌ WebRTC offer handling failed:', error);
-          socket.emit('error', {
+          this.closePeerConnection(data.clientId);
+          socket.emit('webrtc-error', {
             message: 'Failed to process WebRTC offer',
             clientId: data.clientId
           });
         }
       });
 
-      socket.on('webrtc-ice-candidate', async (data: { candidate: RTCIceCandidateInit, clientId: string }) => {
-        const peerConnection = this.streamingClients.get(data.clientId);
-        if (peerConnection) {
+      socket.on('webrtc-ice-candidate', async (data: { candidate: IceCandidate, clientId: string }) => {
+        const client = this.streamingClients.get(data.clientId);
+        if (client) {
           try {
-            await peerConnection.addIceCandidate(new RTCIceCandidate(data.candidate));
+            await client.peerConnection.addIceCandidate(new wrtc.RTCIceCandidate(data.candidate));
           } catch (error) {
             console.error('❌ Failed to add ICE candidate:', error);
           }
         }
       });
 
-      socket.on('navigate', async (data: { url: string }) => {
-        console.log(`🌐 Navigation request: ${data.url}`);
+      socket.on('navigate', async (data: { roomId: string; url: string }) => {
+        console.log(`🌐 Navigation request for room ${data.roomId}: ${data.url}`);
         try {
-          if (this.page && this.isInitialized) {
-            await Promise.race([
-              this.page.goto(data.url, {
-                waitUntil: 'domcontentloaded',
-                timeout: 30000
-              }),
-              new Promise((_, reject) =>
-                setTimeout(() => reject(new Error('Navigation timeout')), 30000)
-              )
-            ]);
-
-            // Wait a bit for page to stabilize
-            await new Promise(resolve => setTimeout(resolve, 1000));
-
-            this.currentUrl = this.page.url();
-            console.log(`✅ Navigated to: ${this.currentUrl}`);
-          } else {
-            console.error('Browser not ready for navigation');
-          }
+          await this.navigateToUrl(data.roomId, data.url);
         } catch (error) {
           console.error('Navigation failed:', error);
         }
       });
 
-      socket.on('refresh', async () => {
-        console.log('🔄 Refresh request');
-        if (this.page) {
-          await this.page.reload();
+      socket.on('stream-start', async (data: { clientId: string; roomId: string } & Partial<StreamSettings>) => {
+        await this.subscribeViewer(socket, data.clientId, data.roomId, {
+          fps: data.fps,
+          quality: data.quality
+        });
+      });
+
+      // The signaling server checks control too; as on the data channel,
+      // only the holder's input reaches the page
+      socket.on('control', (data: { roomId: string; message: ControlMessage }) => {
+        if (!data?.message?.userId || this.roomControllers.get(data.roomId) !== data.message.userId) {
+          return;
+        }
+        this.handleControl(data.roomId, data.message);
+      });
+
+      // Play, pause, seek and so on; the signaling server has checked that
+      // the member holds control. Failures go back to that member.
+      socket.on('media-command', async (data: { roomId: string; userId: string; command: MediaCommand }) => {
+        const session = this.sessions.getSession(data.roomId);
+        if (!session || !data.command || !MEDIA_ACTIONS.includes(data.command.action)) {
+          return;
+        }
+        session.lastActivity = new Date();
+
+        try {
+          await this.media.command(session.activeTabId, data.command);
+        } catch (error: any) {
+          console.log(`Media command ${data.command.action} failed in room ${data.roomId}: ${error.message}`);
+          socket.emit('media-error', { roomId: data.roomId, userId: data.userId, message: error.message });
         }
       });
 
-      socket.on('back', async () => {
-        console.log('⬅️ Back navigation request');
-        if (this.page) {
-          await this.page.goBack();
+      socket.on('refresh', async (data: { roomId: string }) => {
+        console.log(`🔄 Refresh request for room ${data.roomId}`);
+        const session = this.sessions.getSession(data.roomId);
+        if (session?.page) {
+          try {
+            await session.page.reload();
+          } catch (error) {
+            console.error('Refresh failed:', error);
+          }
         }
       });
 
-      socket.on('forward', async () => {
-        console.log('➡️ Forward navigation request');
-        if (this.page) {
-          await this.page.goForward();
+      socket.on('back', async (data: { roomId: string }) => {
+        console.log(`⬅️ Back navigation request for room ${data.roomId}`);
+        const session = this.sessions.getSession(data.roomId);
+        if (session?.page) {
+          try {
+            await session.page.goBack();
+          } catch (error) {
+            console.error('Back navigation failed:', error);
+          }
         }
       });
 
-      socket.on('client-disconnected', (data: { clientId: string }) => {
-        console.log(`🌐 Client disconnected: ${data.clientId}`);
-        const peerConnection = this.streamingClients.get(data.clientId);
-        if (peerConnection) {
-          peerConnection.close();
-          this.streamingClients.delete(data.clientId);
+      socket.on('forward', async (data: { roomId: string }) => {
+        console.log(`➡️ Forward navigation request for room ${data.roomId}`);
+        const session = this.sessions.getSession(data.roomId);
+        if (session?.page) {
+          try {
+            await session.page.goForward();
+          } catch (error) {
+            console.error('Forward navigation failed:', error);
+          }
         }
       });
 
-      socket.on('disconnect', () => {
+      socket.on('client-disconnected', async (data: { clientId: string }) => {
+        console.log(`🌐 Client disconnected: ${data.clientId}`);
+        this.closePeerConnection(data.clientId);
+        await this.unsubscribeViewer(data.clientId);
+      });
+
+      socket.on('disconnect', async () => {
         console.log(`🌐 Signaling server disconnected: ${socket.id}`);
         // Close all peer connections
-        for (const [clientId, peerConnection] of this.streamingClients) {
-          peerConnection.close();
+        for (const clientId of Array.from(this.streamingClients.keys())) {
+          this.closePeerConnection(clientId);
+        }
+        await this.stopAllBroadcasters();
+
+        // Recordings don't depend on any one signaling server; keep capturing them
+        for (const roomId of this.recorder.getRecordedRooms()) {
+          await this.subscribeRecorder(roomId);
         }
-        this.streamingClients.clear();
       });
     });
   }
 
-  private async startStreaming(clientId: string): Promise<void> {
-    if (!this.page || !this.isInitialized) {
-      console.log('Browser not ready for streaming');
-      return;
+  // The active tab's page state plus the room's tab strip
+  private getWorkerStatus(): { capacity: number; rooms: string[] } {
+    return {
+      capacity: WORKER_CAPACITY,
+      rooms: this.sessions.getSessions().map(session => session.roomId)
+    };
+  }
+
+  private getBrowserState(roomId: string): BrowserState | null {
+    const session = this.sessions.getSession(roomId);
+    const active = session && this.pageStates.getState(session.activeTabId);
+    if (!session || !active) return null;
+
+    return {
+      ...active,
+      tabs: session.tabs.map((tab) => {
+        const state = this.pageStates.getState(tab.id);
+        return {
+          id: tab.id,
+          url: state?.url || (tab.page ? tab.page.url() : ''),
+          title: state?.title ?? '',
+          isLoading: state?.isLoading ?? false
+        };
+      }),
+      activeTabId: session.activeTabId
+    };
+  }
+
+  private publishBrowserState(roomId: string): void {
+    const state = this.getBrowserState(roomId);
+    if (!state) return;
+
+    const session = this.sessions.getSession(roomId);
+    if (session && state.url) {
+      session.currentUrl = state.url;
     }
 
-    const peerConnection = this.streamingClients.get(clientId);
-    if (!peerConnection) {
-      console.log('No peer connection found for client:', clientId);
-      return;
+    this.recorder.recordNavigation(roomId, state.activeTabId, state.url, state.title);
+    this.io.emit('browser-state', { roomId, state });
+  }
+
+  // Once a room's pages are resized, capture at the new size and tell
+  // everyone, so viewers scale their canvas to match
+  private handleDeviceChanged(roomId: string): void {
+    const session = this.sessions.getSession(roomId);
+    if (!session) return;
+
+    // Restarting the capture on the same page picks up its new viewport
+    this.broadcasters.get(roomId)?.setPage(session.page).catch((error) => {
+      console.error(`Failed to restart the stream of room ${roomId}:`, error);
+    });
+    for (const tab of session.tabs) {
+      this.pageStates.refreshViewport(tab.id);
     }
+    this.io.emit('device-state', { roomId, device: session.device });
+  }
 
-    console.log('Starting screenshot streaming for client:', clientId);
+  private getMediaState(roomId: string): MediaState {
+    const session = this.sessions.getSession(roomId);
+    return (session && this.media.getState(session.activeTabId)) || { elements: [], updatedAt: Date.now() };
+  }
 
-    // Start capturing screenshots and sending them as video frames
-    this.streamingInterval = setInterval(async () => {
-      try {
-        if (!this.page || !this.isInitialized) {
-          return;
-        }
+  private publishMediaState(roomId: string): void {
+    if (this.sessions.getSession(roomId)) {
+      this.io.emit('media-state', { roomId, state: this.getMediaState(roomId) });
+    }
+  }
 
-        const screenshot = await this.page.screenshot({
-          type: 'png',
-          fullPage: false
-        });
+  // Navigate a room's page and return where it ended up
+  private async navigateToUrl(roomId: string, url: string): Promise<{ url: string; title: string }> {
+    if (!this.isInitialized) {
+      throw new Error('Browser not ready for navigation');
+    }
 
-        // Send screenshot data through WebRTC data channel
-        // For now, we'll send via Socket.IO as fallback since data channel setup is complex
-        const socket = Array.from(this.io.sockets.sockets.values()).find(
-          (s: any) => s.id === clientId
-        );
+    const session = await this.sessions.openSession(roomId);
+    session.lastActivity = new Date();
 
-        if (socket) {
-          socket.emit('browser-frame', {
-            imageData: screenshot.toString('base64'),
-            timestamp: Date.now()
-          });
-        } else {
-          console.log('Socket not found for client:', clientId);
-        }
-      } catch (error) {
-        console.error('Error capturing screenshot:', error);
-      }
-    }, 100); // 10 FPS
+    if (!session.page) {
+      session.currentUrl = url;
+      return { url, title: this.getMockTitle(url) };
+    }
+
+    await Promise.race([
+      session.page.goto(url, {
+        waitUntil: 'domcontentloaded',
+        timeout: 30000
+      }),
+      new Promise((_, reject) =>
+        setTimeout(() => reject(new Error('Navigation timeout')), 30000)
+      )
+    ]);
+
+    // Wait a bit for page to stabilize
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    session.currentUrl = session.page.url();
+    console.log(`✅ Room ${roomId} navigated to: ${session.currentUrl}`);
+
+    let title = 'Page Loaded';
+    try {
+      title = await session.page.title();
+    } catch (error) {
+      console.error('Error getting page title:', error);
+    }
 
-    console.log('Screenshot streaming started for client:', clientId);
+    return { url: session.currentUrl, title };
   }
 
-  // Initialize browser - try Playwright first, then Puppeteer
-  private async initializeBrowser(): Promise<void> {
-    if (this.isInitialized && this.browser && this.page) {
-      console.log('✅ Browser already initialized');
+  // The signaling servers release control from holders who stop using the
+  // page, but never see input that comes over the data channel
+  private reportInput(roomId: string, userId: string): void {
+    const now = Date.now();
+    if (now - (this.inputReportedAt.get(roomId) ?? 0) < INPUT_REPORT_INTERVAL) return;
+
+    this.inputReportedAt.set(roomId, now);
+    this.io.emit('control-input', { roomId, userId });
+  }
+
+  // Replay a viewer's control message on the room's page
+  private async handleControl(roomId: string, message: ControlMessage): Promise<void> {
+    if (!message || !CONTROL_TYPES.includes(message.type)) {
+      console.log('Ignoring malformed control message for room:', roomId);
       return;
     }
 
-    // Close existing browser if it exists
-    if (this.browser) {
+    const session = this.sessions.getSession(roomId);
+    if (!session?.page) {
+      return;
+    }
+    session.lastActivity = new Date();
+    this.recorder.record(roomId, { type: 'control', message });
+
+    if (message.type === 'navigation') {
+      const data = (message.data || {}) as NavigationControlData;
       try {
-        if (this.browserType === 'playwright') {
-          await this.browser.close();
-        } else if (this.browserType === 'puppeteer') {
-          await this.browser.close();
+        if (data.action === 'goto' && data.url) {
+          await this.navigateToUrl(roomId, data.url);
+        } else if (data.action === 'back') {
+          await session.page.goBack();
+        } else if (data.action === 'forward') {
+          await session.page.goForward();
+        } else if (data.action === 'refresh') {
+          await session.page.reload();
         }
       } catch (error) {
-        console.error('Error closing existing browser:', error);
+        console.error(`Navigation control failed in room ${roomId}:`, error);
       }
-      this.browser = null;
-      this.page = null;
+      return;
     }
 
-    // Try Playwright first
-    if (playwright && chromium) {
-      try {
-        console.log('🚀 Launching Playwright browser...');
-
-        this.browser = await chromium.launch({
-          headless: true,
-          args: [
-            '--no-sandbox',
-            '--disable-setuid-sandbox',
-            '--disable-dev-shm-usage',
-            '--disable-accelerated-2d-canvas',
-            '--no-first-run',
-            '--no-zygote',
-            '--disable-gpu',
-            '--disable-web-security',
-            '--disable-features=VizDisplayCompositor'
-          ]
-        });
-
-        this.page = await this.browser.newPage();
-        await this.page.setViewportSize({ width: 1280, height: 720 });
-        // Note: Playwright handles user agent automatically, no need to set it manually
-
-        await this.page.goto(this.currentUrl, {
-          waitUntil: 'domcontentloaded',
-          timeout: 30000
-        });
+    await this.input.dispatch(roomId, session.page, this.browserType, message);
+  }
 
-        this.browserType = 'playwright';
-        this.isInitialized = true;
-        console.log('✅ Playwright browser initialized successfully');
-        return;
+  // Close a room's browser context and any clients still streaming it
+  private async closeRoom(roomId: string): Promise<void> {
+    this.tours.stop(roomId);
+    await this.stopRecording(roomId);
 
-      } catch (error) {
-        console.error('❌ Playwright failed:', error);
+    for (const [clientId, client] of this.streamingClients) {
+      if (client.roomId === roomId) {
+        this.closePeerConnection(clientId);
       }
     }
 
-    // Try Puppeteer as fallback
-    if (puppeteer) {
-      try {
-        console.log('🚀 Launching Puppeteer browser...');
+    for (const [clientId, viewerRoomId] of this.viewerRooms) {
+      if (viewerRoomId === roomId) {
+        this.viewerRooms.delete(clientId);
+      }
+    }
 
-        this.browser = await puppeteer.launch({
-          headless: 'new',
-          args: [
-            '--no-sandbox',
-            '--disable-setuid-sandbox',
-            '--disable-dev-shm-usage',
-            '--disable-accelerated-2d-canvas',
-            '--no-first-run',
-            '--no-zygote',
-            '--disable-gpu',
-            '--disable-web-security',
-            '--disable-features=VizDisplayCompositor',
-            '--disable-background-timer-throttling',
-            '--disable-backgrounding-occluded-windows',
-            '--disable-renderer-backgrounding'
-          ]
-        });
+    const broadcaster = this.broadcasters.get(roomId);
+    if (broadcaster) {
+      this.broadcasters.delete(roomId);
+      await broadcaster.stop();
+    }
 
-        this.page = await this.browser.newPage();
-        await this.page.setViewport({ width: 1280, height: 720 });
-        await this.page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+    this.input.release(roomId);
+    this.roomControllers.delete(roomId);
+    this.inputReportedAt.delete(roomId);
+    await this.sessions.closeSession(roomId);
+  }
 
-        this.page.on('error', (error) => {
-          console.error('Page error:', error);
-        });
+  private getMockTitle(url: string): string {
+    return url.includes('google')
+      ? 'Google'
+      : url.includes('youtube')
+      ? 'YouTube'
+      : 'Web Page';
+  }
 
-        this.page.on('pageerror', (error) => {
-          console.error('Page JavaScript error:', error);
-        });
+  // Send a capture of a room's page. The whole request has `timeout` ms, the
+  // capture a little less. If the browser isn't ready it is brought back once,
+  // and if that fails too the fallback answers instead.
+  private async sendCapture(res: express.Response, roomId: string, request: CaptureRequest): Promise<void> {
+    const timeout = setTimeout(() => {
+      const message = `${request.label[0].toUpperCase()}${request.label.slice(1)} timeout`;
+      console.error(message);
+      if (!res.headersSent) {
+        res.status(504).json({ error: message });
+      }
+    }, request.timeout);
+
+    const send = async (page: any, limit: number) => {
+      const data = await Promise.race([
+        request.capture(page),
+        new Promise<never>((_, reject) =>
+          setTimeout(() => reject(new Error(`Timed out taking a ${request.label}`)), limit)
+        )
+      ]);
+
+      clearTimeout(timeout);
+      if (res.headersSent) return;
+      if (!data) {
+        res.status(404).json({ error: request.notFound });
+        return;
+      }
+      res.setHeader('Content-Type', request.contentType);
+      res.send(data);
+    };
 
-        await this.page.goto(this.currentUrl, {
-          waitUntil: 'domcontentloaded',
-          timeout: 30000
-        });
+    try {
+      let session = this.sessions.getSession(roomId);
 
-        this.browserType = 'puppeteer';
-        this.isInitialized = true;
-        console.log('✅ Puppeteer browser initialized successfully');
-        return;
+      if (session?.page && this.isInitialized && this.browserType !== 'mock') {
+        await send(session.page, request.timeout - 2000);
+      } else {
+        // Try to reinitialize browser first
+        console.log(`Browser not ready for ${request.label}, attempting to reinitialize...`);
+        try {
+          await this.initializeBrowser();
+          session = await this.sessions.openSession(roomId);
+          if (session.page && this.isInitialized && this.browserType !== 'mock') {
+            await send(session.page, request.timeout / 2);
+          } else {
+            throw new Error('Browser initialization failed');
+          }
+        } catch (initError) {
+          console.error(`Browser initialization failed for ${request.label}:`, initError);
+          clearTimeout(timeout);
+          if (!res.headersSent) {
+            request.fallback(session?.currentUrl ?? DEFAULT_URL);
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Error creating ${request.label}:`, error);
+      clearTimeout(timeout);
 
-      } catch (error) {
-        console.error('❌ Puppeteer failed:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: `Failed to create ${request.label}` });
       }
     }
+  }
 
-    // Try HTTP client as final fallback
-    if (axios) {
-      console.log('✅ Using HTTP client for content fetching');
-      this.browserType = 'http';
-      this.isInitialized = true;
+  // Only the signaling servers may drive pages directly. Without WORKER_TOKEN
+  // nobody can, rather than everybody.
+  private requireWorkerToken(req: express.Request, res: express.Response, next: express.NextFunction): void {
+    const token = process.env.WORKER_TOKEN;
+    if (!token) {
+      res.status(503).json({ error: 'WORKER_TOKEN is not set on this worker' });
+      return;
+    }
+    if (req.headers.authorization !== `Bearer ${token}`) {
+      res.status(401).json({ error: 'Invalid worker token' });
+      return;
+    }
+    next();
+  }
+
+  // Read a room id from a request body or query string
+  private getRoomId(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+  }
+
+  // Get or create the shared capture for a room's page
+  private async getBroadcaster(roomId: string): Promise<FrameBroadcaster | null> {
+    const existing = this.broadcasters.get(roomId);
+    if (existing) return existing;
+
+    if (!this.isInitialized) {
+      console.log('Browser not ready for streaming');
+      return null;
+    }
+
+    const session = await this.sessions.openSession(roomId);
+    if (!session.page) {
+      console.log(`No page to stream for room ${roomId} (${this.browserType} mode)`);
+      return null;
+    }
+
+    // Another viewer may have created it while the session was opening
+    let broadcaster = this.broadcasters.get(roomId);
+    if (!broadcaster) {
+      broadcaster = new FrameBroadcaster(session.page, this.browserType, wrtc, this.audio);
+      this.broadcasters.set(roomId, broadcaster);
+    }
+    return broadcaster;
+  }
+
+  // Subscribe a client to its room's frames (or retune its settings)
+  private async subscribeViewer(socket: any, clientId: string, roomId: string, settings: Partial<StreamSettings>): Promise<void> {
+    const currentRoomId = this.viewerRooms.get(clientId);
+    if (currentRoomId && currentRoomId !== roomId) {
+      await this.unsubscribeViewer(clientId);
+    }
+
+    const broadcaster = await this.getBroadcaster(roomId);
+    if (!broadcaster) return;
+
+    if (broadcaster.hasSubscriber(clientId)) {
+      await broadcaster.updateSettings(clientId, settings);
+      console.log(`🎚️ Stream settings for client ${clientId}:`, broadcaster.getSettings(clientId));
+      return;
+    }
+
+    this.viewerRooms.set(clientId, roomId);
+
+    try {
+      // Once the client's WebRTC track is up it gets frames from the shared
+      // video source; until then (or without wrtc) frames go over Socket.IO
+      await broadcaster.subscribe(clientId, {
+        deliver: (frame, metadata) => this.sendFrame(socket, clientId, frame, metadata),
+        deliverAudio: (audio, timestamp) => this.sendAudio(socket, clientId, audio, timestamp),
+        usesVideoTrack: () => this.streamingClients.get(clientId)?.peerConnection.connectionState === 'connected'
+      }, settings);
+      console.log(`📺 Client ${clientId} watching room ${roomId}:`, broadcaster.getSettings(clientId));
+    } catch (error) {
+      console.error(`❌ Failed to start screencast for client ${clientId}:`, error);
+      await this.unsubscribeViewer(clientId);
+    }
+  }
+
+  // Drop a client from its room's frames; capture stops with the last viewer
+  private async unsubscribeViewer(clientId: string): Promise<void> {
+    const roomId = this.viewerRooms.get(clientId);
+    if (!roomId) return;
+
+    this.viewerRooms.delete(clientId);
+
+    const broadcaster = this.broadcasters.get(roomId);
+    if (!broadcaster) return;
+
+    await broadcaster.unsubscribe(clientId);
+
+    if (broadcaster.isIdle() && this.broadcasters.get(roomId) === broadcaster) {
+      this.broadcasters.delete(roomId);
+      await broadcaster.stop();
+      console.log(`📺 Screencast stopped for room ${roomId}, last viewer left`);
+    }
+  }
+
+  // Start recording a room: its frames, navigation, control and chat
+  private async startRecording(socket: any, roomId: string, userId: string, startedBy: string): Promise<void> {
+    const session = this.sessions.getSession(roomId);
+    if (!session) {
+      socket.emit('recording-error', { roomId, userId, message: 'The room has no page to record' });
+      return;
+    }
+
+    try {
+      await this.recorder.start(roomId, typeof startedBy === 'string' ? startedBy : 'Unknown');
+    } catch (error: any) {
+      console.log(`Cannot record room ${roomId}: ${error.message}`);
+      socket.emit('recording-error', { roomId, userId, message: error.message });
+      return;
+    }
+
+    // Start the timeline with where the room is and who is driving
+    const state = this.getBrowserState(roomId);
+    if (state) {
+      this.recorder.recordNavigation(roomId, state.activeTabId, state.url, state.title);
+    }
+    this.recorder.record(roomId, { type: 'control-changed', holderId: this.roomControllers.get(roomId) ?? null });
+
+    await this.subscribeRecorder(roomId);
+  }
+
+  private async stopRecording(roomId: string): Promise<void> {
+    await this.recorder.stop(roomId);
+    await this.unsubscribeViewer(this.getRecorderClientId(roomId));
+  }
+
+  // Feed a recorded room's frames to its recording. It counts as a viewer,
+  // so the room stays captured while it is recorded even if nobody watches.
+  private async subscribeRecorder(roomId: string): Promise<void> {
+    const clientId = this.getRecorderClientId(roomId);
+    const broadcaster = await this.getBroadcaster(roomId);
+    if (!broadcaster || !this.recorder.isRecording(roomId) || broadcaster.hasSubscriber(clientId)) return;
+
+    this.viewerRooms.set(clientId, roomId);
+    try {
+      await broadcaster.subscribe(clientId, {
+        deliver: (frame, metadata) => this.recorder.recordFrame(roomId, frame, metadata),
+        deliverAudio: () => undefined,
+        usesVideoTrack: () => false
+      }, RECORDING_STREAM_SETTINGS);
+    } catch (error) {
+      console.error(`❌ Failed to capture room ${roomId} for its recording:`, error);
+      await this.unsubscribeViewer(clientId);
+    }
+  }
+
+  private getRecorderClientId(roomId: string): string {
+    return `recording:${roomId}`;
+  }
+
+  // Send one binary JPEG frame to the signaling server for relay; resolves
+  // once the client acks it (or the ack times out). The timestamp is when
+  // Chromium painted the frame, in ms, on the same clock as audio packets.
+  private sendFrame(socket: any, clientId: string, frame: Buffer, metadata: ScreencastFrameMetadata): Promise<void> {
+    return new Promise(resolve => {
+      socket.timeout(FRAME_ACK_TIMEOUT).emit('browser-frame', {
+        clientId,
+        frame,
+        metadata,
+        timestamp: metadata.timestamp ? Math.round(metadata.timestamp * 1000) : Date.now()
+      }, () => resolve());
+    });
+  }
+
+  // Send a packet of interleaved s16le PCM; the timestamp is when its first sample played
+  private sendAudio(socket: any, clientId: string, audio: Buffer, timestamp: number): void {
+    socket.volatile.emit('browser-audio', {
+      clientId,
+      audio,
+      sampleRate: AUDIO_SAMPLE_RATE,
+      channels: AUDIO_CHANNELS,
+      timestamp
+    });
+  }
+
+  private closePeerConnection(clientId: string): void {
+    const client = this.streamingClients.get(clientId);
+    if (!client) return;
+
+    this.streamingClients.delete(clientId);
+    try {
+      this.broadcasters.get(client.roomId)?.releaseTracks(client.tracks);
+      client.peerConnection.close();
+    } catch (error) {
+      console.error(`Error closing peer connection for ${clientId}:`, error);
+    }
+  }
+
+  private async stopAllBroadcasters(): Promise<void> {
+    const broadcasters = Array.from(this.broadcasters.values());
+    this.broadcasters.clear();
+    this.viewerRooms.clear();
+
+    for (const broadcaster of broadcasters) {
+      await broadcaster.stop();
+    }
+  }
+
+  // Headless launches are muted by default; keep sound on when it is captured
+  private getIgnoredLaunchArgs(): string[] {
+    return this.audio ? ['--mute-audio'] : [];
+  }
+
+  private getAudioLaunchArgs(): string[] {
+    return this.audio ? ['--autoplay-policy=no-user-gesture-required'] : [];
+  }
+
+  // Launch the shared browser - try Playwright first, then Puppeteer.
+  // Each room gets its own context from RoomSessionManager.
+  private async initializeBrowser(): Promise<void> {
+    if (this.isInitialized && this.browser?.isConnected()) {
+      console.log('✅ Browser already initialized');
+      return;
+    }
+
+    // The old browser has gone, and every room's pages with it
+    if (this.browser) {
+      await this.sessions.closeAll();
+      try {
+        await this.browser.close();
+      } catch (error) {
+        console.error('Error closing existing browser:', error);
+      }
+      this.browser = null;
+    }
+
+    // Try Playwright first
+    if (playwright && chromium) {
+      try {
+        console.log('🚀 Launching Playwright browser...');
+
+        this.browser = await chromium.launch({
+          headless: true,
+          ignoreDefaultArgs: this.getIgnoredLaunchArgs(),
+          args: [
+            ...this.getAudioLaunchArgs(),
+            '--no-sandbox',
+            '--disable-setuid-sandbox',
+            '--disable-dev-shm-usage',
+            '--disable-accelerated-2d-canvas',
+            '--no-first-run',
+            '--no-zygote',
+            '--disable-gpu',
+            '--disable-web-security',
+            '--disable-features=VizDisplayCompositor'
+          ]
+        });
+        // Note: Playwright handles user agent automatically, no need to set it manually
+
+        this.browserType = 'playwright';
+        this.sessions.attach(this.browser, this.browserType);
+        this.watchBrowser(this.browser);
+        this.isInitialized = true;
+        console.log('✅ Playwright browser initialized successfully');
+        return;
+
+      } catch (error) {
+        console.error('❌ Playwright failed:', error);
+      }
+    }
+
+    // Try Puppeteer as fallback
+    if (puppeteer) {
+      try {
+        console.log('🚀 Launching Puppeteer browser...');
+
+        this.browser = await puppeteer.launch({
+          headless: 'new',
+          ignoreDefaultArgs: this.getIgnoredLaunchArgs(),
+          args: [
+            ...this.getAudioLaunchArgs(),
+            '--no-sandbox',
+            '--disable-setuid-sandbox',
+            '--disable-dev-shm-usage',
+            '--disable-accelerated-2d-canvas',
+            '--no-first-run',
+            '--no-zygote',
+            '--disable-gpu',
+            '--disable-web-security',
+            '--disable-features=VizDisplayCompositor',
+            '--disable-background-timer-throttling',
+            '--disable-backgrounding-occluded-windows',
+            '--disable-renderer-backgrounding'
+          ]
+        });
+
+        this.browserType = 'puppeteer';
+        this.sessions.attach(this.browser, this.browserType);
+        this.watchBrowser(this.browser);
+        this.isInitialized = true;
+        console.log('✅ Puppeteer browser initialized successfully');
+        return;
+
+      } catch (error) {
+        console.error('❌ Puppeteer failed:', error);
+      }
+    }
+
+    // Try HTTP client as final fallback
+    if (axios) {
+      console.log('✅ Using HTTP client for content fetching');
+      this.browserType = 'http';
+      this.sessions.attach(null, this.browserType);
+      this.isInitialized = true;
       return;
     }
 
     // Fallback to mock
     console.log('🔄 Falling back to mock browser');
     this.browserType = 'mock';
+    this.sessions.attach(null, this.browserType);
     this.isInitialized = false;
   }
 
+  // A browser that crashes or is killed is relaunched by the next request
+  // that needs it. Nothing else brings it down.
+  private watchBrowser(browser: any): void {
+    browser.on('disconnected', () => {
+      if (this.browser !== browser) return;
+      console.error('❌ Browser disconnected');
+      this.isInitialized = false;
+    });
+  }
+
   private setupRoutes(): void {
     // Health check
     this.app.get('/health', (req, res) => {
       res.json({
         status: 'ok',
         browserReady: this.isInitialized,
-        currentUrl: this.currentUrl,
+        capacity: WORKER_CAPACITY,
+        rooms: this.sessions.getSessions().map(session => ({
+          roomId: session.roomId,
+          currentUrl: session.currentUrl,
+          tabs: session.tabs.length
+        })),
         timestamp: new Date().toISOString()
       });
     });
 
-    // Get current page info
-    this.app.get('/page', async (req, res) => {
+    // Get current page info. This route and those below that drive or
+    // capture a room's page are only for the signaling servers.
+    this.app.get('/page', this.requireWorkerToken, async (req, res) => {
+      const roomId = this.getRoomId(req.query.roomId);
+      if (!roomId) {
+        return res.status(400).json({ error: 'roomId is required' });
+      }
+
       try {
-        if (this.page) {
+        const session = await this.sessions.openSession(roomId);
+
+        if (session.page) {
           // Use real browser
-          const title = await this.page.title();
-          const url = this.page.url();
+          const title = await session.page.title();
+          const url = session.page.url();
 
           res.json({
+            roomId,
             title,
             url,
             currentUrl: url
           });
         } else {
           // Fallback to mock
-          const mockTitle = this.currentUrl.includes('google')
-            ? 'Google'
-            : this.currentUrl.includes('youtube')
-            ? 'YouTube'
-            : 'Web Page';
-
           res.json({
-            title: mockTitle,
-            url: this.currentUrl,
-            currentUrl: this.currentUrl
+            roomId,
+            title: this.getMockTitle(session.currentUrl),
+            url: session.currentUrl,
+            currentUrl: session.currentUrl
           });
         }
       } catch (error) {
@@ -473,14 +1294,19 @@ class BrowserService {
     });
 
     // Navigate to URL
-    this.app.post('/navigate', async (req, res) => {
+    this.app.post('/navigate', this.requireWorkerToken, async (req, res) => {
       const { url } = req.body;
+      const roomId = this.getRoomId(req.body.roomId);
 
       if (!url || typeof url !== 'string') {
         return res.status(400).json({ error: 'URL is required' });
       }
 
-      console.log(`🔗 Navigating to: ${url}`);
+      if (!roomId) {
+        return res.status(400).json({ error: 'roomId is required' });
+      }
+
+      console.log(`🔗 Navigating room ${roomId} to: ${url}`);
 
       // Set a timeout for the entire operation
       const timeout = setTimeout(() => {
@@ -491,48 +1317,33 @@ class BrowserService {
       }, 35000); // 35 seconds timeout
 
       try {
-        if (this.page && this.isInitialized) {
+        if (!this.isInitialized) {
+          // Try to reinitialize browser first
+          console.log('Browser not ready, attempting to reinitialize...');
+          await this.initializeBrowser();
+        }
+
+        const session = await this.sessions.openSession(roomId);
+
+        if (session.page) {
           // Use real browser with timeout
-          await Promise.race([
-            this.page.goto(url, {
-              waitUntil: 'domcontentloaded', // Less strict than networkidle2
-              timeout: 30000
-            }),
-            new Promise((_, reject) =>
-              setTimeout(() => reject(new Error('Navigation timeout')), 30000)
-            )
-          ]);
-
-          // Wait a bit for page to stabilize
-          await new Promise(resolve => setTimeout(resolve, 1000));
+          const result = await this.navigateToUrl(roomId, url);
 
-          try {
-            this.currentUrl = this.page.url();
-            const title = await this.page.title();
-
-            clearTimeout(timeout);
-            res.json({
-              success: true,
-              url: this.currentUrl,
-              title
-            });
-          } catch (pageError) {
-            console.error('Error getting page info:', pageError);
-            // Still return success if navigation worked
-            clearTimeout(timeout);
-            res.json({
-              success: true,
-              url: url,
-              title: 'Page Loaded'
-            });
-          }
+          clearTimeout(timeout);
+          res.json({
+            success: true,
+            roomId,
+            url: result.url,
+            title: result.title
+          });
         } else if (this.browserType === 'http' && axios) {
           // Use HTTP client to fetch real content
           console.log('🌐 Using HTTP client to fetch content');
+          let title = this.getMockTitle(url);
           try {
             const response = await axios.get(url, {
               headers: {
-                'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+                'User-Agent': DEFAULT_USER_AGENT,
                 'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
                 'Accept-Language': 'en-US,en;q=0.9',
                 'Accept-Encoding': 'gzip, deflate, br',
@@ -543,120 +1354,55 @@ class BrowserService {
               maxRedirects: 5
             });
 
-            this.currentUrl = url;
-
             // Extract title from HTML
             const titleMatch = response.data.match(/<title[^>]*>([^<]+)<\/title>/i);
-            const title = titleMatch ? titleMatch[1].trim() : 'Web Page';
-
-            clearTimeout(timeout);
-            res.json({
-              success: true,
-              url: this.currentUrl,
-              title
-            });
-          } catch (httpError) {
-            console.error('HTTP request failed:', httpError.message);
+            title = titleMatch ? titleMatch[1].trim() : 'Web Page';
+          } catch (httpError: any) {
             // Fallback to mock response
-            this.currentUrl = url;
-            const mockTitle = url.includes('google')
-              ? 'Google'
-              : url.includes('youtube')
-              ? 'YouTube'
-              : 'Web Page';
-
-            clearTimeout(timeout);
-            res.json({
-              success: true,
-              url,
-              title: mockTitle
-            });
+            console.error('HTTP request failed:', httpError.message);
           }
-        } else {
-          // Fallback to mock - try to reinitialize browser first
-          console.log('Browser not ready, attempting to reinitialize...');
-          try {
-            await this.initializeBrowser();
-            if (this.page && this.isInitialized) {
-              // Retry with real browser
-              await this.page.goto(url, {
-                waitUntil: 'domcontentloaded',
-                timeout: 20000
-              });
-              this.currentUrl = this.page.url();
-              const title = await this.page.title();
-
-              clearTimeout(timeout);
-              res.json({
-                success: true,
-                url: this.currentUrl,
-                title
-              });
-            } else if (this.browserType === 'http' && axios) {
-              // Use HTTP client
-              const response = await axios.get(url, {
-                headers: {
-                  'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-                },
-                timeout: 15000
-              });
 
-              this.currentUrl = url;
-              const titleMatch = response.data.match(/<title[^>]*>([^<]+)<\/title>/i);
-              const title = titleMatch ? titleMatch[1].trim() : 'Web Page';
+          session.currentUrl = url;
 
-              clearTimeout(timeout);
-              res.json({
-                success: true,
-                url: this.currentUrl,
-                title
-              });
-            } else {
-              throw new Error('Browser initialization failed');
-            }
-          } catch (initError) {
-            console.error('Browser initialization failed:', initError.message);
-            // Fallback to mock response
-            this.currentUrl = url;
-            const mockTitle = url.includes('google')
-              ? 'Google'
-              : url.includes('youtube')
-              ? 'YouTube'
-              : 'Web Page';
-
-            clearTimeout(timeout);
-            res.json({
-              success: true,
-              url,
-              title: mockTitle
-            });
-          }
+          clearTimeout(timeout);
+          res.json({
+            success: true,
+            roomId,
+            url,
+            title
+          });
+        } else {
+          // Fallback to mock response
+          session.currentUrl = url;
+
+          clearTimeout(timeout);
+          res.json({
+            success: true,
+            roomId,
+            url,
+            title: this.getMockTitle(url)
+          });
         }
 
-      } catch (error) {
+      } catch (error: any) {
         console.error('Error navigating:', error);
         clearTimeout(timeout);
 
-        if (!res.headersSent) {
-          // Try to reinitialize browser and retry
+        if (res.headersSent) return;
+
+        // A page that won't load is only this room's problem. Relaunching
+        // closes every room, so that waits until the browser itself is gone.
+        if (this.browser && !this.browser.isConnected()) {
           try {
-            console.log('Attempting browser recovery...');
-            this.isInitialized = false;
+            console.log('Browser disconnected, relaunching...');
             await this.initializeBrowser();
-
-            if (this.page && this.isInitialized) {
-              res.json({
-                success: true,
-                url,
-                title: 'Page Loaded (Recovered)'
-              });
-            } else {
-              res.status(500).json({ error: 'Browser unavailable' });
-            }
           } catch (recoveryError) {
-            res.status(500).json({ error: 'Navigation failed' });
+            console.error('Browser relaunch failed:', recoveryError);
           }
+          return res.status(503).json({ success: false, roomId, url, error: 'The browser restarted, try again' });
         }
+
+        res.status(502).json({ success: false, roomId, url, error: error?.message || 'Navigation failed' });
       }
     });
 
@@ -714,6 +1460,19 @@ class BrowserService {
             background: #666;
         }
 
+        .nav-button:disabled {
+            opacity: 0.4;
+            cursor: default;
+        }
+
+        .nav-button.busy {
+            animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+            to { transform: rotate(360deg); }
+        }
+
         .address-bar {
             flex: 1;
             height: 32px;
@@ -746,6 +1505,16 @@ class BrowserService {
             background: #0056b3;
         }
 
+        .quality-select {
+            height: 30px;
+            border: 1px solid #666;
+            border-radius: 4px;
+            background: #2d2d2d;
+            color: #fff;
+            font-size: 13px;
+            padding: 0 6px;
+        }
+
         .browser-content {
             flex: 1;
             position: relative;
@@ -761,12 +1530,19 @@ class BrowserService {
             height: 100%;
             object-fit: contain;
             background: #000;
+            outline: none;
+        }
+
+        .browser-video.hidden,
+        .browser-canvas.hidden {
+            display: none;
         }
 
         .browser-canvas {
             width: 100%;
             height: 100%;
             background: #000;
+            outline: none;
         }
 
         .loading-overlay {
@@ -794,76 +1570,360 @@ class BrowserService {
         .loading-overlay.hidden {
             display: none;
         }
-    </style>
-</head>
-<body>
-    <div class="browser-container">
-        <div class="browser-toolbar">
-            <button class="nav-button" id="back-btn" title="Back">←</button>
-            <button class="nav-button" id="forward-btn" title="Forward">→</button>
-            <button class="nav-button" id="refresh-btn" title="Refresh">↻</button>
-            <input type="text" class="address-bar" id="address-bar" placeholder="Enter URL..." value="https://example.com">
-            <button class="go-button" id="go-btn">Go</button>
-        </div>
 
-        <div class="browser-content">
-            <div class="loading-overlay" id="loading">
-                <div>🚀 Loading Real Browser...</div>
-                <div class="status-text" id="status">Initializing browser connection</div>
-            </div>
+        .nav-button.active {
+            background: #007bff;
+        }
 
-            <canvas class="browser-canvas" id="browser-canvas"></canvas>
-        </div>
-    </div>
+        .browser-content.pinging video,
+        .browser-content.pinging canvas {
+            cursor: crosshair;
+        }
 
-    <script>
-        const canvas = document.getElementById('browser-canvas');
-        const addressBar = document.getElementById('address-bar');
-        const loading = document.getElementById('loading');
-        const statusText = document.getElementById('status');
-        const backBtn = document.getElementById('back-btn');
+        .color-input {
+            width: 30px;
+            height: 30px;
+            padding: 0;
+            border: 1px solid #666;
+            border-radius: 4px;
+            background: #2d2d2d;
+            cursor: pointer;
+        }
+
+        /* Annotations; it only takes the mouse while a tool is picked */
+        .annotation-canvas {
+            position: absolute;
+            top: 0;
+            left: 0;
+            width: 100%;
+            height: 100%;
+            pointer-events: none;
+            z-index: 5;
+        }
+
+        .annotation-canvas.drawing {
+            pointer-events: auto;
+            cursor: crosshair;
+        }
+
+        /* Other members' pointers and pings, over the page */
+        .cursor-layer {
+            position: absolute;
+            top: 0;
+            left: 0;
+            right: 0;
+            bottom: 0;
+            pointer-events: none;
+            overflow: hidden;
+            z-index: 10;
+        }
+
+        .remote-cursor {
+            position: absolute;
+            top: 0;
+            left: 0;
+            transition: transform 0.05s linear, opacity 0.3s;
+        }
+
+        .remote-cursor.hidden {
+            display: none;
+        }
+
+        .remote-cursor.idle {
+            opacity: 0.4;
+        }
+
+        .remote-cursor svg {
+            display: block;
+        }
+
+        .cursor-label {
+            position: absolute;
+            top: 16px;
+            left: 10px;
+            padding: 1px 6px;
+            border-radius: 4px;
+            color: #fff;
+            font-size: 11px;
+            white-space: nowrap;
+        }
+
+        .pointer-ping {
+            position: absolute;
+            width: 0;
+            height: 0;
+        }
+
+        .pointer-ping::before,
+        .pointer-ping::after {
+            content: '';
+            position: absolute;
+            left: -20px;
+            top: -20px;
+            width: 40px;
+            height: 40px;
+            border: 3px solid;
+            border-color: inherit;
+            border-radius: 50%;
+            box-sizing: border-box;
+            animation: ping 1s ease-out 2;
+        }
+
+        .pointer-ping::after {
+            animation-delay: 0.3s;
+        }
+
+        .pointer-ping .cursor-label {
+            top: 22px;
+            left: 0;
+            transform: translateX(-50%);
+        }
+
+        @keyframes ping {
+            from { transform: scale(0.3); opacity: 1; }
+            to { transform: scale(1.6); opacity: 0; }
+        }
+    </style>
+</head>
+<body>
+    <div class="browser-container">
+        <div class="browser-toolbar">
+            <button class="nav-button" id="back-btn" title="Back" disabled>←</button>
+            <button class="nav-button" id="forward-btn" title="Forward" disabled>→</button>
+            <button class="nav-button" id="refresh-btn" title="Refresh">↻</button>
+            <input type="text" class="address-bar" id="address-bar" placeholder="Enter URL...">
+            <button class="go-button" id="go-btn">Go</button>
+            <select class="quality-select" id="quality-select" title="Stream quality">
+                <option value="saver">Data saver</option>
+                <option value="balanced" selected>Balanced</option>
+                <option value="smooth">Smooth</option>
+            </select>
+            <button class="nav-button" id="sound-btn" title="Turn sound on">🔇</button>
+            <button class="nav-button" id="ping-btn" title="Ping a spot for everyone (or Alt+click)">📍</button>
+            <select class="quality-select" id="annotate-tool" title="Annotation tool">
+                <option value="" selected>✏️ Off</option>
+                <option value="freehand">Freehand</option>
+                <option value="arrow">Arrow</option>
+                <option value="rect">Rectangle</option>
+                <option value="text">Note</option>
+            </select>
+            <input type="color" class="color-input" id="annotate-color" value="#ff3b30" title="Annotation color">
+            <button class="nav-button" id="undo-btn" title="Undo my last annotation">↶</button>
+            <button class="nav-button" id="export-btn" title="Download the page with its annotations">⬇</button>
+        </div>
+
+        <div class="browser-content">
+            <div class="loading-overlay" id="loading">
+                <div>🚀 Loading Real Browser...</div>
+                <div class="status-text" id="status">Initializing browser connection</div>
+            </div>
+
+            <video class="browser-video hidden" id="browser-video" tabindex="0" autoplay muted playsinline></video>
+            <canvas class="browser-canvas" id="browser-canvas" tabindex="0"></canvas>
+            <canvas class="annotation-canvas" id="annotation-canvas"></canvas>
+            <div class="cursor-layer" id="cursor-layer"></div>
+        </div>
+    </div>
+
+    <script>
+        const canvas = document.getElementById('browser-canvas');
+        const video = document.getElementById('browser-video');
+        const addressBar = document.getElementById('address-bar');
+        const loading = document.getElementById('loading');
+        const statusText = document.getElementById('status');
+        const backBtn = document.getElementById('back-btn');
         const forwardBtn = document.getElementById('forward-btn');
         const refreshBtn = document.getElementById('refresh-btn');
         const goBtn = document.getElementById('go-btn');
+        const qualitySelect = document.getElementById('quality-select');
+        const soundBtn = document.getElementById('sound-btn');
+        const pingBtn = document.getElementById('ping-btn');
+        const browserContent = document.querySelector('.browser-content');
+        const cursorLayer = document.getElementById('cursor-layer');
+        const annotationCanvas = document.getElementById('annotation-canvas');
+        const annotateTool = document.getElementById('annotate-tool');
+        const annotateColor = document.getElementById('annotate-color');
+        const undoBtn = document.getElementById('undo-btn');
+        const exportBtn = document.getElementById('export-btn');
+
+        const streamPresets = {
+            saver: { fps: 5, quality: 40 },
+            balanced: { fps: 15, quality: 70 },
+            smooth: { fps: 30, quality: 80 }
+        };
 
         const ctx = canvas.getContext('2d');
-        let currentUrl = 'https://example.com';
         let socket = null;
         let lastFrameTime = 0;
+        let lastMoveTime = 0;
+        let frameRect = null;
+        let lastFrameTimestamp = 0;
+        const params = new URLSearchParams(window.location.search);
+        const roomId = params.get('roomId');
+        // Signed by the signaling server for this member; it decides what we may do
+        const viewToken = params.get('token') || '';
+        const signalingUrl = 'http://localhost:3001';
 
         // Initialize canvas size
         function resizeCanvas() {
             canvas.width = canvas.offsetWidth;
             canvas.height = canvas.offsetHeight;
+            annotationCanvas.width = annotationCanvas.offsetWidth;
+            annotationCanvas.height = annotationCanvas.offsetHeight;
         }
 
-        window.addEventListener('resize', resizeCanvas);
+        window.addEventListener('resize', () => {
+            resizeCanvas();
+            placeOverlays();
+        });
         resizeCanvas();
 
         // WebRTC variables
         let peerConnection = null;
         let dataChannel = null;
 
+        // Where content of the given size lands when letterboxed into a container
+        function fitRect(containerWidth, containerHeight, contentWidth, contentHeight) {
+            const containerRatio = containerWidth / containerHeight;
+            const contentRatio = contentWidth / contentHeight;
+
+            if (contentRatio > containerRatio) {
+                // Content is wider than container
+                const height = containerWidth / contentRatio;
+                return { x: 0, y: (containerHeight - height) / 2, width: containerWidth, height: height };
+            }
+
+            // Content is taller than container
+            const width = containerHeight * contentRatio;
+            return { x: (containerWidth - width) / 2, y: 0, width: width, height: containerHeight };
+        }
+
+        // Draw a frame letterboxed into the canvas
+        function drawFrame(img) {
+            // Clear canvas
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+            // Draw the image
+            const rect = fitRect(canvas.width, canvas.height, img.width, img.height);
+            ctx.drawImage(img, rect.x, rect.y, rect.width, rect.height);
+            const moved = !frameRect || frameRect.x !== rect.x || frameRect.y !== rect.y || frameRect.width !== rect.width;
+            frameRect = rect;
+            if (moved) placeOverlays();
+
+            // Hide loading if it's still visible
+            if (!loading.classList.contains('hidden')) {
+                loading.classList.add('hidden');
+                statusText.textContent = 'Browser ready - receiving video stream';
+            }
+
+            lastFrameTime = Date.now();
+        }
+
+        // Sound over Socket.IO: PCM packets are scheduled on an AudioContext and
+        // frames are held back to the same clock, so picture and sound line up.
+        // Browsers only allow sound after a click, so it starts muted.
+        const AUDIO_JITTER_BUFFER = 0.15; // Seconds of sound buffered before playback
+        let soundOn = false;
+        let audioContext = null;
+        let audioClockOffset = null; // AudioContext time minus service time, in seconds
+        let lastAudioTime = 0;
+
+        function setSound(on) {
+            soundOn = on;
+            // WebRTC audio plays through the video element
+            video.muted = !on;
+
+            if (on) {
+                if (!audioContext) {
+                    audioContext = new AudioContext();
+                }
+                audioContext.resume();
+            }
+
+            audioClockOffset = null;
+            soundBtn.textContent = on ? '🔊' : '🔇';
+            soundBtn.title = on ? 'Mute' : 'Turn sound on';
+        }
+
+        function playAudioPacket(data) {
+            if (!soundOn || !audioContext) return;
+
+            // Interleaved 16-bit PCM into one float channel buffer per channel
+            const samples = new Int16Array(data.audio);
+            const frameCount = Math.floor(samples.length / data.channels);
+            const buffer = audioContext.createBuffer(data.channels, frameCount, data.sampleRate);
+            for (let channel = 0; channel < data.channels; channel++) {
+                const output = buffer.getChannelData(channel);
+                for (let i = 0; i < frameCount; i++) {
+                    output[i] = samples[i * data.channels + channel] / 32768;
+                }
+            }
+
+            // Anchor the service clock to ours on the first packet, and again
+            // whenever playback falls behind or drifts too far ahead
+            const serviceTime = data.timestamp / 1000;
+            let startAt = audioClockOffset === null ? -1 : serviceTime + audioClockOffset;
+            if (startAt < audioContext.currentTime || startAt > audioContext.currentTime + 1) {
+                audioClockOffset = audioContext.currentTime + AUDIO_JITTER_BUFFER - serviceTime;
+                startAt = serviceTime + audioClockOffset;
+            }
+
+            const source = audioContext.createBufferSource();
+            source.buffer = buffer;
+            source.connect(audioContext.destination);
+            source.start(startAt);
+            lastAudioTime = Date.now();
+        }
+
+        // How long to hold a frame so it appears with the sound captured alongside it
+        function getFrameDelay(timestamp) {
+            if (!soundOn || !audioContext || audioClockOffset === null || Date.now() - lastAudioTime > 1000) {
+                return 0;
+            }
+
+            const delay = timestamp / 1000 + audioClockOffset - audioContext.currentTime;
+            return Math.min(Math.max(delay, 0), 1);
+        }
+
+        // Ask for the screencast at the selected frame rate and quality
+        function sendStreamSettings() {
+            if (socket && socket.connected) {
+                socket.emit('stream-settings', streamPresets[qualitySelect.value] || streamPresets.balanced);
+            }
+        }
+
         // Initialize Socket.IO connection to signaling server
         function initializeSocket() {
+            if (!roomId) {
+                statusText.textContent = 'No room selected - create or join a room to start browsing';
+                return;
+            }
+
             statusText.textContent = 'Connecting to signaling server...';
 
-            socket = io('http://localhost:3001/browser-webrtc');
+            socket = io(signalingUrl + '/browser-webrtc', {
+                auth: { token: viewToken }
+            });
 
             socket.on('connect', () => {
                 console.log('Connected to signaling server');
                 statusText.textContent = 'Connected - establishing WebRTC...';
+                sendStreamSettings();
                 initializeWebRTC();
             });
 
             socket.on('disconnect', () => {
                 console.log('Disconnected from signaling server');
                 statusText.textContent = 'Disconnected - attempting to reconnect...';
+                Object.keys(cursors).forEach(removeCursor);
+                Object.keys(drafts).forEach((userId) => delete drafts[userId]);
+                renderAnnotations();
                 loading.classList.remove('hidden');
                 if (peerConnection) {
                     peerConnection.close();
                     peerConnection = null;
                 }
+                showVideo(false);
             });
 
             socket.on('webrtc-answer', (data) => {
@@ -880,49 +1940,106 @@ class BrowserService {
                 }
             });
 
-            socket.on('browser-frame', (data) => {
-                // Display the received frame
-                const img = new Image();
-                img.onload = () => {
-                    // Clear canvas
-                    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-                    // Calculate aspect ratio to fit the canvas
-                    const canvasRatio = canvas.width / canvas.height;
-                    const imgRatio = img.width / img.height;
-
-                    let drawWidth, drawHeight, drawX, drawY;
-
-                    if (imgRatio > canvasRatio) {
-                        // Image is wider than canvas
-                        drawWidth = canvas.width;
-                        drawHeight = canvas.width / imgRatio;
-                        drawX = 0;
-                        drawY = (canvas.height - drawHeight) / 2;
-                    } else {
-                        // Image is taller than canvas
-                        drawHeight = canvas.height;
-                        drawWidth = canvas.height * imgRatio;
-                        drawX = (canvas.width - drawWidth) / 2;
-                        drawY = 0;
-                    }
+            socket.on('browser-frame', (data, ack) => {
+                // Frames arrive as binary JPEG; ack once decoded so the service
+                // only sends the next frame when this viewer can keep up
+                const blob = new Blob([data.frame], { type: 'image/jpeg' });
+                createImageBitmap(blob).then((bitmap) => {
+                    setTimeout(() => {
+                        // A held-back frame may have been overtaken by a newer one
+                        if (data.timestamp >= lastFrameTimestamp) {
+                            lastFrameTimestamp = data.timestamp;
+                            drawFrame(bitmap);
+                        }
+                        bitmap.close();
+                    }, getFrameDelay(data.timestamp) * 1000);
+                }).catch((error) => {
+                    console.error('Failed to decode frame:', error);
+                }).finally(() => {
+                    if (typeof ack === 'function') ack();
+                });
+            });
 
-                    // Draw the image
-                    ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
+            socket.on('browser-audio', playAudioPacket);
 
-                    // Hide loading if it's still visible
-                    if (!loading.classList.contains('hidden')) {
-                        loading.classList.add('hidden');
-                        statusText.textContent = 'Browser ready - receiving video stream';
-                    }
+            // The room moved to another browser worker; stream from that one
+            socket.on('browser-reset', () => {
+                console.log('Room moved to another browser worker - restarting the stream');
+                statusText.textContent = 'Reconnecting to the browser...';
+                loading.classList.remove('hidden');
+                if (peerConnection) {
+                    peerConnection.close();
+                    peerConnection = null;
+                }
+                showVideo(false);
+                lastFrameTimestamp = 0;
+                sendStreamSettings();
+                initializeWebRTC();
+            });
 
-                    lastFrameTime = Date.now();
-                };
-                img.src = 'data:image/png;base64,' + data.imageData;
+            socket.on('browser-state', (data) => {
+                applyBrowserState(data.state);
+            });
+
+            socket.on('browser-waiting', () => {
+                statusText.textContent = 'All browser workers are busy - the page opens when one frees up';
+                loading.classList.remove('hidden');
+            });
+
+            socket.on('webrtc-error', (data) => {
+                // Keep using the Socket.IO frames
+                console.warn('WebRTC unavailable, using frame fallback:', data.message);
+                showVideo(false);
+            });
+
+            socket.on('control-error', (data) => {
+                console.warn('Input not sent:', data.message);
+            });
+
+            socket.on('pointer-moved', showCursor);
+            socket.on('pointer-left', (data) => removeCursor(data.userId));
+            socket.on('pointer-pinged', showPing);
+
+            socket.on('annotations', (data) => {
+                annotations = data.annotations;
+                renderAnnotations();
+            });
+
+            socket.on('annotation-added', (annotation) => {
+                annotations.push(annotation);
+                delete drafts[annotation.userId];
+                renderAnnotations();
+            });
+
+            socket.on('annotation-removed', (data) => {
+                annotations = annotations.filter((annotation) => annotation.id !== data.annotationId);
+                renderAnnotations();
+            });
+
+            socket.on('annotations-cleared', () => {
+                annotations = [];
+                renderAnnotations();
+            });
+
+            socket.on('annotation-draft', (data) => {
+                drafts[data.userId] = data.annotation;
+                renderAnnotations();
+            });
+
+            socket.on('annotation-draft-ended', (data) => {
+                delete drafts[data.userId];
+                renderAnnotations();
             });
 
             socket.on('connect_error', (error) => {
                 console.error('Connection error:', error);
+
+                // The server turned us away; trying again won't help
+                if (!socket.active) {
+                    statusText.textContent = 'Not allowed to view this room: ' + error.message;
+                    return;
+                }
+
                 statusText.textContent = 'Connection failed - will retry...';
                 setTimeout(initializeSocket, 2000);
             });
@@ -951,12 +2068,32 @@ class BrowserService {
                     }
                 };
 
+                // Receive the page as a video track, with its sound when captured
+                peerConnection.addTransceiver('video', { direction: 'recvonly' });
+                peerConnection.addTransceiver('audio', { direction: 'recvonly' });
+
+                peerConnection.ontrack = (event) => {
+                    console.log('Received browser ' + event.track.kind + ' track');
+                    // Both tracks share one stream, which keeps them in sync
+                    const stream = event.streams[0] || new MediaStream([event.track]);
+                    if (video.srcObject !== stream) {
+                        video.srcObject = stream;
+                    }
+                };
+
+                peerConnection.onconnectionstatechange = () => {
+                    const state = peerConnection ? peerConnection.connectionState : 'closed';
+                    if (state === 'failed' || state === 'disconnected' || state === 'closed') {
+                        // Frames fall back to Socket.IO on the service side too
+                        showVideo(false);
+                    }
+                };
+
                 // Create data channel for control messages
                 dataChannel = peerConnection.createDataChannel('control');
                 dataChannel.onopen = () => {
                     console.log('Data channel opened');
-                    statusText.textContent = 'WebRTC connected - initializing browser...';
-                    initializeBrowser();
+                    statusText.textContent = 'WebRTC connected - waiting for video...';
                 };
 
                 // Create offer and send to signaling server
@@ -979,16 +2116,9 @@ class BrowserService {
         }
 
         // Initialize browser
-        async function initializeBrowser() {
-            statusText.textContent = 'Starting browser session...';
-            await navigateToUrl(currentUrl);
-        }
-
         // Navigate to URL
         async function navigateToUrl(url) {
-            loading.classList.remove('hidden');
             addressBar.value = url;
-            currentUrl = url;
 
             if (dataChannel && dataChannel.readyState === 'open') {
                 console.log('Sending navigation command:', url);
@@ -1009,6 +2139,532 @@ class BrowserService {
             }
         }
 
+        // Reflect the room's page in the toolbar
+        function applyBrowserState(state) {
+            // Don't overwrite a URL someone is typing
+            if (document.activeElement !== addressBar) {
+                addressBar.value = state.url;
+            }
+            document.title = state.title || state.url;
+            backBtn.disabled = !state.canGoBack;
+            forwardBtn.disabled = !state.canGoForward;
+            refreshBtn.classList.toggle('busy', state.isLoading);
+
+            // Annotations follow the page's URL and scroll position
+            pageState = state;
+            renderAnnotations();
+        }
+
+        // Switch between the WebRTC video and the canvas fed by Socket.IO frames
+        function showVideo(active) {
+            video.classList.toggle('hidden', !active);
+            canvas.classList.toggle('hidden', active);
+            placeOverlays();
+
+            if (active && !loading.classList.contains('hidden')) {
+                loading.classList.add('hidden');
+                statusText.textContent = 'Browser ready - receiving WebRTC video';
+            }
+        }
+
+        video.addEventListener('playing', () => {
+            showVideo(true);
+        });
+
+        // The page's viewport size changed
+        video.addEventListener('resize', placeOverlays);
+
+        // Send input to the room's page, preferring the data channel
+        function sendControl(type, data) {
+            const message = { type: type, data: data, timestamp: Date.now() };
+
+            if (dataChannel && dataChannel.readyState === 'open') {
+                dataChannel.send(JSON.stringify(message));
+            } else if (socket && socket.connected) {
+                socket.emit('control', message);
+            }
+        }
+
+        // The visible frame's rectangle inside whichever surface is showing
+        function getFrameRect() {
+            if (!video.classList.contains('hidden') && video.videoWidth && video.videoHeight) {
+                return fitRect(video.clientWidth, video.clientHeight, video.videoWidth, video.videoHeight);
+            }
+            return frameRect;
+        }
+
+        // Position relative to the drawn frame, plus the frame size so the
+        // service can map it onto the page viewport
+        function toFramePoint(e) {
+            const rect = getFrameRect();
+            if (!rect) return null;
+
+            const x = e.offsetX - rect.x;
+            const y = e.offsetY - rect.y;
+            if (x < 0 || y < 0 || x > rect.width || y > rect.height) return null;
+
+            return { x: x, y: y, canvasWidth: rect.width, canvasHeight: rect.height };
+        }
+
+        // Shared pointers. Positions travel as fractions of the page viewport,
+        // so they land on the same spot whatever size each member's view is.
+        const POINTER_INTERVAL = 50; // At most 20 pointer updates a second
+        const CURSOR_IDLE = 10000; // Fade pointers that haven't moved in this long
+        const CURSOR_ICON = '<svg width="16" height="16" viewBox="0 0 16 16">' +
+            '<path d="M1 1 L1 13 L4.5 9.5 L7 15 L9 14 L6.5 8.5 L11.5 8.5 Z" fill="currentColor" stroke="#fff" stroke-width="1"/></svg>';
+        const cursors = {};
+        let pendingPointer = null;
+        let pointerTimer = null;
+        let lastPointerTime = 0;
+        let pointerShown = false;
+        let pingMode = false;
+        let pinging = false;
+
+        // A member's color; the room's member list uses the same one
+        function colorFor(userId) {
+            let hash = 0;
+            for (let i = 0; i < userId.length; i++) {
+                hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+            }
+            return 'hsl(' + (Math.abs(hash) % 360) + ', 70%, 45%)';
+        }
+
+        function toPagePoint(e) {
+            const point = toFramePoint(e);
+            return point && { x: point.x / point.canvasWidth, y: point.y / point.canvasHeight };
+        }
+
+        // Where a page point is drawn in the cursor layer
+        function toLayerPosition(point) {
+            const rect = getFrameRect();
+            if (!rect) return null;
+            return { left: rect.x + point.x * rect.width, top: rect.y + point.y * rect.height };
+        }
+
+        function makeLabel(userId, userName) {
+            const label = document.createElement('span');
+            label.className = 'cursor-label';
+            label.style.background = colorFor(userId);
+            label.textContent = userName;
+            return label;
+        }
+
+        function placeCursor(cursor) {
+            const position = toLayerPosition(cursor.point);
+            cursor.el.classList.toggle('hidden', !position);
+            if (position) {
+                cursor.el.style.transform = 'translate(' + position.left + 'px, ' + position.top + 'px)';
+            }
+        }
+
+        function placeCursors() {
+            Object.keys(cursors).forEach((userId) => placeCursor(cursors[userId]));
+        }
+
+        function showCursor(data) {
+            let cursor = cursors[data.userId];
+            if (!cursor) {
+                const el = document.createElement('div');
+                el.className = 'remote-cursor';
+                el.style.color = colorFor(data.userId);
+                el.innerHTML = CURSOR_ICON;
+                const label = makeLabel(data.userId, data.userName);
+                el.appendChild(label);
+                cursorLayer.appendChild(el);
+                cursor = cursors[data.userId] = { el: el, label: label, point: null, timer: null };
+            }
+
+            cursor.label.textContent = data.userName;
+            cursor.point = { x: data.x, y: data.y };
+            cursor.el.classList.remove('idle');
+            placeCursor(cursor);
+
+            clearTimeout(cursor.timer);
+            cursor.timer = setTimeout(() => cursor.el.classList.add('idle'), CURSOR_IDLE);
+        }
+
+        function removeCursor(userId) {
+            const cursor = cursors[userId];
+            if (!cursor) return;
+            clearTimeout(cursor.timer);
+            cursor.el.remove();
+            delete cursors[userId];
+        }
+
+        function showPing(data) {
+            const position = toLayerPosition(data);
+            if (!position) return;
+
+            const ping = document.createElement('div');
+            ping.className = 'pointer-ping';
+            ping.style.left = position.left + 'px';
+            ping.style.top = position.top + 'px';
+            ping.style.borderColor = colorFor(data.userId);
+            ping.appendChild(makeLabel(data.userId, data.userName));
+            cursorLayer.appendChild(ping);
+            setTimeout(() => ping.remove(), 2000);
+        }
+
+        // Send our pointer, keeping the latest position if we're sending too fast
+        function sendPointer(point) {
+            pendingPointer = point;
+            if (pointerTimer) return;
+
+            pointerTimer = setTimeout(() => {
+                pointerTimer = null;
+                lastPointerTime = Date.now();
+                if (pendingPointer && socket && socket.connected) {
+                    socket.emit('pointer-move', pendingPointer);
+                    pointerShown = true;
+                }
+            }, Math.max(0, POINTER_INTERVAL - (Date.now() - lastPointerTime)));
+        }
+
+        function hidePointer() {
+            pendingPointer = null;
+            if (pointerShown && socket && socket.connected) {
+                socket.emit('pointer-leave');
+            }
+            pointerShown = false;
+        }
+
+        function setPingMode(on) {
+            pingMode = on;
+            pingBtn.classList.toggle('active', on);
+            browserContent.classList.toggle('pinging', on);
+        }
+
+        // Redraw everything drawn over the page after the frame moved or resized
+        function placeOverlays() {
+            placeCursors();
+            renderAnnotations();
+        }
+
+        // Annotations. Points are document pixels of the room's page: where in
+        // its viewport they were drawn plus how far it was scrolled, taken from
+        // the browser state. Each one only shows while the page is at its URL.
+        const DRAFT_INTERVAL = 100; // Send what we're drawing at most 10 times a second
+        const annotationCtx = annotationCanvas.getContext('2d');
+        let pageState = null;
+        let annotations = [];
+        const drafts = {}; // Others' annotations being drawn, by user id
+        let drawing = null; // Ours
+        let draftTimer = null;
+        let lastDraftTime = 0;
+
+        function getPageView() {
+            return {
+                viewport: (pageState && pageState.viewportSize) || { width: 1280, height: 720 },
+                scroll: (pageState && pageState.scrollPosition) || { x: 0, y: 0 }
+            };
+        }
+
+        function toDocumentPoint(e) {
+            const point = toPagePoint(e);
+            if (!point) return null;
+
+            const view = getPageView();
+            return {
+                x: Math.round(view.scroll.x + point.x * view.viewport.width),
+                y: Math.round(view.scroll.y + point.y * view.viewport.height)
+            };
+        }
+
+        // Draw the current page's annotations into a rectangle showing its viewport
+        function drawAnnotations(context, rect, list) {
+            if (!pageState) return;
+
+            const view = getPageView();
+            const scale = rect.width / view.viewport.width;
+            const toX = (x) => rect.x + (x - view.scroll.x) * scale;
+            const toY = (y) => rect.y + (y - view.scroll.y) * scale;
+
+            list.forEach((annotation) => {
+                if (annotation.url === pageState.url) {
+                    drawAnnotation(context, annotation, toX, toY, scale);
+                }
+            });
+        }
+
+        function drawAnnotation(context, annotation, toX, toY, scale) {
+            const points = annotation.points;
+            context.save();
+            context.strokeStyle = annotation.color;
+            context.fillStyle = annotation.color;
+            context.lineWidth = Math.max(1.5, 3 * scale);
+            context.lineCap = 'round';
+            context.lineJoin = 'round';
+
+            if (annotation.kind === 'freehand') {
+                context.beginPath();
+                context.moveTo(toX(points[0].x), toY(points[0].y));
+                for (let i = 1; i < points.length; i++) {
+                    context.lineTo(toX(points[i].x), toY(points[i].y));
+                }
+                context.stroke();
+            } else if (annotation.kind === 'rect') {
+                context.strokeRect(toX(points[0].x), toY(points[0].y), (points[1].x - points[0].x) * scale, (points[1].y - points[0].y) * scale);
+            } else if (annotation.kind === 'arrow') {
+                const x0 = toX(points[0].x);
+                const y0 = toY(points[0].y);
+                const x1 = toX(points[1].x);
+                const y1 = toY(points[1].y);
+                const angle = Math.atan2(y1 - y0, x1 - x0);
+                const head = Math.max(8, 16 * scale);
+
+                context.beginPath();
+                context.moveTo(x0, y0);
+                context.lineTo(x1, y1);
+                context.stroke();
+
+                context.beginPath();
+                context.moveTo(x1, y1);
+                context.lineTo(x1 - head * Math.cos(angle - Math.PI / 6), y1 - head * Math.sin(angle - Math.PI / 6));
+                context.lineTo(x1 - head * Math.cos(angle + Math.PI / 6), y1 - head * Math.sin(angle + Math.PI / 6));
+                context.closePath();
+                context.fill();
+            } else if (annotation.kind === 'text') {
+                // A note pinned at its point, signed by whoever left it
+                const fontSize = Math.max(10, 14 * scale);
+                const padding = fontSize / 2;
+                const lines = String(annotation.text || '').split('\\n');
+                if (annotation.userName) lines.push('- ' + annotation.userName);
+                context.font = fontSize + 'px sans-serif';
+                const width = Math.max.apply(null, lines.map((line) => context.measureText(line).width)) + padding * 2;
+                const height = lines.length * fontSize * 1.3 + padding * 2;
+                const x = toX(points[0].x);
+                const y = toY(points[0].y);
+
+                context.globalAlpha = 0.9;
+                context.fillRect(x, y, width, height);
+                context.globalAlpha = 1;
+                context.fillStyle = '#fff';
+                context.textBaseline = 'top';
+                lines.forEach((line, i) => {
+                    context.fillText(line, x + padding, y + padding + i * fontSize * 1.3);
+                });
+            }
+
+            context.restore();
+        }
+
+        function renderAnnotations() {
+            annotationCtx.clearRect(0, 0, annotationCanvas.width, annotationCanvas.height);
+
+            const rect = getFrameRect();
+            if (!rect) return;
+
+            const list = annotations.concat(Object.keys(drafts).map((userId) => drafts[userId]));
+            if (drawing) list.push(drawing);
+            drawAnnotations(annotationCtx, rect, list);
+        }
+
+        // What the server needs to know about an annotation we're drawing
+        function toAnnotationInput(annotation) {
+            return { kind: annotation.kind, color: annotation.color, points: annotation.points, text: annotation.text };
+        }
+
+        // Show others what we're drawing, keeping the latest if we're sending too fast
+        function sendDraft() {
+            if (draftTimer) return;
+
+            draftTimer = setTimeout(() => {
+                draftTimer = null;
+                lastDraftTime = Date.now();
+                if (drawing && socket && socket.connected) {
+                    socket.emit('annotation-draft', toAnnotationInput(drawing));
+                }
+            }, Math.max(0, DRAFT_INTERVAL - (Date.now() - lastDraftTime)));
+        }
+
+        function finishDrawing() {
+            if (!drawing) return;
+
+            const points = drawing.points;
+            const last = points[points.length - 1];
+            // Skip clicks that didn't draw anything
+            const drawn = drawing.kind === 'freehand'
+                ? points.length >= 2
+                : Math.abs(last.x - points[0].x) + Math.abs(last.y - points[0].y) >= 4;
+
+            if (socket && socket.connected) {
+                if (drawn) socket.emit('annotation-add', toAnnotationInput(drawing));
+                socket.emit('annotation-draft-end');
+            }
+
+            drawing = null;
+            renderAnnotations();
+        }
+
+        function setAnnotateTool(tool) {
+            finishDrawing();
+            annotateTool.value = tool;
+            annotationCanvas.classList.toggle('drawing', tool !== '');
+        }
+
+        annotationCanvas.addEventListener('mousedown', (e) => {
+            const point = toDocumentPoint(e);
+            if (!point || !pageState) return;
+
+            const tool = annotateTool.value;
+            if (tool === 'text') {
+                const text = window.prompt('Note');
+                if (text && text.trim() && socket && socket.connected) {
+                    socket.emit('annotation-add', { kind: 'text', color: annotateColor.value, points: [point], text: text });
+                }
+                return;
+            }
+
+            drawing = {
+                kind: tool,
+                color: annotateColor.value,
+                points: tool === 'freehand' ? [point] : [point, point],
+                url: pageState.url
+            };
+            renderAnnotations();
+        });
+
+        annotationCanvas.addEventListener('mousemove', (e) => {
+            const pagePoint = toPagePoint(e);
+            if (pagePoint) {
+                sendPointer(pagePoint);
+            } else {
+                hidePointer();
+            }
+
+            const point = drawing && toDocumentPoint(e);
+            if (!point) return;
+
+            if (drawing.kind === 'freehand') {
+                const last = drawing.points[drawing.points.length - 1];
+                if (Math.abs(point.x - last.x) + Math.abs(point.y - last.y) < 3 || drawing.points.length >= 2000) return;
+                drawing.points.push(point);
+            } else {
+                drawing.points[1] = point;
+            }
+
+            renderAnnotations();
+            sendDraft();
+        });
+
+        annotationCanvas.addEventListener('mouseup', finishDrawing);
+
+        annotationCanvas.addEventListener('mouseleave', () => {
+            finishDrawing();
+            hidePointer();
+        });
+
+        // The page with its annotations as a PNG, from a fresh screenshot of
+        // the room's page taken through the signaling server
+        async function exportAnnotated() {
+            try {
+                const response = await fetch(signalingUrl + '/rooms/' + encodeURIComponent(roomId) + '/screenshot', {
+                    headers: { Authorization: 'Bearer ' + viewToken }
+                });
+                if (!response.ok) {
+                    throw new Error('HTTP ' + response.status);
+                }
+
+                const image = await createImageBitmap(await response.blob());
+                const output = document.createElement('canvas');
+                output.width = image.width;
+                output.height = image.height;
+                const context = output.getContext('2d');
+                context.drawImage(image, 0, 0);
+                drawAnnotations(context, { x: 0, y: 0, width: image.width, height: image.height }, annotations);
+                image.close();
+
+                const link = document.createElement('a');
+                link.download = 'annotated-' + (roomId || 'page') + '.png';
+                link.href = output.toDataURL('image/png');
+                link.click();
+            } catch (error) {
+                console.error('Export failed:', error);
+                alert('Could not export the page: ' + error.message);
+            }
+        }
+
+        const mouseButtons = ['left', 'middle', 'right'];
+
+        // Input is captured on whichever surface is showing the page
+        [canvas, video].forEach((surface) => {
+            surface.addEventListener('mousemove', (e) => {
+                const pagePoint = toPagePoint(e);
+                if (pagePoint) {
+                    sendPointer(pagePoint);
+                } else {
+                    hidePointer();
+                }
+
+                const now = Date.now();
+                if (now - lastMoveTime < 33) return; // ~30 moves per second
+                lastMoveTime = now;
+
+                const point = toFramePoint(e);
+                if (point) {
+                    sendControl('mouse', Object.assign(point, { action: 'move' }));
+                }
+            });
+
+            surface.addEventListener('mouseleave', hidePointer);
+
+            surface.addEventListener('mousedown', (e) => {
+                surface.focus();
+
+                // A ping only highlights the spot; the page doesn't get the click
+                if (pingMode || e.altKey) {
+                    pinging = true;
+                    const pagePoint = toPagePoint(e);
+                    if (pagePoint && socket && socket.connected) {
+                        socket.emit('pointer-ping', pagePoint);
+                    }
+                    setPingMode(false);
+                    return;
+                }
+
+                const point = toFramePoint(e);
+                if (point) {
+                    sendControl('mouse', Object.assign(point, { action: 'down', button: mouseButtons[e.button] || 'left' }));
+                }
+            });
+
+            surface.addEventListener('mouseup', (e) => {
+                if (pinging) {
+                    pinging = false;
+                    return;
+                }
+
+                const point = toFramePoint(e);
+                if (point) {
+                    sendControl('mouse', Object.assign(point, { action: 'up', button: mouseButtons[e.button] || 'left' }));
+                }
+            });
+
+            surface.addEventListener('contextmenu', (e) => {
+                e.preventDefault();
+            });
+
+            surface.addEventListener('wheel', (e) => {
+                e.preventDefault();
+                const point = toFramePoint(e) || {};
+                sendControl('scroll', Object.assign(point, { deltaX: e.deltaX, deltaY: e.deltaY }));
+            }, { passive: false });
+
+            surface.addEventListener('keydown', (e) => {
+                if (e.key === 'Dead' || e.key === 'Unidentified') return;
+                e.preventDefault();
+                e.stopPropagation();
+                sendControl('keyboard', { key: e.key, action: 'down' });
+            });
+
+            surface.addEventListener('keyup', (e) => {
+                if (e.key === 'Dead' || e.key === 'Unidentified') return;
+                e.preventDefault();
+                e.stopPropagation();
+                sendControl('keyboard', { key: e.key, action: 'up' });
+            });
+        });
+
         // Event listeners
         goBtn.addEventListener('click', () => {
             const url = addressBar.value.trim();
@@ -1024,8 +2680,30 @@ class BrowserService {
             }
         });
 
+        soundBtn.addEventListener('click', () => setSound(!soundOn));
+
+        pingBtn.addEventListener('click', () => setPingMode(!pingMode));
+
+        annotateTool.addEventListener('change', () => setAnnotateTool(annotateTool.value));
+
+        undoBtn.addEventListener('click', () => {
+            if (socket && socket.connected) socket.emit('annotation-undo');
+        });
+
+        exportBtn.addEventListener('click', exportAnnotated);
+
+        qualitySelect.addEventListener('change', sendStreamSettings);
+
+        backBtn.addEventListener('click', () => {
+            if (socket && socket.connected) socket.emit('back');
+        });
+
+        forwardBtn.addEventListener('click', () => {
+            if (socket && socket.connected) socket.emit('forward');
+        });
+
         refreshBtn.addEventListener('click', () => {
-            navigateToUrl(currentUrl);
+            if (socket && socket.connected) socket.emit('refresh');
         });
 
         // Initialize on page load
@@ -1063,65 +2741,38 @@ class BrowserService {
       res.send(html);
     });
 
-    // Take screenshot
-    this.app.get('/screenshot', async (req, res) => {
-      // Set a timeout for screenshot operation
-      const timeout = setTimeout(() => {
-        console.error('Screenshot timeout');
-        if (!res.headersSent) {
-          res.status(504).json({ error: 'Screenshot timeout' });
-        }
-      }, 10000); // 10 seconds timeout
+    // Take a screenshot: the viewport as a PNG by default; see
+    // parseScreenshotOptions for full-page, element, clip and format options
+    this.app.get('/screenshot', this.requireWorkerToken, async (req, res) => {
+      const roomId = this.getRoomId(req.query.roomId);
+      if (!roomId) {
+        return res.status(400).json({ error: 'roomId is required' });
+      }
 
-      try {
-        if (this.page && this.isInitialized && this.browserType !== 'mock') {
-          // Use real browser screenshot with timeout
-          const screenshot = await Promise.race([
-            this.page.screenshot({ type: 'png', fullPage: false }),
-            new Promise((_, reject) =>
-              setTimeout(() => reject(new Error('Screenshot timeout')), 8000)
-            )
-          ]);
+      const { options, error } = parseScreenshotOptions(req.query);
+      if (!options) {
+        return res.status(400).json({ error });
+      }
 
-          clearTimeout(timeout);
-          res.setHeader('Content-Type', 'image/png');
-          res.send(screenshot);
-        } else {
-          // Try to reinitialize browser first
-          console.log('Browser not ready for screenshot, attempting to reinitialize...');
-          try {
-            await this.initializeBrowser();
-            if (this.page && this.isInitialized && this.browserType !== 'mock') {
-              const screenshot = await Promise.race([
-                this.browserType === 'playwright'
-                  ? this.page.screenshot({ type: 'png', fullPage: false })
-                  : this.page.screenshot({ type: 'png', fullPage: false }),
-                new Promise((_, reject) =>
-                  setTimeout(() => reject(new Error('Screenshot timeout')), 5000)
-                )
-              ]);
-
-              clearTimeout(timeout);
-              res.setHeader('Content-Type', 'image/png');
-              res.send(screenshot);
-            } else {
-              throw new Error('Browser initialization failed');
-            }
-          } catch (initError) {
-            console.error('Browser initialization failed for screenshot:', initError);
-            // Fallback to SVG mock
-            clearTimeout(timeout);
-            const width = 1280;
-            const height = 720;
-
-            const svgContent = `
+      await this.sendCapture(res, roomId, {
+        label: 'screenshot',
+        // Whole pages can take a while to lay out and encode
+        timeout: options.fullPage ? 20000 : 10000,
+        contentType: IMAGE_CONTENT_TYPES[options.format],
+        notFound: `No element matches "${options.selector}"`,
+        capture: (page) => captureScreenshot(page, this.browserType, options),
+        fallback: (currentUrl) => {
+          const width = 1280;
+          const height = 720;
+
+          const svgContent = `
               <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
                 <rect width="100%" height="100%" fill="#f8f9fa"/>
                 <text x="50%" y="30%" font-family="Arial" font-size="36" fill="#6b7280" text-anchor="middle">
                   🔄 Initializing Browser...
                 </text>
                 <text x="50%" y="50%" font-family="Arial" font-size="24" fill="#9ca3af" text-anchor="middle">
-                  ${this.currentUrl}
+                  ${currentUrl}
                 </text>
                 <text x="50%" y="70%" font-family="Arial" font-size="18" fill="#d1d5db" text-anchor="middle">
                   Real browser content loading...
@@ -1129,61 +2780,665 @@ class BrowserService {
               </svg>
             `;
 
-            res.setHeader('Content-Type', 'image/svg+xml');
-            res.send(svgContent);
-          }
+          res.setHeader('Content-Type', 'image/svg+xml');
+          res.send(svgContent);
         }
-      } catch (error) {
-        console.error('Error creating screenshot:', error);
-        clearTimeout(timeout);
+      });
+    });
 
-        if (!res.headersSent) {
-          res.status(500).json({ error: 'Failed to create screenshot' });
+    // Print the room's page to PDF; see parsePdfOptions for the options
+    this.app.get('/pdf', this.requireWorkerToken, async (req, res) => {
+      const roomId = this.getRoomId(req.query.roomId);
+      if (!roomId) {
+        return res.status(400).json({ error: 'roomId is required' });
+      }
+
+      const { options, error } = parsePdfOptions(req.query);
+      if (!options) {
+        return res.status(400).json({ error });
+      }
+
+      await this.sendCapture(res, roomId, {
+        label: 'PDF',
+        timeout: 20000,
+        contentType: 'application/pdf',
+        notFound: 'Nothing to print',
+        capture: (page) => printToPdf(page, options),
+        // There is no page to print without a browser
+        fallback: () => {
+          res.status(503).json({ error: `PDF export needs a browser (${this.browserType} mode)` });
         }
+      });
+    });
+
+    // Recorded sessions, newest first; ?roomId= for one room's. Recordings
+    // only go to the signaling servers, which check the viewer is a member.
+    this.app.get('/recordings', this.requireWorkerToken, async (req, res) => {
+      try {
+        res.json(await this.recorder.list(this.getRoomId(req.query.roomId) ?? undefined));
+      } catch (error) {
+        console.error('Error listing recordings:', error);
+        res.status(500).json({ error: 'Failed to list recordings' });
       }
     });
 
-    // Execute JavaScript - mock response
-    this.app.post('/execute', async (req, res) => {
+    // A recording and its timeline; with ?roomId=, only if it is that room's
+    this.app.get('/recordings/:id', this.requireWorkerToken, async (req, res) => {
       try {
-        const { script } = req.body;
+        const recording = await this.recorder.load(req.params.id);
+        const roomId = this.getRoomId(req.query.roomId);
+        if (!recording || (roomId && recording.recording.roomId !== roomId)) {
+          return res.status(404).json({ error: 'Recording not found' });
+        }
+        res.json(recording);
+      } catch (error) {
+        console.error(`Error loading recording ${req.params.id}:`, error);
+        res.status(500).json({ error: 'Failed to load recording' });
+      }
+    });
+
+    // One recorded frame; frames never change once written. With ?roomId=,
+    // only if the recording is that room's.
+    this.app.get('/recordings/:id/frames/:seq', this.requireWorkerToken, async (req, res) => {
+      const path = this.recorder.getFramePath(req.params.id, Number(req.params.seq));
+      if (!path) {
+        return res.status(404).json({ error: 'Frame not found' });
+      }
+
+      const roomId = this.getRoomId(req.query.roomId);
+      if (roomId && (await this.recorder.getInfo(req.params.id))?.roomId !== roomId) {
+        return res.status(404).json({ error: 'Frame not found' });
+      }
+
+      res.sendFile(path, { headers: { 'Content-Type': 'image/jpeg', 'Cache-Control': 'private, max-age=31536000, immutable' } }, (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ error: 'Frame not found' });
+        }
+      });
+    });
+
+    // Player for a recording: scrub through its frames with the room's
+    // address bar, control and chat as they were at that moment. The page
+    // holds nothing itself; it loads the recording from the signaling server
+    // with the member's view token, given as ?roomId=&token=.
+    this.app.get('/replay/:id', (req, res) => {
+      const html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <title>Session Replay</title>
+    <style>
+        body {
+            margin: 0;
+            padding: 0;
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            background: #1a1a1a;
+            color: #eee;
+            height: 100vh;
+            display: flex;
+            flex-direction: column;
+        }
+
+        .replay-header {
+            height: 50px;
+            background: #3d3d3d;
+            border-bottom: 1px solid #555;
+            display: flex;
+            align-items: center;
+            padding: 0 20px;
+            gap: 12px;
+        }
+
+        .replay-title {
+            font-weight: 600;
+        }
+
+        .replay-meta {
+            color: #aaa;
+            font-size: 13px;
+        }
+
+        .replay-main {
+            flex: 1;
+            display: flex;
+            min-height: 0;
+        }
+
+        .viewer {
+            flex: 1;
+            display: flex;
+            flex-direction: column;
+            min-width: 0;
+        }
+
+        .address {
+            display: flex;
+            align-items: center;
+            gap: 10px;
+            padding: 8px 20px;
+            background: #2d2d2d;
+            border-bottom: 1px solid #444;
+            font-size: 13px;
+        }
+
+        .address-url {
+            flex: 1;
+            padding: 6px 12px;
+            background: #1a1a1a;
+            border: 1px solid #555;
+            border-radius: 20px;
+            color: #ddd;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .address-holder {
+            color: #9ecbff;
+            white-space: nowrap;
+        }
+
+        .stage-area {
+            flex: 1;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            min-height: 0;
+            padding: 16px;
+        }
+
+        .stage {
+            position: relative;
+            display: inline-block;
+            line-height: 0;
+        }
+
+        .stage img {
+            max-width: calc(100vw - 360px);
+            max-height: calc(100vh - 200px);
+            background: white;
+        }
+
+        .pointer {
+            position: absolute;
+            width: 14px;
+            height: 14px;
+            margin: -7px 0 0 -7px;
+            border-radius: 50%;
+            border: 2px solid white;
+            background: rgba(255, 59, 48, 0.8);
+            pointer-events: none;
+            display: none;
+        }
+
+        .pointer.clicked {
+            box-shadow: 0 0 0 8px rgba(255, 59, 48, 0.35);
+        }
+
+        .empty {
+            color: #888;
+        }
+
+        .controls {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            padding: 10px 20px;
+            background: #3d3d3d;
+            border-top: 1px solid #555;
+        }
+
+        .controls button,
+        .controls select {
+            background: #555;
+            border: none;
+            color: white;
+            border-radius: 4px;
+            padding: 6px 12px;
+            cursor: pointer;
+        }
+
+        .controls input[type=range] {
+            flex: 1;
+        }
+
+        .time {
+            font-variant-numeric: tabular-nums;
+            font-size: 13px;
+            color: #ccc;
+            white-space: nowrap;
+        }
+
+        .timeline-panel {
+            width: 320px;
+            background: #2d2d2d;
+            border-left: 1px solid #444;
+            display: flex;
+            flex-direction: column;
+        }
+
+        .timeline-panel h3 {
+            margin: 0;
+            padding: 12px 16px;
+            font-size: 14px;
+            border-bottom: 1px solid #444;
+        }
+
+        .timeline {
+            list-style: none;
+            margin: 0;
+            padding: 0;
+            overflow-y: auto;
+            flex: 1;
+        }
+
+        .timeline li {
+            display: flex;
+            gap: 8px;
+            padding: 8px 16px;
+            font-size: 13px;
+            color: #777;
+            cursor: pointer;
+            border-bottom: 1px solid #333;
+        }
+
+        .timeline li:hover {
+            background: #383838;
+        }
+
+        .timeline li.past {
+            color: #ddd;
+        }
+
+        .timeline li.current {
+            background: #2f3b4d;
+        }
+
+        .timeline-time {
+            color: #888;
+            font-variant-numeric: tabular-nums;
+            white-space: nowrap;
+        }
+
+        .timeline-text {
+            word-break: break-word;
+        }
+    </style>
+</head>
+<body>
+    <div class="replay-header">
+        <span>⏺️</span>
+        <span class="replay-title" id="title">Loading recording...</span>
+        <span class="replay-meta" id="meta"></span>
+    </div>
+    <div class="replay-main">
+        <div class="viewer">
+            <div class="address">
+                <span class="address-url" id="url">about:blank</span>
+                <span class="address-holder" id="holder"></span>
+            </div>
+            <div class="stage-area">
+                <div class="stage" id="stage">
+                    <img id="frame" alt="" style="display: none;">
+                    <div class="pointer" id="pointer"></div>
+                    <span class="empty" id="empty">No picture at this point</span>
+                </div>
+            </div>
+            <div class="controls">
+                <button id="play" title="Play (space)">▶</button>
+                <span class="time" id="time">0:00 / 0:00</span>
+                <input id="scrubber" type="range" min="0" max="0" step="100" value="0">
+                <select id="speed" title="Playback speed">
+                    <option value="0.5">0.5x</option>
+                    <option value="1" selected>1x</option>
+                    <option value="2">2x</option>
+                    <option value="4">4x</option>
+                    <option value="8">8x</option>
+                </select>
+            </div>
+        </div>
+        <div class="timeline-panel">
+            <h3>Timeline</h3>
+            <ol class="timeline" id="timeline"></ol>
+        </div>
+    </div>
+
+    <script>
+        const recordingId = decodeURIComponent(location.pathname.split('/').pop());
+        const params = new URLSearchParams(window.location.search);
+        const roomId = params.get('roomId') || '';
+        const viewToken = params.get('token') || '';
+        const signalingUrl = 'http://localhost:3001';
+        const recordingUrl = signalingUrl + '/rooms/' + encodeURIComponent(roomId) + '/recordings/' + encodeURIComponent(recordingId);
+        const titleEl = document.getElementById('title');
+        const metaEl = document.getElementById('meta');
+        const urlEl = document.getElementById('url');
+        const holderEl = document.getElementById('holder');
+        const frameImg = document.getElementById('frame');
+        const pointerEl = document.getElementById('pointer');
+        const emptyEl = document.getElementById('empty');
+        const playBtn = document.getElementById('play');
+        const timeEl = document.getElementById('time');
+        const scrubber = document.getElementById('scrubber');
+        const speedSelect = document.getElementById('speed');
+        const timelineEl = document.getElementById('timeline');
+
+        const POINTER_FADE = 2000; // Hide the controller's pointer after this long without input
+
+        let duration = 0;
+        let frames = [];
+        let navigations = [];
+        let holders = [];
+        let pointers = [];
+        // Events listed in the sidebar, with their list items
+        let entries = [];
+        const names = {};
+
+        let current = 0;
+        let playing = false;
+        let lastTick = 0;
+        let shownSeq = -1;
+
+        function formatTime(ms) {
+            const seconds = Math.floor(ms / 1000);
+            const minutes = Math.floor(seconds / 60);
+            return minutes + ':' + String(seconds % 60).padStart(2, '0');
+        }
+
+        function frameUrl(seq) {
+            // Images can't send a bearer token, so it goes in the query
+            return recordingUrl + '/frames/' + seq + '?token=' + encodeURIComponent(viewToken);
+        }
+
+        // The last of the events, which are in time order, at or before t
+        function lastAt(events, t) {
+            let low = 0;
+            let high = events.length - 1;
+            let found = null;
+            while (low <= high) {
+                const middle = (low + high) >> 1;
+                if (events[middle].t <= t) {
+                    found = events[middle];
+                    low = middle + 1;
+                } else {
+                    high = middle - 1;
+                }
+            }
+            return found;
+        }
+
+        function nameOf(userId) {
+            return names[userId] || 'Someone';
+        }
+
+        // What the sidebar says about an event, or null to leave it out
+        function describe(event) {
+            if (event.type === 'navigation') {
+                return '🌐 ' + (event.title ? event.title + ' (' + event.url + ')' : event.url);
+            }
+            if (event.type === 'chat') {
+                return '💬 ' + event.userName + ': ' + event.text;
+            }
+            if (event.type === 'control-changed') {
+                return event.holderId ? '🎮 ' + nameOf(event.holderId) + ' has control' : '🎮 Nobody has control';
+            }
+            if (event.type === 'control' && event.message.type === 'mouse' && event.message.data && event.message.data.action === 'down') {
+                return '🖱️ ' + nameOf(event.message.userId) + ' clicked';
+            }
+            return null;
+        }
+
+        function load(data) {
+            const recording = data.recording;
+            duration = recording.duration;
+
+            for (const event of data.events) {
+                if (event.type === 'control-changed' && event.holderId && event.holderName) {
+                    names[event.holderId] = event.holderName;
+                } else if (event.type === 'chat') {
+                    names[event.userId] = event.userName;
+                }
+            }
+
+            frames = data.events.filter((event) => event.type === 'frame');
+            navigations = data.events.filter((event) => event.type === 'navigation');
+            holders = data.events.filter((event) => event.type === 'control-changed');
+            pointers = data.events.filter((event) => event.type === 'control' && event.message.data &&
+                typeof event.message.data.x === 'number' && event.message.data.canvasWidth > 0);
+
+            titleEl.textContent = 'Recording by ' + recording.startedBy;
+            metaEl.textContent = new Date(recording.startedAt).toLocaleString() + ' · ' + formatTime(duration) +
+                (recording.endedAt === null ? ' · still recording' : '');
+            scrubber.max = String(duration);
+
+            entries = [];
+            for (const event of data.events) {
+                const text = describe(event);
+                if (!text) continue;
+
+                const item = document.createElement('li');
+                const time = document.createElement('span');
+                time.className = 'timeline-time';
+                time.textContent = formatTime(event.t);
+                const label = document.createElement('span');
+                label.className = 'timeline-text';
+                label.textContent = text;
+                item.appendChild(time);
+                item.appendChild(label);
+                item.addEventListener('click', () => seek(event.t));
+                timelineEl.appendChild(item);
+                entries.push({ t: event.t, item });
+            }
+
+            render();
+        }
 
-        if (!script || typeof script !== 'string') {
-          return res.status(400).json({ error: 'Script is required' });
+        function render() {
+            const frame = lastAt(frames, current);
+            if (frame && frame.seq !== shownSeq) {
+                shownSeq = frame.seq;
+                frameImg.src = frameUrl(frame.seq);
+                // Fetch the next frame ahead of time so playback doesn't flicker
+                const next = frames[frames.indexOf(frame) + 1];
+                if (next) new Image().src = frameUrl(next.seq);
+            }
+            frameImg.style.display = frame ? 'block' : 'none';
+            emptyEl.style.display = frame ? 'none' : 'inline';
+
+            const navigation = lastAt(navigations, current);
+            urlEl.textContent = navigation ? navigation.url : 'about:blank';
+            urlEl.title = navigation ? navigation.title : '';
+
+            const holder = lastAt(holders, current);
+            holderEl.textContent = holder && holder.holderId ? '🎮 ' + nameOf(holder.holderId) : '';
+
+            const pointer = lastAt(pointers, current);
+            if (frame && pointer && current - pointer.t < POINTER_FADE) {
+                const data = pointer.message.data;
+                pointerEl.style.left = (data.x / data.canvasWidth * 100) + '%';
+                pointerEl.style.top = (data.y / data.canvasHeight * 100) + '%';
+                pointerEl.classList.toggle('clicked', data.action === 'down');
+                pointerEl.style.display = 'block';
+            } else {
+                pointerEl.style.display = 'none';
+            }
+
+            let latest = null;
+            for (const entry of entries) {
+                const past = entry.t <= current;
+                entry.item.classList.toggle('past', past);
+                entry.item.classList.remove('current');
+                if (past) latest = entry;
+            }
+            if (latest) {
+                latest.item.classList.add('current');
+                if (playing) latest.item.scrollIntoView({ block: 'nearest' });
+            }
+
+            scrubber.value = String(current);
+            timeEl.textContent = formatTime(current) + ' / ' + formatTime(duration);
+            playBtn.textContent = playing ? '⏸' : '▶';
+        }
+
+        function seek(t) {
+            current = Math.min(Math.max(t, 0), duration);
+            render();
+        }
+
+        function setPlaying(value) {
+            if (value && current >= duration) current = 0;
+            playing = value;
+            lastTick = performance.now();
+            render();
+            if (playing) requestAnimationFrame(tick);
         }
 
-        // Mock JavaScript execution result
-        const mockResult = `Executed: ${script.substring(0, 50)}...`;
+        function tick(now) {
+            if (!playing) return;
+
+            current += (now - lastTick) * Number(speedSelect.value);
+            lastTick = now;
+            if (current >= duration) {
+                current = duration;
+                playing = false;
+            }
+            render();
+
+            if (playing) requestAnimationFrame(tick);
+        }
 
-        res.json({
-          success: true,
-          result: mockResult
+        playBtn.addEventListener('click', () => setPlaying(!playing));
+        scrubber.addEventListener('input', () => seek(Number(scrubber.value)));
+        document.addEventListener('keydown', (e) => {
+            if (e.target === speedSelect) return;
+            if (e.key === ' ') {
+                e.preventDefault();
+                setPlaying(!playing);
+            } else if (e.key === 'ArrowLeft') {
+                seek(current - 5000);
+            } else if (e.key === 'ArrowRight') {
+                seek(current + 5000);
+            }
         });
+
+        fetch(recordingUrl, { headers: { 'Authorization': 'Bearer ' + viewToken } })
+            .then((response) => {
+                if (response.status === 403) throw new Error('Join the room to watch its recordings');
+                if (!response.ok) throw new Error(response.status === 404 ? 'Recording not found' : 'Could not load the recording');
+                return response.json();
+            })
+            .then(load)
+            .catch((error) => {
+                titleEl.textContent = error.message;
+            });
+    </script>
+</body>
+</html>`;
+
+      res.setHeader('Content-Type', 'text/html');
+      res.setHeader('Content-Security-Policy', "frame-ancestors 'self'");
+      res.send(html);
+    });
+
+    // Run a script in a room's page and return its result and console output.
+    // Signaling servers only pass on requests from a room's owner and
+    // moderators, and only they have WORKER_TOKEN to call this directly.
+    this.app.post('/execute', this.requireWorkerToken, async (req, res) => {
+      const roomId = this.getRoomId(req.body?.roomId);
+      if (!roomId) {
+        return res.status(400).json({ error: 'roomId is required' });
+      }
+
+      const { script, timeout } = req.body;
+      if (!script || typeof script !== 'string') {
+        return res.status(400).json({ error: 'Script is required' });
+      }
+      if (script.length > MAX_SCRIPT_LENGTH) {
+        return res.status(413).json({ error: 'Script is too long' });
+      }
+
+      const session = this.sessions.getSession(roomId);
+      if (!session) {
+        return res.status(404).json({ error: 'Room is not open on this worker' });
+      }
+      if (!session.page || this.browserType === 'mock') {
+        return res.status(503).json({ error: `Scripts can't run without a browser (${this.browserType} mode)` });
+      }
+      if (this.scripts.isRunning(roomId)) {
+        return res.status(409).json({ error: 'A script is already running in this room' });
+      }
+
+      try {
+        session.lastActivity = new Date();
+        const result = await this.scripts.run(roomId, session.page, this.browserType, script, timeout);
+        console.log(`📜 Ran a script in room ${roomId} (${result.success ? 'ok' : result.error?.name}, ${result.duration}ms)`);
+        res.json(result);
       } catch (error) {
         console.error('Error executing script:', error);
         res.status(500).json({ error: 'Failed to execute script' });
       }
     });
 
+    // Drive a room's page by CSS selector: POST /automation/click, type, wait,
+    // select, upload or boxes. Like a member, automation only drives the page
+    // while nobody else holds control. Failures come back as
+    // { success: false, error: { code, message } }.
+    this.app.post('/automation/:action', this.requireWorkerToken, async (req, res) => {
+      const action = req.params.action;
+      const roomId = this.getRoomId(req.body?.roomId) ?? '';
+      const fail = (code: AutomationErrorCode, message: string) =>
+        res.status(AUTOMATION_STATUS[code]).json({ success: false, roomId, action, duration: 0, error: { code, message } });
+
+      if (!this.automation.isAction(action)) {
+        return fail('invalid_request', `Unknown action ${action}`);
+      }
+      if (!roomId) {
+        return fail('invalid_request', 'roomId is required');
+      }
+
+      const session = this.sessions.getSession(roomId);
+      if (!session) {
+        return fail('room_not_found', 'Room is not open on this worker');
+      }
+      if (this.roomControllers.get(roomId)) {
+        return fail('control_held', 'A member of the room holds control');
+      }
+      if (!session.page || this.browserType === 'mock') {
+        return fail('browser_unavailable', `Automation needs a browser (${this.browserType} mode)`);
+      }
+
+      session.lastActivity = new Date();
+      const result = await this.automation.run(roomId, action, session.page, this.browserType, req.body);
+      console.log(`🤖 ${action} in room ${roomId}: ${result.success ? 'ok' : result.error!.code} (${result.duration}ms)`);
+      res.status(result.error ? AUTOMATION_STATUS[result.error.code] : 200).json(result);
+    });
+
     // Get page content
-    this.app.get('/content', async (req, res) => {
+    this.app.get('/content', this.requireWorkerToken, async (req, res) => {
+      const roomId = this.getRoomId(req.query.roomId);
+      if (!roomId) {
+        return res.status(400).json({ error: 'roomId is required' });
+      }
+
       try {
-        const targetUrl = req.query.url || this.currentUrl;
-        console.log('🌐 Fetching content for URL:', targetUrl);
+        const session = await this.sessions.openSession(roomId);
+        const requestedUrl = typeof req.query.url === 'string' ? req.query.url : null;
+        const targetUrl = requestedUrl || session.currentUrl;
+        console.log(`🌐 Fetching content for room ${roomId}:`, targetUrl);
 
-        if (this.page && this.browserType !== 'mock') {
+        if (session.page && this.browserType !== 'mock') {
           // Navigate to the requested URL first
-          if (req.query.url && req.query.url !== this.currentUrl) {
-            console.log('🔗 Navigating browser to:', req.query.url);
-            await this.page.goto(req.query.url, {
+          if (requestedUrl && requestedUrl !== session.currentUrl) {
+            console.log('🔗 Navigating browser to:', requestedUrl);
+            await session.page.goto(requestedUrl, {
               waitUntil: 'domcontentloaded',
               timeout: 15000
             });
-            this.currentUrl = req.query.url;
+            session.currentUrl = requestedUrl;
           }
 
           // Use real browser content
-          const content = await this.page.content();
+          const content = await session.page.content();
           res.setHeader('Content-Type', 'text/html');
           res.send(content);
         } else if (axios) {
@@ -1191,7 +3446,7 @@ class BrowserService {
           console.log('🌐 Fetching real content with HTTP client for:', targetUrl);
           const response = await axios.get(targetUrl, {
             headers: {
-              'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+              'User-Agent': DEFAULT_USER_AGENT,
               'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
               'Accept-Language': 'en-US,en;q=0.9',
               'Accept-Encoding': 'gzip, deflate, br',
@@ -1210,7 +3465,7 @@ class BrowserService {
             <!DOCTYPE html>
             <html>
               <head>
-                <title>Browser Content - ${this.currentUrl}</title>
+                <title>Browser Content - ${session.currentUrl}</title>
                 <style>
                   body {
                     font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
@@ -1268,7 +3523,7 @@ class BrowserService {
                 <div class="content">
                   <div class="url-display">
                     <strong>Current URL:</strong><br>
-                    ${this.currentUrl}
+                    ${session.currentUrl}
                   </div>
 
                   <div class="info">
@@ -1320,6 +3575,9 @@ class BrowserService {
         console.log(`🔗 Navigate endpoint: POST http://localhost:${port}/navigate`);
         console.log(`🌐 WebRTC endpoint: ws://localhost:${port}`);
         console.log(`🖥️ Browser UI: http://localhost:${port}/browser`);
+
+        // Join the signaling server's worker pool once we can take rooms
+        this.registration?.start();
       });
 
       // Graceful shutdown
@@ -1343,34 +3601,27 @@ class BrowserService {
   public async stop(): Promise<void> {
     console.log('🛑 Stopping browser service...');
 
-    // Stop streaming
-    if (this.streamingInterval) {
-      clearInterval(this.streamingInterval);
-      this.streamingInterval = null;
+    this.registration?.stop();
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+      this.statusTimer = null;
     }
 
     // Close all WebRTC connections
-    for (const [clientId, peerConnection] of this.streamingClients) {
-      try {
-        peerConnection.close();
-      } catch (error) {
-        console.error(`Error closing peer connection for ${clientId}:`, error);
-      }
+    for (const clientId of Array.from(this.streamingClients.keys())) {
+      this.closePeerConnection(clientId);
     }
-    this.streamingClients.clear();
 
-    try {
-      if (this.page) {
-        if (this.browserType === 'playwright') {
-          await this.page.close();
-        } else if (this.browserType === 'puppeteer') {
-          await this.page.close();
-        }
-        this.page = null;
-      }
-    } catch (error) {
-      console.error('Error closing page:', error);
-    }
+    this.tours.stopAll();
+
+    // Finish recordings so their archives are complete
+    await this.recorder.stopAll();
+
+    // Stop streaming
+    await this.stopAllBroadcasters();
+
+    // Close every room's browser context
+    await this.sessions.closeAll();
 
     try {
       if (this.browser) {
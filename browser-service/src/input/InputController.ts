@@ -0,0 +1,126 @@
+import { DEFAULT_VIEWPORT } from '../room/DeviceEmulation';
+import {
+  BrowserType,
+  ControlMessage,
+  KeyboardControlData,
+  PointerControlData,
+  ScrollControlData
+} from '../types';
+
+export class InputController {
+  private queues: Map<string, Promise<void>> = new Map();
+
+  // Replay a viewer's input on a room's page. Events for the same room are
+  // applied one at a time so a click can't overtake the move before it.
+  dispatch(roomId: string, page: any, browserType: BrowserType, message: ControlMessage): Promise<void> {
+    const previous = this.queues.get(roomId) ?? Promise.resolve();
+
+    const next = previous
+      .then(() => this.apply(page, browserType, message))
+      .catch((error) => {
+        console.error(`❌ Failed to replay ${message.type} input in room ${roomId}:`, error);
+      });
+
+    this.queues.set(roomId, next);
+    next.then(() => {
+      if (this.queues.get(roomId) === next) {
+        this.queues.delete(roomId);
+      }
+    });
+
+    return next;
+  }
+
+  // Drop any pending input for a room that is going away
+  release(roomId: string): void {
+    this.queues.delete(roomId);
+  }
+
+  private async apply(page: any, browserType: BrowserType, message: ControlMessage): Promise<void> {
+    switch (message.type) {
+      case 'mouse':
+        return this.applyMouse(page, message.data as PointerControlData);
+      case 'click':
+        return this.applyClick(page, message.data as PointerControlData);
+      case 'scroll':
+        return this.applyScroll(page, browserType, message.data as ScrollControlData);
+      case 'keyboard':
+        return this.applyKeyboard(page, message.data as KeyboardControlData);
+      default:
+        console.log(`Ignoring unsupported control message: ${message.type}`);
+    }
+  }
+
+  private async applyMouse(page: any, data: PointerControlData): Promise<void> {
+    const point = this.mapToViewport(page, data);
+    if (!point) return;
+
+    await page.mouse.move(point.x, point.y);
+
+    if (data.action === 'down') {
+      await page.mouse.down({ button: data.button ?? 'left' });
+    } else if (data.action === 'up') {
+      await page.mouse.up({ button: data.button ?? 'left' });
+    }
+  }
+
+  private async applyClick(page: any, data: PointerControlData): Promise<void> {
+    const point = this.mapToViewport(page, data);
+    if (!point) return;
+
+    await page.mouse.click(point.x, point.y, {
+      button: data.button ?? 'left',
+      clickCount: data.clickCount ?? 1
+    });
+  }
+
+  private async applyScroll(page: any, browserType: BrowserType, data: ScrollControlData): Promise<void> {
+    if (typeof data.x === 'number' && typeof data.y === 'number' && data.canvasWidth && data.canvasHeight) {
+      const point = this.mapToViewport(page, data as PointerControlData);
+      if (point) {
+        await page.mouse.move(point.x, point.y);
+      }
+    }
+
+    const deltaX = Number(data.deltaX) || 0;
+    const deltaY = Number(data.deltaY) || 0;
+
+    // Playwright takes positional deltas, Puppeteer takes an options object
+    if (browserType === 'playwright') {
+      await page.mouse.wheel(deltaX, deltaY);
+    } else {
+      await page.mouse.wheel({ deltaX, deltaY });
+    }
+  }
+
+  private async applyKeyboard(page: any, data: KeyboardControlData): Promise<void> {
+    if (!data.key || typeof data.key !== 'string') return;
+
+    if (data.action === 'down') {
+      await page.keyboard.down(data.key);
+    } else if (data.action === 'up') {
+      await page.keyboard.up(data.key);
+    } else {
+      await page.keyboard.press(data.key);
+    }
+  }
+
+  // Map a point on the client's canvas into page viewport coordinates
+  private mapToViewport(page: any, data: PointerControlData): { x: number; y: number } | null {
+    const { x, y, canvasWidth, canvasHeight } = data;
+    if (![x, y, canvasWidth, canvasHeight].every(value => typeof value === 'number' && isFinite(value))) {
+      return null;
+    }
+    if (canvasWidth <= 0 || canvasHeight <= 0) {
+      return null;
+    }
+
+    // Playwright exposes viewportSize(), Puppeteer exposes viewport()
+    const viewport = (typeof page.viewportSize === 'function' ? page.viewportSize() : page.viewport()) ?? DEFAULT_VIEWPORT;
+
+    return {
+      x: Math.min(Math.max((x / canvasWidth) * viewport.width, 0), viewport.width - 1),
+      y: Math.min(Math.max((y / canvasHeight) * viewport.height, 0), viewport.height - 1)
+    };
+  }
+}
@@ -0,0 +1,246 @@
+import { EventEmitter } from 'events';
+import { createReadStream, createWriteStream, promises as fs, WriteStream } from 'fs';
+import { join, resolve } from 'path';
+import { createInterface } from 'readline';
+import { v4 as uuidv4 } from 'uuid';
+import { RecordingEvent, RecordingInfo, ScreencastFrameMetadata, StreamSettings } from '../types';
+
+// Frames are recorded at a steady, modest rate; viewers may ask for more
+export const RECORDING_STREAM_SETTINGS: StreamSettings = { fps: 5, quality: 60 };
+
+const MAX_RECORDING_DURATION = 2 * 60 * 60 * 1000; // Stop on our own after 2 hours
+const INFO_FILE = 'recording.json';
+const EVENTS_FILE = 'events.jsonl';
+const FRAMES_DIR = 'frames';
+const RECORDING_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// An event as it is handed in; the recorder stamps the time
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
+export type RecordingEventInput = DistributiveOmit<RecordingEvent, 't'>;
+
+interface ActiveRecording {
+  info: RecordingInfo;
+  path: string;
+  events: WriteStream;
+  // The last navigation recorded, so unchanged page states aren't repeated
+  lastNavigation: string | null;
+  stopTimer: NodeJS.Timeout;
+}
+
+// Records rooms to disk, one archive directory per recording:
+//
+//   <dir>/<id>/recording.json   RecordingInfo
+//   <dir>/<id>/events.jsonl     one RecordingEvent per line, in order
+//   <dir>/<id>/frames/<seq>.jpg the screencast frames the events point at
+//
+// A room has at most one recording running. Emits 'recording-changed'
+// (roomId, info) when one starts or stops, with info null once stopped.
+export class SessionRecorder extends EventEmitter {
+  private dir: string;
+  // Room id -> the recording running for it
+  private active: Map<string, ActiveRecording> = new Map();
+  // Rooms whose recording is being set up
+  private starting: Set<string> = new Set();
+
+  constructor(dir: string) {
+    super();
+    this.dir = resolve(dir);
+  }
+
+  getActive(roomId: string): RecordingInfo | null {
+    const recording = this.active.get(roomId);
+    return recording ? { ...recording.info, duration: Date.now() - recording.info.startedAt } : null;
+  }
+
+  isRecording(roomId: string): boolean {
+    return this.active.has(roomId);
+  }
+
+  getRecordedRooms(): string[] {
+    return Array.from(this.active.keys());
+  }
+
+  async start(roomId: string, startedBy: string): Promise<RecordingInfo> {
+    if (this.active.has(roomId) || this.starting.has(roomId)) {
+      throw new Error('This room is already being recorded');
+    }
+
+    const info: RecordingInfo = {
+      id: uuidv4(),
+      roomId,
+      startedBy,
+      startedAt: Date.now(),
+      endedAt: null,
+      duration: 0,
+      frameCount: 0
+    };
+    const path = join(this.dir, info.id);
+    this.starting.add(roomId);
+    try {
+      await fs.mkdir(join(path, FRAMES_DIR), { recursive: true });
+      await this.writeInfo(path, info);
+    } finally {
+      this.starting.delete(roomId);
+    }
+
+    const recording: ActiveRecording = {
+      info,
+      path,
+      events: createWriteStream(join(path, EVENTS_FILE), { flags: 'a' }),
+      lastNavigation: null,
+      stopTimer: setTimeout(() => {
+        console.log(`⏺️ Recording ${info.id} reached its time limit`);
+        this.stop(roomId).catch((error) => console.error(`Failed to stop recording ${info.id}:`, error));
+      }, MAX_RECORDING_DURATION)
+    };
+    recording.events.on('error', (error) => console.error(`Failed to write recording ${info.id}:`, error));
+    this.active.set(roomId, recording);
+
+    console.log(`⏺️ Recording room ${roomId} as ${info.id}`);
+    this.emit('recording-changed', roomId, this.getActive(roomId));
+    return info;
+  }
+
+  // Add an event to the room's recording; does nothing if it isn't recorded
+  record(roomId: string, event: RecordingEventInput): void {
+    const recording = this.active.get(roomId);
+    if (!recording) return;
+
+    const t = Date.now() - recording.info.startedAt;
+    recording.info.duration = t;
+    recording.events.write(JSON.stringify({ t, ...event }) + '\n');
+  }
+
+  // Record the page's URL and title if they changed since the last time
+  recordNavigation(roomId: string, tabId: string, url: string, title: string): void {
+    const recording = this.active.get(roomId);
+    const key = JSON.stringify([tabId, url, title]);
+    if (!recording || !url || recording.lastNavigation === key) return;
+
+    recording.lastNavigation = key;
+    this.record(roomId, { type: 'navigation', tabId, url, title });
+  }
+
+  // Write a frame and record where it falls; resolves once it is on disk so
+  // a slow disk throttles the capture rather than piling frames up
+  async recordFrame(roomId: string, frame: Buffer, metadata: ScreencastFrameMetadata): Promise<void> {
+    const recording = this.active.get(roomId);
+    if (!recording) return;
+
+    const seq = recording.info.frameCount++;
+    await fs.writeFile(this.framePath(recording.path, seq), frame);
+
+    // The recording may have stopped while the frame was written
+    if (this.active.get(roomId) === recording) {
+      this.record(roomId, { type: 'frame', seq, width: metadata.deviceWidth, height: metadata.deviceHeight });
+    }
+  }
+
+  async stop(roomId: string): Promise<RecordingInfo | null> {
+    const recording = this.active.get(roomId);
+    if (!recording) return null;
+
+    this.active.delete(roomId);
+    clearTimeout(recording.stopTimer);
+    await new Promise<void>(resolve => recording.events.end(() => resolve()));
+
+    recording.info.endedAt = Date.now();
+    recording.info.duration = recording.info.endedAt - recording.info.startedAt;
+    await this.writeInfo(recording.path, recording.info);
+
+    console.log(`⏹️ Recording ${recording.info.id} of room ${roomId} saved (${recording.info.frameCount} frames)`);
+    this.emit('recording-changed', roomId, null);
+    return recording.info;
+  }
+
+  async stopAll(): Promise<void> {
+    for (const roomId of Array.from(this.active.keys())) {
+      await this.stop(roomId);
+    }
+  }
+
+  // Every recording on disk, newest first, optionally only one room's
+  async list(roomId?: string): Promise<RecordingInfo[]> {
+    let ids: string[];
+    try {
+      ids = await fs.readdir(this.dir);
+    } catch (error) {
+      return [];
+    }
+
+    const recordings: RecordingInfo[] = [];
+    for (const id of ids.filter(id => RECORDING_ID.test(id))) {
+      const info = await this.getInfo(id);
+      if (info && (!roomId || info.roomId === roomId)) {
+        recordings.push(info);
+      }
+    }
+
+    return recordings.sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  // A recording and its whole timeline, or null if there is no such recording
+  async load(id: string): Promise<{ recording: RecordingInfo; events: RecordingEvent[] } | null> {
+    const recording = await this.getInfo(id);
+    if (!recording) return null;
+
+    return { recording, events: await this.readEvents(join(this.dir, id)) };
+  }
+
+  // Where a recorded frame is kept, or null if the id or number is not valid
+  getFramePath(id: string, seq: number): string | null {
+    if (!RECORDING_ID.test(id) || !Number.isInteger(seq) || seq < 0) return null;
+    return this.framePath(join(this.dir, id), seq);
+  }
+
+  // A recording's info, or null if there is no such recording
+  async getInfo(id: string): Promise<RecordingInfo | null> {
+    if (!RECORDING_ID.test(id)) return null;
+
+    const active = Array.from(this.active.values()).find(recording => recording.info.id === id);
+    if (active) return this.getActive(active.info.roomId);
+
+    const path = join(this.dir, id);
+    let info: RecordingInfo;
+    try {
+      info = JSON.parse(await fs.readFile(join(path, INFO_FILE), 'utf8'));
+    } catch (error) {
+      return null;
+    }
+
+    // The service stopped mid-recording; it ends with the last event
+    if (info.endedAt === null) {
+      const events = await this.readEvents(path);
+      info.duration = events.length ? events[events.length - 1].t : 0;
+      info.frameCount = events.filter(event => event.type === 'frame').length;
+      info.endedAt = info.startedAt + info.duration;
+    }
+    return info;
+  }
+
+  private async readEvents(path: string): Promise<RecordingEvent[]> {
+    const events: RecordingEvent[] = [];
+    try {
+      const lines = createInterface({ input: createReadStream(join(path, EVENTS_FILE)), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          events.push(JSON.parse(line));
+        } catch (error) {
+          // A line cut short by a crash; the rest is still good
+        }
+      }
+    } catch (error) {
+      // Nothing was recorded
+    }
+    return events;
+  }
+
+  private framePath(path: string, seq: number): string {
+    return join(path, FRAMES_DIR, `${String(seq).padStart(6, '0')}.jpg`);
+  }
+
+  private async writeInfo(path: string, info: RecordingInfo): Promise<void> {
+    await fs.writeFile(join(path, INFO_FILE), JSON.stringify(info, null, 2));
+  }
+}
@@ -0,0 +1,184 @@
+import { BrowserType, DevicePreset, DeviceSettings } from '../types';
+import { createCDPSession } from '../utils/cdp';
+
+export const DEFAULT_VIEWPORT = { width: 1280, height: 720 };
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+type PresetSettings = Omit<DeviceSettings, 'preset' | 'locale' | 'timezoneId'>;
+
+// Chromium on a laptop, a recent Android phone and an Android tablet
+export const DEVICE_PRESETS: Record<DevicePreset, PresetSettings> = {
+  desktop: {
+    viewport: DEFAULT_VIEWPORT,
+    deviceScaleFactor: 1,
+    isMobile: false,
+    hasTouch: false,
+    userAgent: DEFAULT_USER_AGENT
+  },
+  phone: {
+    viewport: { width: 412, height: 915 },
+    deviceScaleFactor: 2.625,
+    isMobile: true,
+    hasTouch: true,
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+  },
+  tablet: {
+    viewport: { width: 800, height: 1280 },
+    deviceScaleFactor: 2,
+    isMobile: true,
+    hasTouch: true,
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+  }
+};
+
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+  preset: 'desktop',
+  ...DEVICE_PRESETS.desktop,
+  locale: null,
+  timezoneId: null
+};
+
+const MIN_VIEWPORT_SIZE = 200;
+const MAX_VIEWPORT_SIZE = 2560;
+const MIN_SCALE_FACTOR = 0.5;
+const MAX_SCALE_FACTOR = 4;
+const MAX_USER_AGENT_LENGTH = 512;
+const MAX_TOUCH_POINTS = 5;
+
+// Apply a host's changes on top of the room's current settings. A preset
+// resets the device to it first; locale and timezone carry over.
+export function resolveDeviceSettings(changes: any, current: DeviceSettings): { settings?: DeviceSettings; error?: string } {
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+    return { error: 'Device settings must be an object' };
+  }
+
+  let settings: DeviceSettings = { ...current, viewport: { ...current.viewport } };
+
+  // A room that moved between workers brings its settings as they were, custom included
+  if (changes.preset !== undefined && changes.preset !== 'custom') {
+    if (!Object.keys(DEVICE_PRESETS).includes(changes.preset)) {
+      return { error: `preset must be one of ${Object.keys(DEVICE_PRESETS).join(', ')}` };
+    }
+    const preset = DEVICE_PRESETS[changes.preset as DevicePreset];
+    settings = { ...settings, ...preset, viewport: { ...preset.viewport } };
+  }
+
+  if (changes.viewport !== undefined) {
+    const { width, height } = changes.viewport ?? {};
+    const valid = (size: unknown) => Number.isInteger(size) && (size as number) >= MIN_VIEWPORT_SIZE && (size as number) <= MAX_VIEWPORT_SIZE;
+    if (!valid(width) || !valid(height)) {
+      return { error: `The viewport must be ${MIN_VIEWPORT_SIZE} to ${MAX_VIEWPORT_SIZE} pixels each way` };
+    }
+    settings.viewport = { width, height };
+  }
+
+  if (changes.deviceScaleFactor !== undefined) {
+    const scale = changes.deviceScaleFactor;
+    if (typeof scale !== 'number' || !(scale >= MIN_SCALE_FACTOR && scale <= MAX_SCALE_FACTOR)) {
+      return { error: `deviceScaleFactor must be from ${MIN_SCALE_FACTOR} to ${MAX_SCALE_FACTOR}` };
+    }
+    settings.deviceScaleFactor = scale;
+  }
+
+  for (const flag of ['isMobile', 'hasTouch'] as const) {
+    if (changes[flag] !== undefined) {
+      if (typeof changes[flag] !== 'boolean') {
+        return { error: `${flag} must be true or false` };
+      }
+      settings[flag] = changes[flag];
+    }
+  }
+
+  if (changes.userAgent !== undefined) {
+    const userAgent = typeof changes.userAgent === 'string' ? changes.userAgent.trim() : '';
+    if (!userAgent || userAgent.length > MAX_USER_AGENT_LENGTH || /[\x00-\x1f\x7f]/.test(userAgent)) {
+      return { error: `The user agent must be one line of at most ${MAX_USER_AGENT_LENGTH} characters` };
+    }
+    settings.userAgent = userAgent;
+  }
+
+  if (changes.locale !== undefined) {
+    if (changes.locale === null || changes.locale === '') {
+      settings.locale = null;
+    } else {
+      try {
+        [settings.locale] = Intl.getCanonicalLocales(String(changes.locale));
+      } catch (error) {
+        return { error: `${changes.locale} is not a locale` };
+      }
+    }
+  }
+
+  if (changes.timezoneId !== undefined) {
+    if (changes.timezoneId === null || changes.timezoneId === '') {
+      settings.timezoneId = null;
+    } else {
+      try {
+        settings.timezoneId = new Intl.DateTimeFormat('en-US', { timeZone: String(changes.timezoneId) }).resolvedOptions().timeZone;
+      } catch (error) {
+        return { error: `${changes.timezoneId} is not a time zone` };
+      }
+    }
+  }
+
+  settings.preset = matchPreset(settings);
+  return { settings };
+}
+
+// The preset the settings amount to, or 'custom'
+function matchPreset(settings: DeviceSettings): DeviceSettings['preset'] {
+  const match = (Object.keys(DEVICE_PRESETS) as DevicePreset[]).find((name) => {
+    const preset = DEVICE_PRESETS[name];
+    return preset.viewport.width === settings.viewport.width &&
+      preset.viewport.height === settings.viewport.height &&
+      preset.deviceScaleFactor === settings.deviceScaleFactor &&
+      preset.isMobile === settings.isMobile &&
+      preset.hasTouch === settings.hasTouch &&
+      preset.userAgent === settings.userAgent;
+  });
+  return match ?? 'custom';
+}
+
+// Emulates a room's device on its pages, at creation and whenever the host
+// changes it. Overrides made through the DevTools protocol only last as long
+// as the session that made them, so each page keeps one open until it closes.
+export class DeviceEmulation {
+  private sessions: WeakMap<any, Promise<any>> = new WeakMap();
+
+  async apply(page: any, browserType: BrowserType, settings: DeviceSettings): Promise<void> {
+    const { viewport, deviceScaleFactor, isMobile, hasTouch, userAgent, locale, timezoneId } = settings;
+
+    if (browserType === 'puppeteer') {
+      await page.setViewport({ ...viewport, deviceScaleFactor, isMobile, hasTouch });
+      await page.setUserAgent(userAgent);
+      await page.emulateTimezone(timezoneId ?? undefined);
+      await page.setExtraHTTPHeaders(locale ? { 'Accept-Language': locale } : {});
+
+      const cdp = await this.getSession(page, browserType);
+      await cdp.send('Emulation.setLocaleOverride', locale ? { locale } : {});
+      return;
+    }
+
+    // Playwright keeps its own record of the viewport, which the screencast
+    // and input read back; the rest it can only set per context
+    await page.setViewportSize(viewport);
+
+    const cdp = await this.getSession(page, browserType);
+    await cdp.send('Emulation.setDeviceMetricsOverride', { ...viewport, deviceScaleFactor, mobile: isMobile });
+    await cdp.send('Emulation.setTouchEmulationEnabled', hasTouch ? { enabled: true, maxTouchPoints: MAX_TOUCH_POINTS } : { enabled: false });
+    await cdp.send('Emulation.setUserAgentOverride', { userAgent, ...(locale ? { acceptLanguage: locale } : {}) });
+    await cdp.send('Emulation.setLocaleOverride', locale ? { locale } : {});
+    await cdp.send('Emulation.setTimezoneOverride', { timezoneId: timezoneId ?? '' });
+  }
+
+  private getSession(page: any, browserType: BrowserType): Promise<any> {
+    let session = this.sessions.get(page);
+    if (!session) {
+      session = createCDPSession(page, browserType);
+      // Let a later call try again
+      session.catch(() => this.sessions.delete(page));
+      this.sessions.set(page, session);
+    }
+    return session;
+  }
+}
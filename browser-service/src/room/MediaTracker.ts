@@ -0,0 +1,213 @@
+import { BrowserType, MediaCommand, MediaState } from '../types';
+import { createCDPSession } from '../utils/cdp';
+
+const MEDIA_BINDING = '__collabMediaState';
+const MEDIA_COMMAND = '__collabMediaCommand';
+const MAX_MEDIA_ELEMENTS = 20;
+
+// Runs in every top-level document the page loads. It reports its media
+// elements through the CDP binding whenever one plays, pauses, seeks or
+// changes volume or rate, about once a second while one plays, and every
+// couple of seconds in case elements came or went. It also carries out the
+// commands sent with Runtime.evaluate.
+const MEDIA_SCRIPT = `(() => {
+  if (window.top !== window || window.__collabMediaInstalled) return;
+  window.__collabMediaInstalled = true;
+
+  const ids = new WeakMap();
+  let nextId = 1;
+  const idOf = (element) => {
+    if (!ids.has(element)) ids.set(element, nextId++);
+    return ids.get(element);
+  };
+  const elements = () => Array.from(document.querySelectorAll('video, audio')).slice(0, ${MAX_MEDIA_ELEMENTS});
+  const finite = (value) => Number.isFinite(value) ? value : null;
+
+  let reportTimer = null;
+  const report = () => {
+    reportTimer = null;
+    if (typeof window.${MEDIA_BINDING} !== 'function') return;
+    window.${MEDIA_BINDING}(JSON.stringify(elements().map((element) => ({
+      id: idOf(element),
+      kind: element.tagName === 'AUDIO' ? 'audio' : 'video',
+      src: element.currentSrc || element.src || '',
+      currentTime: element.currentTime,
+      duration: finite(element.duration),
+      paused: element.paused,
+      ended: element.ended,
+      muted: element.muted,
+      volume: element.volume,
+      playbackRate: element.playbackRate
+    }))));
+  };
+  const schedule = () => {
+    if (!reportTimer) reportTimer = setTimeout(report, 100);
+  };
+
+  // Media events don't bubble, but they can be caught on the way down
+  ['play', 'pause', 'seeked', 'ratechange', 'volumechange', 'durationchange', 'loadedmetadata', 'emptied', 'ended']
+    .forEach((type) => document.addEventListener(type, schedule, true));
+
+  let lastTimeUpdate = 0;
+  document.addEventListener('timeupdate', () => {
+    const now = Date.now();
+    if (now - lastTimeUpdate < 1000) return;
+    lastTimeUpdate = now;
+    schedule();
+  }, true);
+
+  setInterval(schedule, 2000);
+
+  window.${MEDIA_COMMAND} = (command) => {
+    const list = elements();
+    const element = command.mediaId
+      ? list.find((candidate) => idOf(candidate) === command.mediaId)
+      : list.find((candidate) => !candidate.paused) || list.find((candidate) => candidate.tagName === 'VIDEO') || list[0];
+    if (!element) throw new Error('No media on this page');
+
+    const clamp = (value, min, max) => Math.min(Math.max(Number(value) || 0, min), max);
+    switch (command.action) {
+      case 'play':
+        return element.play().then(() => undefined);
+      case 'pause':
+        element.pause();
+        break;
+      case 'seek':
+        element.currentTime = clamp(command.value, 0, Number.isFinite(element.duration) ? element.duration : Infinity);
+        break;
+      case 'volume':
+        element.volume = clamp(command.value, 0, 1);
+        if (element.volume > 0) element.muted = false;
+        break;
+      case 'mute':
+        element.muted = command.value === true;
+        break;
+      case 'rate':
+        element.playbackRate = clamp(command.value, 0.25, 4);
+        break;
+    }
+    schedule();
+  };
+})();`;
+
+export type MediaStateListener = (tabId: string, state: MediaState) => void;
+
+interface TrackedMedia {
+  cdp: any;
+  state: MediaState;
+  lastEmitted: string | null;
+}
+
+// Follows the <video> and <audio> elements on each tab's page and plays,
+// pauses, seeks and adjusts them on request
+export class MediaTracker {
+  private pages: Map<string, TrackedMedia> = new Map();
+  private listener: MediaStateListener;
+
+  constructor(listener: MediaStateListener) {
+    this.listener = listener;
+  }
+
+  getState(tabId: string): MediaState | undefined {
+    return this.pages.get(tabId)?.state;
+  }
+
+  async track(tabId: string, page: any, browserType: BrowserType): Promise<void> {
+    if (!page || this.pages.has(tabId)) return;
+
+    const tracked: TrackedMedia = {
+      cdp: null,
+      state: { elements: [], updatedAt: Date.now() },
+      lastEmitted: null
+    };
+    this.pages.set(tabId, tracked);
+
+    try {
+      const cdp = await createCDPSession(page, browserType);
+      if (this.pages.get(tabId) !== tracked) {
+        // The tab closed while the session was opening
+        await cdp.detach().catch(() => undefined);
+        return;
+      }
+      tracked.cdp = cdp;
+
+      // A new document has no media until its script reports
+      cdp.on('Page.frameNavigated', (event: { frame: { parentId?: string } }) => {
+        if (!event.frame.parentId) {
+          this.update(tabId, tracked, []);
+        }
+      });
+
+      cdp.on('Runtime.bindingCalled', (event: { name: string; payload: string }) => {
+        if (event.name !== MEDIA_BINDING) return;
+
+        try {
+          const elements = JSON.parse(event.payload);
+          if (Array.isArray(elements)) {
+            this.update(tabId, tracked, elements);
+          }
+        } catch (error) {
+          // Ignore malformed reports; the page can call the binding itself
+        }
+      });
+
+      await cdp.send('Page.enable');
+      await cdp.send('Runtime.enable');
+      await cdp.send('Runtime.addBinding', { name: MEDIA_BINDING });
+      await cdp.send('Page.addScriptToEvaluateOnNewDocument', { source: MEDIA_SCRIPT });
+
+      // The current document loaded before tracking began
+      await cdp.send('Runtime.evaluate', { expression: MEDIA_SCRIPT });
+
+      console.log(`🎬 Tracking media for tab ${tabId}`);
+    } catch (error) {
+      console.error(`Failed to track media for tab ${tabId}:`, error);
+    }
+  }
+
+  async untrack(tabId: string): Promise<void> {
+    const tracked = this.pages.get(tabId);
+    if (!tracked) return;
+
+    this.pages.delete(tabId);
+    if (tracked.cdp) {
+      try {
+        await tracked.cdp.detach();
+      } catch (error) {
+        // The page may already be closed
+      }
+    }
+  }
+
+  // Carry out a command on the tab's page; rejects with the page's reason,
+  // e.g. when there is no media or the browser refuses to play
+  async command(tabId: string, command: MediaCommand): Promise<void> {
+    const tracked = this.pages.get(tabId);
+    if (!tracked?.cdp) {
+      throw new Error('Media is not available on this page');
+    }
+
+    // Playing counts as a user gesture, so autoplay rules don't block it
+    const result = await tracked.cdp.send('Runtime.evaluate', {
+      expression: `window.${MEDIA_COMMAND}(${JSON.stringify(command)})`,
+      awaitPromise: true,
+      userGesture: true
+    });
+
+    if (result.exceptionDetails) {
+      const description: string = result.exceptionDetails.exception?.description ?? result.exceptionDetails.text;
+      throw new Error(description.split('\n')[0].replace(/^\w*Error: /, ''));
+    }
+  }
+
+  private update(tabId: string, tracked: TrackedMedia, elements: MediaState['elements']): void {
+    if (this.pages.get(tabId) !== tracked) return;
+
+    const serialized = JSON.stringify(elements);
+    if (serialized === tracked.lastEmitted) return;
+
+    tracked.lastEmitted = serialized;
+    tracked.state = { elements, updatedAt: Date.now() };
+    this.listener(tabId, tracked.state);
+  }
+}
@@ -0,0 +1,230 @@
+import { BrowserType, PageState } from '../types';
+import { createCDPSession } from '../utils/cdp';
+import { DEFAULT_VIEWPORT } from './DeviceEmulation';
+
+const STATE_BINDING = '__collabPageState';
+const STATE_EMIT_INTERVAL = 100; // Coalesce bursts (e.g. scrolling) into one update
+
+// Runs in every top-level document the page loads and reports title and
+// scroll changes through the CDP binding, which Chromium has no events for
+const PAGE_STATE_SCRIPT = `(() => {
+  if (window.top !== window || window.__collabStateInstalled) return;
+  window.__collabStateInstalled = true;
+
+  let scrollTimer = null;
+  const report = () => {
+    if (typeof window.${STATE_BINDING} !== 'function') return;
+    window.${STATE_BINDING}(JSON.stringify({
+      title: document.title,
+      scrollX: Math.round(window.scrollX),
+      scrollY: Math.round(window.scrollY)
+    }));
+  };
+
+  window.addEventListener('scroll', () => {
+    if (scrollTimer) return;
+    scrollTimer = setTimeout(() => {
+      scrollTimer = null;
+      report();
+    }, 100);
+  }, { passive: true });
+
+  const watchTitle = () => {
+    new MutationObserver(report).observe(document.head || document.documentElement, {
+      subtree: true,
+      childList: true,
+      characterData: true
+    });
+    report();
+  };
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', watchTitle);
+  } else {
+    watchTitle();
+  }
+})();`;
+
+export type PageStateListener = (tabId: string, state: PageState) => void;
+
+interface TrackedPage {
+  page: any;
+  cdp: any;
+  mainFrameId: string | null;
+  state: PageState;
+  lastEmitted: string | null;
+  emitTimer: NodeJS.Timeout | null;
+}
+
+// Follows each tab's page through the DevTools protocol and reports its
+// URL, title, loading state, history and scroll position as they change
+export class PageStateTracker {
+  private pages: Map<string, TrackedPage> = new Map();
+  private listener: PageStateListener;
+
+  constructor(listener: PageStateListener) {
+    this.listener = listener;
+  }
+
+  getState(tabId: string): PageState | undefined {
+    const tracked = this.pages.get(tabId);
+    return tracked ? { ...tracked.state } : undefined;
+  }
+
+  async track(tabId: string, page: any, browserType: BrowserType): Promise<void> {
+    if (!page || this.pages.has(tabId)) return;
+
+    const tracked: TrackedPage = {
+      page,
+      cdp: null,
+      mainFrameId: null,
+      state: {
+        url: '',
+        title: '',
+        canGoBack: false,
+        canGoForward: false,
+        isLoading: false,
+        scrollPosition: { x: 0, y: 0 },
+        viewportSize: this.getViewport(page)
+      },
+      lastEmitted: null,
+      emitTimer: null
+    };
+    this.pages.set(tabId, tracked);
+
+    try {
+      const cdp = await createCDPSession(page, browserType);
+      if (this.pages.get(tabId) !== tracked) {
+        // The tab closed while the session was opening
+        await cdp.detach().catch(() => undefined);
+        return;
+      }
+      tracked.cdp = cdp;
+
+      cdp.on('Page.frameStartedLoading', (event: { frameId: string }) => {
+        if (event.frameId === tracked.mainFrameId) {
+          this.update(tabId, tracked, { isLoading: true });
+        }
+      });
+
+      cdp.on('Page.frameStoppedLoading', (event: { frameId: string }) => {
+        if (event.frameId === tracked.mainFrameId) {
+          this.update(tabId, tracked, { isLoading: false });
+          this.refreshHistory(tabId, tracked);
+        }
+      });
+
+      cdp.on('Page.frameNavigated', (event: { frame: { id: string; parentId?: string; url: string } }) => {
+        if (event.frame.parentId) return;
+
+        tracked.mainFrameId = event.frame.id;
+        this.update(tabId, tracked, { url: event.frame.url, title: '', scrollPosition: { x: 0, y: 0 } });
+        this.refreshHistory(tabId, tracked);
+      });
+
+      // pushState and hash changes in single-page apps
+      cdp.on('Page.navigatedWithinDocument', (event: { frameId: string; url: string }) => {
+        if (event.frameId === tracked.mainFrameId) {
+          this.update(tabId, tracked, { url: event.url });
+          this.refreshHistory(tabId, tracked);
+        }
+      });
+
+      cdp.on('Runtime.bindingCalled', (event: { name: string; payload: string }) => {
+        if (event.name !== STATE_BINDING) return;
+
+        try {
+          const report = JSON.parse(event.payload);
+          this.update(tabId, tracked, {
+            title: String(report.title ?? ''),
+            scrollPosition: { x: Number(report.scrollX) || 0, y: Number(report.scrollY) || 0 }
+          });
+        } catch (error) {
+          // Ignore malformed reports; the page can call the binding itself
+        }
+      });
+
+      await cdp.send('Page.enable');
+      await cdp.send('Runtime.enable');
+      await cdp.send('Runtime.addBinding', { name: STATE_BINDING });
+      await cdp.send('Page.addScriptToEvaluateOnNewDocument', { source: PAGE_STATE_SCRIPT });
+
+      const { frameTree } = await cdp.send('Page.getFrameTree');
+      tracked.mainFrameId = frameTree.frame.id;
+      this.update(tabId, tracked, { url: frameTree.frame.url });
+
+      // The current document loaded before tracking began
+      await cdp.send('Runtime.evaluate', { expression: PAGE_STATE_SCRIPT });
+      await this.refreshHistory(tabId, tracked);
+
+      console.log(`🧭 Tracking browser state for tab ${tabId}`);
+    } catch (error) {
+      console.error(`Failed to track browser state for tab ${tabId}:`, error);
+    }
+  }
+
+  async untrack(tabId: string): Promise<void> {
+    const tracked = this.pages.get(tabId);
+    if (!tracked) return;
+
+    this.pages.delete(tabId);
+    if (tracked.emitTimer) {
+      clearTimeout(tracked.emitTimer);
+    }
+
+    if (tracked.cdp) {
+      try {
+        await tracked.cdp.detach();
+      } catch (error) {
+        // The page may already be closed
+      }
+    }
+  }
+
+  // Report the page's viewport again after it was resized
+  refreshViewport(tabId: string): void {
+    const tracked = this.pages.get(tabId);
+    if (tracked) {
+      this.update(tabId, tracked, {});
+    }
+  }
+
+  // Back/forward availability and the committed title come from the history
+  private async refreshHistory(tabId: string, tracked: TrackedPage): Promise<void> {
+    try {
+      const { currentIndex, entries } = await tracked.cdp.send('Page.getNavigationHistory');
+      const entry = entries[currentIndex];
+
+      this.update(tabId, tracked, {
+        canGoBack: currentIndex > 0,
+        canGoForward: currentIndex < entries.length - 1,
+        ...(entry?.title ? { title: entry.title } : {})
+      });
+    } catch (error) {
+      // The page may be navigating or closed
+    }
+  }
+
+  private update(tabId: string, tracked: TrackedPage, changes: Partial<PageState>): void {
+    if (this.pages.get(tabId) !== tracked) return;
+
+    tracked.state = { ...tracked.state, ...changes, viewportSize: this.getViewport(tracked.page) };
+
+    if (tracked.emitTimer) return;
+    tracked.emitTimer = setTimeout(() => {
+      tracked.emitTimer = null;
+
+      const serialized = JSON.stringify(tracked.state);
+      if (serialized !== tracked.lastEmitted && this.pages.get(tabId) === tracked) {
+        tracked.lastEmitted = serialized;
+        this.listener(tabId, { ...tracked.state });
+      }
+    }, STATE_EMIT_INTERVAL);
+  }
+
+  private getViewport(page: any): { width: number; height: number } {
+    // Playwright exposes viewportSize(), Puppeteer exposes viewport()
+    const viewport = (typeof page.viewportSize === 'function' ? page.viewportSize() : page.viewport()) ?? DEFAULT_VIEWPORT;
+    return { width: viewport.width, height: viewport.height };
+  }
+}
@@ -0,0 +1,319 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { BrowserTab, BrowserType, DeviceSettings, RoomSession } from '../types';
+import { DEFAULT_DEVICE_SETTINGS, DEFAULT_VIEWPORT, DeviceEmulation, resolveDeviceSettings } from './DeviceEmulation';
+
+export const DEFAULT_URL = 'https://www.google.com';
+export const MAX_TABS = 8;
+
+type TabResult = { success: boolean; tab?: BrowserTab; error?: string };
+type DeviceResult = { success: boolean; device?: DeviceSettings; error?: string };
+
+// Emits 'session-opened' (session) once a room's page has loaded and
+// 'session-closed' (roomId) after its context is torn down. Tabs emit
+// 'tab-opened' (roomId, tab), 'tab-closed' (roomId, tabId) and
+// 'tab-activated' (roomId, tab).
+export class RoomSessionManager extends EventEmitter {
+  private browser: any = null;
+  private browserType: BrowserType = 'mock';
+  private sessions: Map<string, RoomSession> = new Map();
+  private pendingSessions: Map<string, Promise<RoomSession>> = new Map();
+  private emulation: DeviceEmulation = new DeviceEmulation();
+
+  // Use a freshly launched browser for all sessions created from now on
+  attach(browser: any, browserType: BrowserType): void {
+    this.browser = browser;
+    this.browserType = browserType;
+  }
+
+  // Get the session for a room, if one is open
+  getSession(roomId: string): RoomSession | undefined {
+    return this.sessions.get(roomId);
+  }
+
+  // Get or lazily create the isolated context and page for a room. The
+  // device only applies to a room that isn't open yet.
+  async openSession(roomId: string, initialUrl: string = DEFAULT_URL, device: DeviceSettings = DEFAULT_DEVICE_SETTINGS): Promise<RoomSession> {
+    const existing = this.sessions.get(roomId);
+    if (existing) {
+      existing.lastActivity = new Date();
+      return existing;
+    }
+
+    // Concurrent requests for the same room share one context
+    const pending = this.pendingSessions.get(roomId);
+    if (pending) return pending;
+
+    const creation = this.createSession(roomId, initialUrl, device).finally(() => {
+      this.pendingSessions.delete(roomId);
+    });
+    this.pendingSessions.set(roomId, creation);
+
+    return creation;
+  }
+
+  private async createSession(roomId: string, initialUrl: string, device: DeviceSettings): Promise<RoomSession> {
+    let context: any = null;
+
+    if (this.browser && this.browserType === 'playwright') {
+      // Each page is set up for the room's device as it opens
+      context = await this.browser.newContext({ viewport: DEFAULT_VIEWPORT });
+    } else if (this.browser && this.browserType === 'puppeteer') {
+      context = await this.browser.createIncognitoBrowserContext();
+    }
+
+    const session: RoomSession = {
+      roomId,
+      context,
+      page: null,
+      tabs: [],
+      activeTabId: '',
+      currentUrl: initialUrl,
+      device,
+      createdAt: new Date(),
+      lastActivity: new Date()
+    };
+
+    const page = context ? await this.newPage(session) : null;
+    this.activateTab(session, this.addTab(session, page));
+
+    if (page) {
+      try {
+        await page.goto(initialUrl, {
+          waitUntil: 'domcontentloaded',
+          timeout: 30000
+        });
+        session.currentUrl = page.url();
+      } catch (error) {
+        console.error(`Initial navigation failed for room ${roomId}:`, error);
+      }
+    }
+
+    this.sessions.set(roomId, session);
+    console.log(`🏠 Opened browser context for room ${roomId}`);
+    this.emit('session-opened', session);
+
+    return session;
+  }
+
+  // Open a new tab in a room and make it the active one
+  async openTab(roomId: string, url: string = DEFAULT_URL): Promise<TabResult> {
+    const session = this.sessions.get(roomId);
+    if (!session) {
+      return { success: false, error: 'Room is not open' };
+    }
+    if (!session.context) {
+      return { success: false, error: `Tabs are not available in ${this.browserType} mode` };
+    }
+    if (session.tabs.length >= MAX_TABS) {
+      return { success: false, error: `A room can have at most ${MAX_TABS} tabs` };
+    }
+
+    const page = await this.newPage(session);
+    const tab = this.addTab(session, page);
+    this.activateTab(session, tab);
+
+    try {
+      await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    } catch (error) {
+      console.error(`Navigation failed in new tab for room ${roomId}:`, error);
+    }
+
+    return { success: true, tab };
+  }
+
+  // Close a tab; the room always keeps at least one
+  async closeTab(roomId: string, tabId: string): Promise<TabResult> {
+    const session = this.sessions.get(roomId);
+    const tab = session?.tabs.find(candidate => candidate.id === tabId);
+    if (!session || !tab) {
+      return { success: false, error: 'Tab not found' };
+    }
+    if (session.tabs.length === 1) {
+      return { success: false, error: 'A room needs at least one tab' };
+    }
+
+    this.removeTab(session, tab);
+
+    try {
+      await tab.page?.close();
+    } catch (error) {
+      console.error(`Error closing tab ${tabId} in room ${roomId}:`, error);
+    }
+
+    return { success: true, tab };
+  }
+
+  // Make a tab the one everyone sees and drives
+  async switchTab(roomId: string, tabId: string): Promise<TabResult> {
+    const session = this.sessions.get(roomId);
+    const tab = session?.tabs.find(candidate => candidate.id === tabId);
+    if (!session || !tab) {
+      return { success: false, error: 'Tab not found' };
+    }
+
+    this.activateTab(session, tab);
+    return { success: true, tab };
+  }
+
+  // Change the device a room's pages are shown on, in every tab. Tabs
+  // opened later get it too.
+  async setDevice(roomId: string, changes: unknown): Promise<DeviceResult> {
+    const session = this.sessions.get(roomId);
+    if (!session) {
+      return { success: false, error: 'Room is not open' };
+    }
+
+    const { settings, error } = resolveDeviceSettings(changes, session.device);
+    if (!settings) {
+      return { success: false, error };
+    }
+
+    session.device = settings;
+    for (const tab of session.tabs) {
+      if (tab.page) {
+        await this.emulate(session, tab.page);
+      }
+    }
+
+    console.log(`📱 Room ${roomId} now emulates ${settings.preset} at ${settings.viewport.width}x${settings.viewport.height}`);
+    return { success: true, device: settings };
+  }
+
+  private async newPage(session: RoomSession): Promise<any> {
+    const page = await session.context.newPage();
+    await this.emulate(session, page);
+    return page;
+  }
+
+  // A page that can't be emulated still works as the desktop it started as
+  private async emulate(session: RoomSession, page: any): Promise<void> {
+    try {
+      await this.emulation.apply(page, this.browserType, session.device);
+    } catch (error) {
+      console.error(`Failed to emulate the device of room ${session.roomId}:`, error);
+    }
+  }
+
+  private addTab(session: RoomSession, page: any): BrowserTab {
+    const tab: BrowserTab = { id: uuidv4(), page, createdAt: new Date() };
+    session.tabs.push(tab);
+
+    if (page) {
+      // window.open and target=_blank links become tabs of the same room
+      page.on('popup', (popup: any) => {
+        this.adoptPopup(session, popup).catch((error) => {
+          console.error(`Failed to open popup as a tab in room ${session.roomId}:`, error);
+        });
+      });
+
+      // The page can close itself (window.close)
+      page.on('close', () => this.removeTab(session, tab));
+
+      if (this.browserType === 'puppeteer') {
+        page.on('error', (error: any) => {
+          console.error(`Page error in room ${session.roomId}:`, error);
+        });
+
+        page.on('pageerror', (error: any) => {
+          console.error(`Page JavaScript error in room ${session.roomId}:`, error);
+        });
+      }
+    }
+
+    this.emit('tab-opened', session.roomId, tab);
+    return tab;
+  }
+
+  private async adoptPopup(session: RoomSession, popup: any): Promise<void> {
+    if (!popup || this.sessions.get(session.roomId) !== session) return;
+
+    if (session.tabs.length >= MAX_TABS) {
+      console.log(`Closing popup in room ${session.roomId}: tab limit reached`);
+      await popup.close();
+      return;
+    }
+
+    await this.emulate(session, popup);
+
+    // Like a real browser, the popup takes focus
+    this.activateTab(session, this.addTab(session, popup));
+    console.log(`🗂️ Popup opened as a new tab in room ${session.roomId}`);
+  }
+
+  private activateTab(session: RoomSession, tab: BrowserTab): void {
+    session.activeTabId = tab.id;
+    session.page = tab.page;
+    session.lastActivity = new Date();
+
+    if (tab.page) {
+      session.currentUrl = tab.page.url();
+      // Background pages may stop painting; keep the shared one in front
+      tab.page.bringToFront().catch(() => undefined);
+    }
+
+    this.emit('tab-activated', session.roomId, tab);
+  }
+
+  private removeTab(session: RoomSession, tab: BrowserTab): void {
+    const index = session.tabs.indexOf(tab);
+    if (index === -1) return;
+
+    session.tabs.splice(index, 1);
+    this.emit('tab-closed', session.roomId, tab.id);
+
+    // Closing the whole session tears everything down on its own
+    if (this.sessions.get(session.roomId) !== session) return;
+
+    if (session.tabs.length === 0) {
+      // The last page closed itself; give the room a fresh one
+      this.openTab(session.roomId).catch((error) => {
+        console.error(`Failed to reopen a tab in room ${session.roomId}:`, error);
+      });
+    } else if (session.activeTabId === tab.id) {
+      this.activateTab(session, session.tabs[Math.max(index - 1, 0)]);
+    }
+  }
+
+  // Tear down a room's context, discarding its cookies, storage and history
+  async closeSession(roomId: string): Promise<boolean> {
+    const pending = this.pendingSessions.get(roomId);
+    if (pending) {
+      await pending.catch(() => undefined);
+    }
+
+    const session = this.sessions.get(roomId);
+    if (!session) return false;
+
+    this.sessions.delete(roomId);
+    for (const tab of Array.from(session.tabs)) {
+      this.removeTab(session, tab);
+    }
+    this.emit('session-closed', roomId);
+
+    try {
+      if (session.context) {
+        await session.context.close();
+      } else if (session.page) {
+        await session.page.close();
+      }
+    } catch (error) {
+      console.error(`Error closing browser context for room ${roomId}:`, error);
+    }
+
+    console.log(`🗑️ Closed browser context for room ${roomId}`);
+    return true;
+  }
+
+  // Close every room's context
+  async closeAll(): Promise<void> {
+    for (const roomId of Array.from(this.sessions.keys())) {
+      await this.closeSession(roomId);
+    }
+  }
+
+  // Get all open sessions
+  getSessions(): RoomSession[] {
+    return Array.from(this.sessions.values());
+  }
+}
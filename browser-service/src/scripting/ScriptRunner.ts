@@ -0,0 +1,223 @@
+import { BrowserType, ScriptLogEntry, ScriptResult } from '../types';
+import { createCDPSession } from '../utils/cdp';
+
+export const MAX_SCRIPT_LENGTH = 100000;
+
+const DEFAULT_TIMEOUT = 5000;
+const MIN_TIMEOUT = 100;
+const MAX_TIMEOUT = 30000;
+const CLEANUP_TIMEOUT = 2000;
+const RUN_KEY = '__collabScriptRun';
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+// Wraps the caller's code (an async function body) for the page. It captures
+// console output while it runs and turns the result, and anything logged,
+// into JSON the browser can hand back: functions, DOM nodes, errors, cycles
+// and very deep or large values become descriptions.
+function buildExpression(body: string): string {
+  return `(async () => {
+  const MAX_DEPTH = 4;
+  const MAX_ITEMS = 100;
+  const MAX_STRING = 10000;
+  const MAX_LOGS = 200;
+  const LEVELS = ['log', 'info', 'warn', 'error', 'debug'];
+
+  const isNode = (value) => typeof Node !== 'undefined' && value instanceof Node;
+  const typeOf = (value) => value === null ? 'null'
+    : Array.isArray(value) ? 'array'
+    : value instanceof Error ? 'error'
+    : isNode(value) ? 'node'
+    : typeof value;
+  const describeNode = (node) => {
+    if (node.nodeType !== 1) return node.nodeName + (node.textContent ? ' ' + JSON.stringify(node.textContent.slice(0, 100)) : '');
+    return '<' + node.tagName.toLowerCase() + (node.id ? '#' + node.id : '') +
+      (typeof node.className === 'string' && node.className.trim() ? '.' + node.className.trim().split(/\\s+/).join('.') : '') + '>';
+  };
+  const toJson = (value, depth, seen) => {
+    if (value === null || typeof value === 'boolean' || typeof value === 'undefined') return value;
+    if (typeof value === 'number') return Number.isFinite(value) ? value : String(value);
+    if (typeof value === 'string') return value.length > MAX_STRING ? value.slice(0, MAX_STRING) + '…' : value;
+    if (typeof value === 'bigint') return value.toString() + 'n';
+    if (typeof value === 'symbol') return value.toString();
+    if (typeof value === 'function') return '[Function ' + (value.name || 'anonymous') + ']';
+    if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+    if (isNode(value)) return describeNode(value);
+    if (value instanceof Date) return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    if (value instanceof RegExp) return String(value);
+    if (value instanceof Promise) return '[Promise]';
+    if (seen.has(value)) return '[Circular]';
+    if (depth >= MAX_DEPTH) return Array.isArray(value) ? '[Array(' + value.length + ')]' : '[Object]';
+
+    seen.add(value);
+    try {
+      if (value instanceof Map) {
+        return Array.from(value.entries()).slice(0, MAX_ITEMS).map(([key, item]) => [toJson(key, depth + 1, seen), toJson(item, depth + 1, seen)]);
+      }
+      if (Array.isArray(value) || value instanceof Set || ArrayBuffer.isView(value) ||
+          (typeof NodeList !== 'undefined' && value instanceof NodeList) ||
+          (typeof HTMLCollection !== 'undefined' && value instanceof HTMLCollection)) {
+        return Array.from(value).slice(0, MAX_ITEMS).map((item) => toJson(item, depth + 1, seen));
+      }
+
+      const result = {};
+      for (const key of Object.keys(value).slice(0, MAX_ITEMS)) {
+        try {
+          result[key] = toJson(value[key], depth + 1, seen);
+        } catch (error) {
+          result[key] = '[Threw ' + (error && error.message) + ']';
+        }
+      }
+      return result;
+    } finally {
+      // Only the path down to a value counts; the same object may appear twice side by side
+      seen.delete(value);
+    }
+  };
+  const serialize = (value) => ({ type: typeOf(value), value: toJson(value, 0, new Set()) });
+
+  // Kept on the window so a run that times out can still be cleaned up
+  const run = { logs: [], originals: {} };
+  window.${RUN_KEY} = run;
+  LEVELS.forEach((level) => {
+    const original = console[level];
+    run.originals[level] = original;
+    console[level] = function (...args) {
+      if (run.logs.length < MAX_LOGS) {
+        run.logs.push({ level, args: args.map(serialize), timestamp: Date.now() });
+      }
+      return original.apply(this, args);
+    };
+  });
+
+  try {
+    const value = await (async () => {
+${body}
+    })();
+    return { success: true, result: serialize(value), logs: run.logs };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error
+        ? { name: error.name, message: error.message, stack: error.stack }
+        : { name: 'Error', message: String(toJson(error, 0, new Set())) },
+      logs: run.logs
+    };
+  } finally {
+    LEVELS.forEach((level) => { console[level] = run.originals[level]; });
+    if (window.${RUN_KEY} === run) delete window.${RUN_KEY};
+  }
+})()`;
+}
+
+// Put back the console of a run that didn't finish and hand over what it logged
+const CLEANUP_EXPRESSION = `(() => {
+  const run = window.${RUN_KEY};
+  if (!run) return [];
+  Object.keys(run.originals).forEach((level) => { console[level] = run.originals[level]; });
+  delete window.${RUN_KEY};
+  return run.logs;
+})()`;
+
+// Runs scripts in rooms' pages for the /execute API, one at a time per room.
+// A script is an async function body, so it can await and return a value; a
+// plain expression such as `document.title` works too.
+export class ScriptRunner {
+  // Rooms with a script running
+  private running: Set<string> = new Set();
+
+  isRunning(roomId: string): boolean {
+    return this.running.has(roomId);
+  }
+
+  async run(roomId: string, page: any, browserType: BrowserType, script: string, timeout?: unknown): Promise<ScriptResult> {
+    const startedAt = Date.now();
+    const limit = this.normalizeTimeout(timeout);
+
+    let body: string;
+    try {
+      body = this.toFunctionBody(script);
+    } catch (error: any) {
+      // Don't send code that can't even be parsed, or that would break out of its wrapper
+      return { success: false, error: { name: 'SyntaxError', message: error.message }, logs: [], timedOut: false, duration: 0 };
+    }
+
+    this.running.add(roomId);
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const evaluation: Promise<ScriptResult> = page.evaluate(buildExpression(body));
+      const timedOut = new Promise<null>(resolve => {
+        timer = setTimeout(() => resolve(null), limit);
+      });
+
+      const outcome = await Promise.race([evaluation, timedOut]);
+      if (!outcome) {
+        evaluation.catch(() => undefined);
+        const logs = await this.interrupt(page, browserType);
+        return {
+          success: false,
+          error: { name: 'TimeoutError', message: `The script did not finish within ${limit}ms` },
+          logs,
+          timedOut: true,
+          duration: Date.now() - startedAt
+        };
+      }
+
+      return { ...outcome, logs: outcome.logs ?? [], timedOut: false, duration: Date.now() - startedAt };
+    } catch (error: any) {
+      // The page navigated away or closed while the script ran
+      return {
+        success: false,
+        error: { name: 'Error', message: error.message },
+        logs: [],
+        timedOut: false,
+        duration: Date.now() - startedAt
+      };
+    } finally {
+      clearTimeout(timer);
+      this.running.delete(roomId);
+    }
+  }
+
+  private normalizeTimeout(value: unknown): number {
+    const timeout = Number(value ?? DEFAULT_TIMEOUT);
+    return Number.isFinite(timeout) ? Math.min(Math.max(Math.round(timeout), MIN_TIMEOUT), MAX_TIMEOUT) : DEFAULT_TIMEOUT;
+  }
+
+  // An expression is returned as the script's value; anything else runs as
+  // the body of an async function. Parsing here throws on a syntax error.
+  private toFunctionBody(script: string): string {
+    const expression = `return (${script}\n);`;
+    try {
+      new AsyncFunction(expression);
+      return expression;
+    } catch (error) {
+      new AsyncFunction(script);
+      return script;
+    }
+  }
+
+  // Stop a script that is still running, e.g. stuck in a loop, so the page
+  // responds again, then collect whatever it logged
+  private async interrupt(page: any, browserType: BrowserType): Promise<ScriptLogEntry[]> {
+    try {
+      const cdp = await createCDPSession(page, browserType);
+      try {
+        await cdp.send('Runtime.terminateExecution');
+      } finally {
+        await cdp.detach().catch(() => undefined);
+      }
+    } catch (error) {
+      console.error('Failed to stop a timed out script:', error);
+    }
+
+    try {
+      return await Promise.race([
+        page.evaluate(CLEANUP_EXPRESSION),
+        new Promise<ScriptLogEntry[]>(resolve => setTimeout(() => resolve([]), CLEANUP_TIMEOUT))
+      ]);
+    } catch (error) {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { ChildProcess, spawn } from 'child_process';
+
+export const AUDIO_SAMPLE_RATE = 48000;
+export const AUDIO_CHANNELS = 2;
+// wrtc's RTCAudioSource takes exactly 10ms of audio per call
+export const AUDIO_CHUNK_MS = 10;
+
+const BYTES_PER_SAMPLE = 2;
+const CHUNK_BYTES = (AUDIO_SAMPLE_RATE / 1000) * AUDIO_CHUNK_MS * AUDIO_CHANNELS * BYTES_PER_SAMPLE;
+
+// A 10ms chunk of interleaved s16le PCM and the wall-clock time (ms) its first
+// sample was played, on the same clock as screencast frame timestamps
+export type AudioListener = (chunk: Buffer, timestamp: number) => void;
+
+// Records what the browser plays. Chromium outputs to a PulseAudio null sink
+// (see docker-entrypoint.sh); parec reads the sink's monitor source and the
+// PCM is cut into 10ms chunks for listeners. The recorder only runs while
+// someone is listening.
+export class AudioCapture {
+  private device: string;
+  private listeners: Set<AudioListener> = new Set();
+  private recorder: ChildProcess | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private available: boolean = true;
+  private restartTimer: NodeJS.Timeout | null = null;
+
+  constructor(sink: string) {
+    this.device = `${sink}.monitor`;
+  }
+
+  isAvailable(): boolean {
+    return this.available;
+  }
+
+  // Listen for audio; returns a function that stops listening
+  subscribe(listener: AudioListener): () => void {
+    this.listeners.add(listener);
+    this.start();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  stop(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    const recorder = this.recorder;
+    this.recorder = null;
+    this.buffer = Buffer.alloc(0);
+    recorder?.kill();
+  }
+
+  private start(): void {
+    if (this.recorder || !this.available || this.listeners.size === 0) return;
+
+    const recorder = spawn('parec', [
+      `--device=${this.device}`,
+      '--format=s16le',
+      `--rate=${AUDIO_SAMPLE_RATE}`,
+      `--channels=${AUDIO_CHANNELS}`,
+      '--latency-msec=20',
+      '--raw'
+    ], { stdio: ['ignore', 'pipe', 'pipe'] });
+    this.recorder = recorder;
+
+    recorder.stdout?.on('data', (data: Buffer) => this.handleData(data));
+
+    recorder.stderr?.on('data', (data: Buffer) => {
+      console.error(`parec: ${data.toString().trim()}`);
+    });
+
+    recorder.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        // No PulseAudio tools installed; stream video only
+        this.available = false;
+        console.log('Audio capture not available (parec not found), streaming video only');
+      } else {
+        console.error('❌ Audio capture failed:', error);
+      }
+    });
+
+    recorder.on('exit', (code) => {
+      if (this.recorder !== recorder) return;
+      this.recorder = null;
+
+      // parec exits if PulseAudio restarts; try again while people are listening
+      if (this.available && this.listeners.size > 0) {
+        console.log(`🔈 Audio capture exited (${code}), restarting`);
+        this.restartTimer = setTimeout(() => {
+          this.restartTimer = null;
+          this.start();
+        }, 1000);
+      }
+    });
+
+    console.log(`🔈 Audio capture started from ${this.device}`);
+  }
+
+  private handleData(data: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, data]) : data;
+
+    const chunks = Math.floor(this.buffer.length / CHUNK_BYTES);
+    if (chunks === 0) return;
+
+    // The newest sample was played just now; date each chunk back from it
+    const now = Date.now();
+    const buffered = this.buffer.length / CHUNK_BYTES;
+
+    for (let i = 0; i < chunks; i++) {
+      const chunk = this.buffer.subarray(i * CHUNK_BYTES, (i + 1) * CHUNK_BYTES);
+      const timestamp = now - (buffered - i) * AUDIO_CHUNK_MS;
+
+      for (const listener of this.listeners) {
+        listener(chunk, timestamp);
+      }
+    }
+
+    this.buffer = Buffer.from(this.buffer.subarray(chunks * CHUNK_BYTES));
+  }
+}
@@ -0,0 +1,47 @@
+import { AUDIO_CHANNELS, AUDIO_CHUNK_MS, AUDIO_SAMPLE_RATE } from './AudioCapture';
+
+// Publishes captured PCM as WebRTC audio tracks through wrtc's RTCAudioSource.
+// Like the video publisher, one source feeds every viewer's track.
+export class AudioTrackPublisher {
+  private source: any;
+  private tracks: Set<any> = new Set();
+
+  constructor(wrtc: any) {
+    this.source = new wrtc.nonstandard.RTCAudioSource();
+  }
+
+  // A new track on the shared source, for one viewer's peer connection
+  createTrack(): any {
+    const track = this.source.createTrack();
+    this.tracks.add(track);
+    return track;
+  }
+
+  removeTrack(track: any): void {
+    if (this.tracks.delete(track)) {
+      track.stop();
+    }
+  }
+
+  // Push one 10ms chunk of interleaved s16le PCM
+  pushPcm(chunk: Buffer): void {
+    // Copy so the samples are aligned for Int16Array
+    const samples = new Int16Array(chunk.length / 2);
+    Buffer.from(samples.buffer).set(chunk);
+
+    this.source.onData({
+      samples,
+      sampleRate: AUDIO_SAMPLE_RATE,
+      bitsPerSample: 16,
+      channelCount: AUDIO_CHANNELS,
+      numberOfFrames: (AUDIO_SAMPLE_RATE / 1000) * AUDIO_CHUNK_MS
+    });
+  }
+
+  stop(): void {
+    for (const track of this.tracks) {
+      track.stop();
+    }
+    this.tracks.clear();
+  }
+}
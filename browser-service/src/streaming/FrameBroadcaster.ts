@@ -0,0 +1,307 @@
+import { BrowserType, ScreencastFrameMetadata, StreamSettings } from '../types';
+import { AudioCapture } from './AudioCapture';
+import { AudioTrackPublisher } from './AudioTrackPublisher';
+import { DEFAULT_STREAM_SETTINGS, FrameSink, ScreencastStream, normalizeStreamSettings } from './ScreencastStream';
+import { VideoTrackPublisher } from './VideoTrackPublisher';
+
+// Audio goes over Socket.IO in packets of this many 10ms chunks
+const AUDIO_PACKET_CHUNKS = 5;
+
+export interface FrameSubscription {
+  // Deliver a frame over Socket.IO; resolves once the client acks or times out
+  deliver: FrameSink;
+  // Deliver a packet of PCM over Socket.IO, timestamped like the frames
+  deliverAudio: (audio: Buffer, timestamp: number) => void;
+  // Whether the client currently receives the shared WebRTC track instead
+  usesVideoTrack: () => boolean;
+}
+
+interface Subscriber extends FrameSubscription {
+  settings: StreamSettings;
+  busy: boolean;
+  closed: boolean;
+  lastSentAt: number;
+  pending: { frame: Buffer; metadata: ScreencastFrameMetadata } | null;
+  flushTimer: NodeJS.Timeout | null;
+}
+
+// Captures a room's page once and fans every frame out to all of its viewers.
+// Capture runs at the highest fps and quality any viewer asked for; each
+// viewer is then throttled to its own fps. A viewer that is still acking a
+// frame only keeps the newest one waiting, so one slow client never holds back
+// capture or the rest of the room. WebRTC viewers share one video source, so
+// each frame is decoded and converted once no matter how many peers watch.
+// The browser's audio is fanned out the same way while the room is captured.
+export class FrameBroadcaster {
+  private stream: ScreencastStream;
+  private browserType: BrowserType;
+  private video: VideoTrackPublisher | null;
+  private audio: AudioCapture | null;
+  private audioTrack: AudioTrackPublisher | null;
+  private stopAudio: (() => void) | null = null;
+  private audioPacket: { chunks: Buffer[]; timestamp: number } | null = null;
+  private subscribers: Map<string, Subscriber> = new Map();
+  private lastFrame: { frame: Buffer; metadata: ScreencastFrameMetadata } | null = null;
+  private capturing: boolean = false;
+
+  constructor(page: any, browserType: BrowserType, wrtc: any = null, audio: AudioCapture | null = null) {
+    this.browserType = browserType;
+    this.stream = this.createStream(page);
+    this.video = wrtc ? new VideoTrackPublisher(wrtc) : null;
+    this.audio = audio;
+    this.audioTrack = wrtc && audio ? new AudioTrackPublisher(wrtc) : null;
+  }
+
+  hasSubscriber(clientId: string): boolean {
+    return this.subscribers.has(clientId);
+  }
+
+  isIdle(): boolean {
+    return this.subscribers.size === 0;
+  }
+
+  getSettings(clientId: string): StreamSettings | null {
+    const subscriber = this.subscribers.get(clientId);
+    return subscriber ? { ...subscriber.settings } : null;
+  }
+
+  // Add a viewer; the first one starts capture
+  async subscribe(clientId: string, subscription: FrameSubscription, settings: Partial<StreamSettings> = {}): Promise<void> {
+    if (this.subscribers.has(clientId)) {
+      await this.updateSettings(clientId, settings);
+      return;
+    }
+
+    const subscriber: Subscriber = {
+      ...subscription,
+      settings: normalizeStreamSettings(settings),
+      busy: false,
+      closed: false,
+      lastSentAt: 0,
+      pending: null,
+      flushTimer: null
+    };
+    this.subscribers.set(clientId, subscriber);
+
+    await this.retune();
+
+    if (!this.capturing) {
+      this.capturing = true;
+      this.stopAudio = this.audio ? this.audio.subscribe((chunk, timestamp) => this.broadcastAudio(chunk, timestamp)) : null;
+      await this.stream.start();
+    } else if (this.lastFrame && !subscriber.usesVideoTrack()) {
+      // Capture only emits on change, so paint the latest frame for late joiners
+      this.offer(subscriber, this.lastFrame.frame, this.lastFrame.metadata);
+    }
+  }
+
+  async updateSettings(clientId: string, settings: Partial<StreamSettings>): Promise<void> {
+    const subscriber = this.subscribers.get(clientId);
+    if (!subscriber) return;
+
+    subscriber.settings = normalizeStreamSettings(settings, subscriber.settings);
+    await this.retune();
+  }
+
+  // Remove a viewer; the last one to leave stops capture
+  async unsubscribe(clientId: string): Promise<void> {
+    const subscriber = this.subscribers.get(clientId);
+    if (!subscriber) return;
+
+    this.subscribers.delete(clientId);
+    this.closeSubscriber(subscriber);
+
+    if (this.subscribers.size === 0) {
+      await this.stopCapture();
+    } else {
+      await this.retune();
+    }
+  }
+
+  // Tracks on the room's shared video and audio sources, for one peer
+  // connection; empty without wrtc
+  createTracks(): any[] {
+    if (!this.video) return [];
+
+    const tracks = [this.video.createTrack()];
+    if (this.audioTrack) {
+      tracks.push(this.audioTrack.createTrack());
+    }
+    return tracks;
+  }
+
+  releaseTracks(tracks: any[]): void {
+    for (const track of tracks) {
+      if (track.kind === 'audio') {
+        this.audioTrack?.removeTrack(track);
+      } else {
+        this.video?.removeTrack(track);
+      }
+    }
+  }
+
+  // Capture a different page (the room switched tabs) for the same viewers
+  async setPage(page: any): Promise<void> {
+    const previous = this.stream;
+    this.stream = this.createStream(page, previous.getSettings());
+    this.lastFrame = null;
+
+    await previous.stop();
+    if (this.capturing) {
+      await this.stream.start();
+    }
+  }
+
+  // Send the current page again, e.g. once a new WebRTC peer connects
+  async refresh(): Promise<void> {
+    await this.stream.refresh();
+  }
+
+  async stop(): Promise<void> {
+    for (const subscriber of this.subscribers.values()) {
+      this.closeSubscriber(subscriber);
+    }
+    this.subscribers.clear();
+
+    await this.stopCapture();
+    this.video?.stop();
+    this.audioTrack?.stop();
+  }
+
+  private async stopCapture(): Promise<void> {
+    this.capturing = false;
+    this.lastFrame = null;
+    this.stopAudio?.();
+    this.stopAudio = null;
+    this.audioPacket = null;
+    await this.stream.stop();
+  }
+
+  private createStream(page: any, settings?: StreamSettings): ScreencastStream {
+    const stream: ScreencastStream = new ScreencastStream(page, this.browserType, (frame, metadata) => {
+      // Drop frames still in flight from a page we switched away from
+      return stream === this.stream ? this.broadcast(frame, metadata) : Promise.resolve();
+    }, settings);
+    return stream;
+  }
+
+  // Capture at the most demanding viewer's settings
+  private async retune(): Promise<void> {
+    if (this.subscribers.size === 0) return;
+
+    const settings = Array.from(this.subscribers.values()).reduce<StreamSettings>(
+      (max, { settings: next }) => ({
+        fps: Math.max(max.fps, next.fps),
+        quality: Math.max(max.quality, next.quality)
+      }),
+      { fps: 0, quality: 0 }
+    );
+
+    await this.stream.updateSettings(settings.fps ? settings : DEFAULT_STREAM_SETTINGS);
+  }
+
+  private async broadcast(frame: Buffer, metadata: ScreencastFrameMetadata): Promise<void> {
+    this.lastFrame = { frame, metadata };
+
+    let videoViewers = false;
+    for (const subscriber of this.subscribers.values()) {
+      if (subscriber.usesVideoTrack()) {
+        videoViewers = true;
+      } else {
+        this.offer(subscriber, frame, metadata);
+      }
+    }
+
+    if (videoViewers && this.video) {
+      try {
+        this.video.pushJpeg(frame);
+      } catch (error) {
+        console.error('Error publishing video frame:', error);
+      }
+    }
+  }
+
+  private broadcastAudio(chunk: Buffer, timestamp: number): void {
+    let socketViewers = false;
+    let videoViewers = false;
+    for (const subscriber of this.subscribers.values()) {
+      if (subscriber.usesVideoTrack()) {
+        videoViewers = true;
+      } else {
+        socketViewers = true;
+      }
+    }
+
+    if (videoViewers && this.audioTrack) {
+      try {
+        this.audioTrack.pushPcm(chunk);
+      } catch (error) {
+        console.error('Error publishing audio chunk:', error);
+      }
+    }
+
+    if (!socketViewers) {
+      this.audioPacket = null;
+      return;
+    }
+
+    // Batch chunks into one packet that every Socket.IO viewer shares
+    if (!this.audioPacket) {
+      this.audioPacket = { chunks: [], timestamp };
+    }
+    this.audioPacket.chunks.push(chunk);
+    if (this.audioPacket.chunks.length < AUDIO_PACKET_CHUNKS) return;
+
+    const packet = Buffer.concat(this.audioPacket.chunks);
+    const packetTimestamp = this.audioPacket.timestamp;
+    this.audioPacket = null;
+
+    for (const subscriber of this.subscribers.values()) {
+      if (!subscriber.closed && !subscriber.usesVideoTrack()) {
+        subscriber.deliverAudio(packet, packetTimestamp);
+      }
+    }
+  }
+
+  // Queue a frame for one viewer, replacing any older frame it hasn't been sent yet
+  private offer(subscriber: Subscriber, frame: Buffer, metadata: ScreencastFrameMetadata): void {
+    subscriber.pending = { frame, metadata };
+    this.flush(subscriber);
+  }
+
+  private flush(subscriber: Subscriber): void {
+    if (subscriber.closed || subscriber.busy || subscriber.flushTimer || !subscriber.pending) return;
+
+    const wait = 1000 / subscriber.settings.fps - (Date.now() - subscriber.lastSentAt);
+    if (wait > 0) {
+      subscriber.flushTimer = setTimeout(() => {
+        subscriber.flushTimer = null;
+        this.flush(subscriber);
+      }, wait);
+      return;
+    }
+
+    const { frame, metadata } = subscriber.pending;
+    subscriber.pending = null;
+    subscriber.busy = true;
+    subscriber.lastSentAt = Date.now();
+
+    subscriber.deliver(frame, metadata)
+      .catch((error) => {
+        console.error('Error delivering screencast frame:', error);
+      })
+      .finally(() => {
+        subscriber.busy = false;
+        this.flush(subscriber);
+      });
+  }
+
+  private closeSubscriber(subscriber: Subscriber): void {
+    subscriber.closed = true;
+    subscriber.pending = null;
+    if (subscriber.flushTimer) {
+      clearTimeout(subscriber.flushTimer);
+      subscriber.flushTimer = null;
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { DEFAULT_VIEWPORT } from '../room/DeviceEmulation';
+import { BrowserType, ScreencastFrameMetadata, StreamSettings } from '../types';
+import { createCDPSession } from '../utils/cdp';
+
+export const DEFAULT_STREAM_SETTINGS: StreamSettings = { fps: 15, quality: 70 };
+
+const MIN_FPS = 1;
+const MAX_FPS = 30;
+const MIN_QUALITY = 10;
+const MAX_QUALITY = 100;
+
+export type FrameSink = (frame: Buffer, metadata: ScreencastFrameMetadata) => Promise<void>;
+
+// Clamp client-supplied settings into a range Chromium and the wire can handle
+export function normalizeStreamSettings(settings: Partial<StreamSettings> = {}, base: StreamSettings = DEFAULT_STREAM_SETTINGS): StreamSettings {
+  const fps = Number(settings.fps ?? base.fps);
+  const quality = Number(settings.quality ?? base.quality);
+
+  return {
+    fps: Math.round(Math.min(Math.max(isFinite(fps) ? fps : base.fps, MIN_FPS), MAX_FPS)),
+    quality: Math.round(Math.min(Math.max(isFinite(quality) ? quality : base.quality, MIN_QUALITY), MAX_QUALITY))
+  };
+}
+
+// Streams a page as JPEG frames using Chromium's Page.startScreencast.
+// Chromium only produces a frame when the page changes and waits for an ack
+// before producing the next one; the ack is held until the sink has delivered
+// the frame and the frame interval has elapsed, so a slow client or the fps
+// cap throttles capture instead of queueing frames.
+export class ScreencastStream {
+  private page: any;
+  private browserType: BrowserType;
+  private sink: FrameSink;
+  private settings: StreamSettings;
+  private cdp: any = null;
+  private running: boolean = false;
+  private lastFrameAt: number = 0;
+  private lastFrameData: string | null = null;
+
+  constructor(page: any, browserType: BrowserType, sink: FrameSink, settings?: Partial<StreamSettings>) {
+    this.page = page;
+    this.browserType = browserType;
+    this.sink = sink;
+    this.settings = normalizeStreamSettings(settings);
+  }
+
+  getSettings(): StreamSettings {
+    return { ...this.settings };
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    if (!this.cdp) {
+      this.cdp = await createCDPSession(this.page, this.browserType);
+      this.cdp.on('Page.screencastFrame', (event: { data: string; metadata: ScreencastFrameMetadata; sessionId: number }) => {
+        this.handleFrame(event);
+      });
+    }
+
+    // Playwright exposes viewportSize(), Puppeteer exposes viewport()
+    const viewport = (typeof this.page.viewportSize === 'function' ? this.page.viewportSize() : this.page.viewport()) ?? DEFAULT_VIEWPORT;
+
+    await this.cdp.send('Page.startScreencast', {
+      format: 'jpeg',
+      quality: this.settings.quality,
+      maxWidth: viewport.width,
+      maxHeight: viewport.height,
+      everyNthFrame: 1
+    });
+
+    this.running = true;
+    // Force the next frame through so a (re)started stream paints immediately
+    this.lastFrameData = null;
+  }
+
+  // Apply new fps/quality; quality is baked into the screencast so changing it restarts capture
+  async updateSettings(settings: Partial<StreamSettings>): Promise<void> {
+    const next = normalizeStreamSettings(settings, this.settings);
+    const qualityChanged = next.quality !== this.settings.quality;
+    this.settings = next;
+
+    if (qualityChanged && this.running) {
+      await this.stopScreencast();
+      await this.start();
+    }
+  }
+
+  // Restart capture so the current page is sent again even if nothing changed
+  async refresh(): Promise<void> {
+    if (!this.running) return;
+
+    await this.stopScreencast();
+    await this.start();
+  }
+
+  async stop(): Promise<void> {
+    await this.stopScreencast();
+
+    if (this.cdp) {
+      try {
+        await this.cdp.detach();
+      } catch (error) {
+        // The page may already be closed
+      }
+      this.cdp = null;
+    }
+  }
+
+  private async stopScreencast(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    try {
+      await this.cdp.send('Page.stopScreencast');
+    } catch (error) {
+      // The page may already be closed
+    }
+  }
+
+  private async handleFrame(event: { data: string; metadata: ScreencastFrameMetadata; sessionId: number }): Promise<void> {
+    try {
+      // Chromium can resend an identical frame (e.g. after a restart); skip it
+      if (event.data !== this.lastFrameData) {
+        this.lastFrameData = event.data;
+        await this.sink(Buffer.from(event.data, 'base64'), event.metadata);
+      }
+
+      const wait = 1000 / this.settings.fps - (Date.now() - this.lastFrameAt);
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+    } catch (error) {
+      console.error('Error delivering screencast frame:', error);
+    } finally {
+      this.lastFrameAt = Date.now();
+
+      if (this.running && this.cdp) {
+        this.cdp.send('Page.screencastFrameAck', { sessionId: event.sessionId }).catch(() => undefined);
+      }
+    }
+  }
+}
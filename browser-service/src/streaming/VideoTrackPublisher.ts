@@ -0,0 +1,69 @@
+import jpeg from 'jpeg-js';
+
+// Publishes screencast frames as WebRTC video tracks. Frames arrive as JPEG
+// from Chromium, are decoded to RGBA and converted to the I420 layout that
+// wrtc's RTCVideoSource expects. Everything runs on the CPU, so no GPU is needed.
+// One source feeds every viewer's track, so each frame is converted only once.
+export class VideoTrackPublisher {
+  private nonstandard: any;
+  private source: any;
+  private tracks: Set<any> = new Set();
+
+  constructor(wrtc: any) {
+    this.nonstandard = wrtc.nonstandard;
+    this.source = new wrtc.nonstandard.RTCVideoSource({ isScreencast: true });
+  }
+
+  // A new track on the shared source, for one viewer's peer connection
+  createTrack(): any {
+    const track = this.source.createTrack();
+    this.tracks.add(track);
+    return track;
+  }
+
+  removeTrack(track: any): void {
+    if (this.tracks.delete(track)) {
+      track.stop();
+    }
+  }
+
+  hasTracks(): boolean {
+    return this.tracks.size > 0;
+  }
+
+  pushJpeg(frame: Buffer): void {
+    const decoded = jpeg.decode(frame, { useTArray: true, formatAsRGBA: true });
+
+    // I420 subsamples chroma 2x2, so both dimensions must be even
+    const width = decoded.width & ~1;
+    const height = decoded.height & ~1;
+    if (width === 0 || height === 0) return;
+
+    const rgba = this.cropRgba(decoded.data, decoded.width, width, height);
+    const i420 = new Uint8ClampedArray(width * height * 1.5);
+
+    this.nonstandard.rgbaToI420({ width, height, data: rgba }, { width, height, data: i420 });
+    this.source.onFrame({ width, height, data: i420 });
+  }
+
+  stop(): void {
+    for (const track of this.tracks) {
+      track.stop();
+    }
+    this.tracks.clear();
+  }
+
+  // Drop the odd trailing column/row, if any
+  private cropRgba(data: Uint8Array, sourceWidth: number, width: number, height: number): Uint8ClampedArray {
+    if (sourceWidth === width && data.length === width * height * 4) {
+      return new Uint8ClampedArray(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    const cropped = new Uint8ClampedArray(width * height * 4);
+    for (let row = 0; row < height; row++) {
+      const start = row * sourceWidth * 4;
+      cropped.set(data.subarray(start, start + width * 4), row * width * 4);
+    }
+    return cropped;
+  }
+}
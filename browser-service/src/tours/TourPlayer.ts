@@ -0,0 +1,349 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { PageAutomation } from '../automation/PageAutomation';
+import { BrowserType, Tour, TourState, TourStep } from '../types';
+
+// YAML is optional; without it tours have to be JSON
+let yaml: any = null;
+try {
+  yaml = require('js-yaml');
+} catch (error) {
+  console.log('js-yaml not available, tours must be written in JSON');
+}
+
+export type TourCommand = 'pause' | 'resume' | 'skip' | 'stop';
+export const TOUR_COMMANDS: TourCommand[] = ['pause', 'resume', 'skip', 'stop'];
+
+export const MAX_TOUR_SOURCE_LENGTH = 64 * 1024;
+const MAX_STEPS = 200;
+const MAX_TITLE_LENGTH = 200;
+const MAX_CAPTION_LENGTH = 500;
+const MAX_PAUSE = 10 * 60 * 1000;
+const STEP_TYPES: TourStep['type'][] = ['navigate', 'wait', 'click', 'scroll', 'pause'];
+
+// What the player needs from the service to drive a room's page
+export interface TourDriver {
+  navigate(roomId: string, url: string): Promise<void>;
+  // The room's active page, or null if it has none
+  getPage(roomId: string): any | null;
+  getBrowserType(): BrowserType;
+}
+
+interface RunningTour {
+  tour: Tour;
+  state: TourState;
+  // Bumped whenever the current step is left behind, so a step that
+  // finishes after being skipped is ignored
+  generation: number;
+  // Whether the current step is being performed
+  running: boolean;
+  pauseTimer: NodeJS.Timeout | null;
+  // What was left of a timed pause step when the host paused the tour
+  pauseRemaining: number | null;
+}
+
+// Read a tour from JSON or YAML text (or an already parsed object). Throws
+// an error saying what is wrong with it, and which step.
+export function parseTour(source: unknown): Tour {
+  let data: any = source;
+  if (typeof source === 'string') {
+    if (source.length > MAX_TOUR_SOURCE_LENGTH) {
+      throw new Error('The tour is too long');
+    }
+    try {
+      data = yaml ? yaml.load(source) : JSON.parse(source);
+    } catch (error: any) {
+      throw new Error(`The tour could not be read: ${String(error.message).split('\n')[0]}`);
+    }
+  }
+
+  // A bare list of steps is a tour too
+  if (Array.isArray(data)) {
+    data = { steps: data };
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray(data.steps)) {
+    throw new Error('A tour needs a list of steps');
+  }
+  if (data.steps.length === 0 || data.steps.length > MAX_STEPS) {
+    throw new Error(`A tour needs between 1 and ${MAX_STEPS} steps`);
+  }
+
+  return {
+    title: typeof data.title === 'string' && data.title.trim() ? data.title.trim().slice(0, MAX_TITLE_LENGTH) : 'Tour',
+    steps: data.steps.map((step: unknown, index: number) => parseStep(step, index + 1))
+  };
+}
+
+function parseStep(raw: any, number: number): TourStep {
+  const fail = (message: string): never => {
+    throw new Error(`Step ${number} ${message}`);
+  };
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    fail('is not a step');
+  }
+  if (!STEP_TYPES.includes(raw.type)) {
+    fail(`has an unknown type; use ${STEP_TYPES.join(', ')}`);
+  }
+
+  if (raw.caption !== undefined && typeof raw.caption !== 'string') {
+    fail('has a caption that is not text');
+  }
+  const caption = raw.caption?.trim() ? raw.caption.trim().slice(0, MAX_CAPTION_LENGTH) : undefined;
+
+  if (raw.timeout !== undefined && !(typeof raw.timeout === 'number' && raw.timeout > 0)) {
+    fail('has a timeout that is not a positive number of milliseconds');
+  }
+  const selector = typeof raw.selector === 'string' && raw.selector.trim() ? raw.selector : undefined;
+
+  switch (raw.type as TourStep['type']) {
+    case 'navigate':
+      if (typeof raw.url !== 'string' || !/^https?:\/\//i.test(raw.url)) {
+        fail('needs an http or https url');
+      }
+      return { type: 'navigate', url: raw.url, caption };
+    case 'wait':
+      if (!selector && raw.networkIdle !== true) {
+        fail('needs a selector or networkIdle: true');
+      }
+      return { type: 'wait', selector, networkIdle: raw.networkIdle === true, timeout: raw.timeout, caption };
+    case 'click':
+    case 'scroll':
+      if (!selector) {
+        fail('needs a selector');
+      }
+      return { type: raw.type, selector: selector!, timeout: raw.timeout, caption };
+    case 'pause':
+      if (raw.duration !== undefined && !(typeof raw.duration === 'number' && raw.duration > 0 && raw.duration <= MAX_PAUSE)) {
+        fail(`has a duration that is not between 0 and ${MAX_PAUSE} milliseconds`);
+      }
+      return { type: 'pause', duration: raw.duration, caption };
+  }
+}
+
+// Plays tours on rooms' pages, one per room, driving the page through the
+// same automation as the HTTP API. Emits 'tour-changed' (roomId, state)
+// whenever a tour moves on, pauses or fails a step, with state null once it
+// finishes or is stopped.
+export class TourPlayer extends EventEmitter {
+  private driver: TourDriver;
+  private automation: PageAutomation;
+  // Room id -> the tour playing in it
+  private tours: Map<string, RunningTour> = new Map();
+
+  constructor(driver: TourDriver, automation: PageAutomation) {
+    super();
+    this.driver = driver;
+    this.automation = automation;
+  }
+
+  getState(roomId: string): TourState | null {
+    const run = this.tours.get(roomId);
+    return run ? { ...run.state } : null;
+  }
+
+  start(roomId: string, source: unknown, startedBy: string): TourState {
+    if (this.tours.has(roomId)) {
+      throw new Error('A tour is already running in this room');
+    }
+
+    const tour = parseTour(source);
+    const run: RunningTour = {
+      tour,
+      state: {
+        id: uuidv4(),
+        title: tour.title,
+        startedBy,
+        status: 'playing',
+        stepIndex: 0,
+        stepCount: tour.steps.length,
+        step: tour.steps[0],
+        caption: tour.steps[0].caption ?? null,
+        pauseEndsAt: null,
+        error: null
+      },
+      generation: 0,
+      running: false,
+      pauseTimer: null,
+      pauseRemaining: null
+    };
+    this.tours.set(roomId, run);
+
+    console.log(`🧭 Playing tour "${tour.title}" in room ${roomId} (${tour.steps.length} steps)`);
+    this.runStep(roomId, run);
+    return { ...run.state };
+  }
+
+  // The host's controls; returns why the command can't be carried out, if it can't
+  command(roomId: string, command: TourCommand): string | null {
+    const run = this.tours.get(roomId);
+    if (!run) {
+      return 'No tour is running in this room';
+    }
+
+    switch (command) {
+      case 'pause':
+        if (run.state.status === 'playing') {
+          run.state.status = 'paused';
+          // A timed pause step picks up where it was
+          if (run.pauseTimer && run.state.pauseEndsAt !== null) {
+            run.pauseRemaining = Math.max(run.state.pauseEndsAt - Date.now(), 0);
+          }
+          this.clearPauseTimer(run);
+          this.emitState(roomId, run);
+        }
+        break;
+      case 'resume':
+        if (run.state.status === 'paused') {
+          run.state.status = 'playing';
+          if (run.pauseRemaining !== null) {
+            const remaining = run.pauseRemaining;
+            run.pauseRemaining = null;
+            this.startPauseTimer(roomId, run, remaining);
+            this.emitState(roomId, run);
+          } else if (run.running) {
+            // The step under way moves on by itself when it's done
+            this.emitState(roomId, run);
+          } else {
+            // The step failed, or the tour was paused before it began
+            this.runStep(roomId, run);
+          }
+        }
+        break;
+      case 'skip':
+        this.advance(roomId, run);
+        break;
+      case 'stop':
+        this.stop(roomId);
+        break;
+    }
+    return null;
+  }
+
+  stop(roomId: string): void {
+    const run = this.tours.get(roomId);
+    if (!run) return;
+
+    this.clearPauseTimer(run);
+    run.generation++;
+    this.tours.delete(roomId);
+    console.log(`🧭 Tour "${run.tour.title}" in room ${roomId} stopped`);
+    this.emit('tour-changed', roomId, null);
+  }
+
+  stopAll(): void {
+    for (const roomId of Array.from(this.tours.keys())) {
+      this.stop(roomId);
+    }
+  }
+
+  private async runStep(roomId: string, run: RunningTour): Promise<void> {
+    const generation = ++run.generation;
+    const step = run.tour.steps[run.state.stepIndex];
+    this.showStep(run);
+
+    // A pause step only shows its caption, for a while or until skipped
+    if (step.type === 'pause') {
+      run.running = false;
+      if (step.duration) {
+        this.startPauseTimer(roomId, run, step.duration);
+      }
+      this.emitState(roomId, run);
+      return;
+    }
+
+    run.running = true;
+    this.emitState(roomId, run);
+
+    let error: string | null;
+    try {
+      error = await this.perform(roomId, step);
+    } catch (failure: any) {
+      error = failure.message;
+    }
+
+    // Stopped or skipped in the meantime
+    if (this.tours.get(roomId) !== run || run.generation !== generation) return;
+    run.running = false;
+
+    if (error) {
+      console.log(`🧭 Step ${run.state.stepIndex + 1} of tour "${run.tour.title}" in room ${roomId} failed: ${error}`);
+      run.state.status = 'paused';
+      run.state.error = error;
+      this.emitState(roomId, run);
+      return;
+    }
+
+    this.advance(roomId, run);
+  }
+
+  // Move on to the next step, and run it unless the tour is paused
+  private advance(roomId: string, run: RunningTour): void {
+    this.clearPauseTimer(run);
+    run.pauseRemaining = null;
+    run.generation++;
+    run.running = false;
+
+    if (run.state.stepIndex + 1 >= run.state.stepCount) {
+      this.tours.delete(roomId);
+      console.log(`🧭 Tour "${run.tour.title}" in room ${roomId} finished`);
+      this.emit('tour-changed', roomId, null);
+      return;
+    }
+
+    run.state.stepIndex++;
+    if (run.state.status === 'playing') {
+      this.runStep(roomId, run);
+    } else {
+      // Waits for the host to resume
+      this.showStep(run);
+      this.emitState(roomId, run);
+    }
+  }
+
+  // Returns the step's error, or null if it went through
+  private async perform(roomId: string, step: Exclude<TourStep, { type: 'pause' }>): Promise<string | null> {
+    if (step.type === 'navigate') {
+      await this.driver.navigate(roomId, step.url);
+      return null;
+    }
+
+    const page = this.driver.getPage(roomId);
+    if (!page) {
+      return 'The room has no page to drive';
+    }
+
+    const result = await this.automation.run(roomId, step.type, page, this.driver.getBrowserType(), step);
+    return result.success ? null : result.error!.message;
+  }
+
+  private showStep(run: RunningTour): void {
+    const step = run.tour.steps[run.state.stepIndex];
+    run.state.step = step;
+    run.state.caption = step.caption ?? null;
+    run.state.pauseEndsAt = null;
+    run.state.error = null;
+  }
+
+  private startPauseTimer(roomId: string, run: RunningTour, duration: number): void {
+    run.state.pauseEndsAt = Date.now() + duration;
+    run.pauseTimer = setTimeout(() => {
+      run.pauseTimer = null;
+      if (this.tours.get(roomId) === run) {
+        this.advance(roomId, run);
+      }
+    }, duration);
+  }
+
+  private clearPauseTimer(run: RunningTour): void {
+    if (run.pauseTimer) {
+      clearTimeout(run.pauseTimer);
+      run.pauseTimer = null;
+    }
+    run.state.pauseEndsAt = null;
+  }
+
+  private emitState(roomId: string, run: RunningTour): void {
+    this.emit('tour-changed', roomId, { ...run.state });
+  }
+}
@@ -0,0 +1,281 @@
+export type BrowserType = 'playwright' | 'puppeteer' | 'http' | 'mock';
+
+// One page in a room's browser context
+export interface BrowserTab {
+  id: string;
+  page: any;
+  createdAt: Date;
+}
+
+export interface RoomSession {
+  roomId: string;
+  context: any;
+  // The active tab's page; everything that drives "the room's page" uses it
+  page: any;
+  tabs: BrowserTab[];
+  activeTabId: string;
+  currentUrl: string;
+  // How every tab in the room is emulated
+  device: DeviceSettings;
+  createdAt: Date;
+  lastActivity: Date;
+}
+
+export type DevicePreset = 'desktop' | 'phone' | 'tablet';
+
+// The device a room's pages are shown on. The host can change it while the
+// room is open. Mirrors DeviceSettings on the signaling server.
+export interface DeviceSettings {
+  // 'custom' once any of the preset's values has been changed
+  preset: DevicePreset | 'custom';
+  // In CSS pixels
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+  userAgent: string;
+  // e.g. 'en-GB'; the browser's own when null
+  locale: string | null;
+  // e.g. 'Europe/Berlin'; the machine's when null
+  timezoneId: string | null;
+}
+
+// What one tab's page is showing
+export interface PageState {
+  url: string;
+  title: string;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  isLoading: boolean;
+  scrollPosition: { x: number; y: number };
+  viewportSize: { width: number; height: number };
+}
+
+export interface TabInfo {
+  id: string;
+  url: string;
+  title: string;
+  isLoading: boolean;
+}
+
+// What a room's browser is showing: the active tab's page plus its tab strip.
+// Mirrors BrowserState on the signaling server.
+export interface BrowserState extends PageState {
+  tabs: TabInfo[];
+  activeTabId: string;
+}
+
+// One <video> or <audio> element on a page
+export interface MediaElementState {
+  // Stays the same for the element while its document is loaded
+  id: number;
+  kind: 'video' | 'audio';
+  src: string;
+  currentTime: number;
+  // Null until known, and for live streams
+  duration: number | null;
+  paused: boolean;
+  ended: boolean;
+  muted: boolean;
+  volume: number;
+  playbackRate: number;
+}
+
+// The media on one tab's page, in document order
+export interface MediaState {
+  elements: MediaElementState[];
+  // When the page reported it; currentTime has moved on since if playing
+  updatedAt: number;
+}
+
+export type MediaAction = 'play' | 'pause' | 'seek' | 'volume' | 'mute' | 'rate';
+
+// Without a mediaId, the command goes to the page's main media element: the
+// one playing, or else the first video, or else the first element
+export interface MediaCommand {
+  action: MediaAction;
+  mediaId?: number;
+  // Seconds for seek, 0-1 for volume, true/false for mute, a multiplier for rate
+  value?: number | boolean;
+}
+
+export type ControlType = 'mouse' | 'keyboard' | 'scroll' | 'click' | 'navigation';
+
+export interface ControlMessage {
+  type: ControlType;
+  userId: string;
+  data: any;
+  timestamp: number;
+}
+
+// Pointer positions are relative to the frame as drawn on the client,
+// which reports its own size so the service can map into the viewport
+export interface PointerControlData {
+  x: number;
+  y: number;
+  canvasWidth: number;
+  canvasHeight: number;
+  action?: 'move' | 'down' | 'up';
+  button?: 'left' | 'right' | 'middle';
+  clickCount?: number;
+}
+
+export interface KeyboardControlData {
+  key: string;
+  action: 'down' | 'up' | 'press';
+}
+
+export interface ScrollControlData {
+  deltaX: number;
+  deltaY: number;
+  x?: number;
+  y?: number;
+  canvasWidth?: number;
+  canvasHeight?: number;
+}
+
+export interface NavigationControlData {
+  action: 'goto' | 'back' | 'forward' | 'refresh';
+  url?: string;
+}
+
+export interface StreamSettings {
+  fps: number;
+  quality: number;
+}
+
+// Metadata Chromium attaches to every Page.screencastFrame event
+export interface ScreencastFrameMetadata {
+  offsetTop: number;
+  pageScaleFactor: number;
+  deviceWidth: number;
+  deviceHeight: number;
+  scrollOffsetX: number;
+  scrollOffsetY: number;
+  timestamp?: number;
+}
+
+// A recorded session of a room, as saved next to its archive. endedAt is
+// null while the recording is still running.
+export interface RecordingInfo {
+  id: string;
+  roomId: string;
+  // Name of the member who started it
+  startedBy: string;
+  startedAt: number;
+  endedAt: number | null;
+  // Milliseconds from the start to the last thing recorded
+  duration: number;
+  frameCount: number;
+}
+
+// One entry in a recording's timeline; t is milliseconds since it started
+export type RecordingEvent = { t: number } & (
+  | { type: 'frame'; seq: number; width: number; height: number }
+  | { type: 'navigation'; tabId: string; url: string; title: string }
+  | { type: 'control'; message: ControlMessage }
+  | { type: 'control-changed'; holderId: string | null; holderName?: string }
+  | { type: 'chat'; userId: string; userName: string; text: string }
+);
+
+// A value from the page, made safe to send as JSON. `type` says what it was
+// (e.g. 'undefined', 'function', 'error', 'node'); `value` is the value itself
+// where JSON can hold it and a description where it can't.
+export interface SerializedValue {
+  type: string;
+  value: unknown;
+}
+
+export interface ScriptLogEntry {
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  args: SerializedValue[];
+  timestamp: number;
+}
+
+// The outcome of running a script in a room's page
+export interface ScriptResult {
+  success: boolean;
+  result?: SerializedValue;
+  error?: { name: string; message: string; stack?: string };
+  logs: ScriptLogEntry[];
+  timedOut: boolean;
+  duration: number;
+}
+
+export type AutomationAction = 'click' | 'type' | 'wait' | 'scroll' | 'select' | 'upload' | 'boxes';
+
+export type AutomationErrorCode =
+  | 'invalid_request'
+  | 'invalid_selector'
+  | 'room_not_found'
+  | 'control_held'
+  | 'browser_unavailable'
+  | 'element_not_found'
+  | 'file_not_found'
+  | 'timeout'
+  | 'action_failed';
+
+// The outcome of an automation call. On success, the fields particular to
+// the action (e.g. `boxes` or `values`) sit alongside these.
+export interface AutomationResult {
+  success: boolean;
+  roomId: string;
+  action: AutomationAction;
+  duration: number;
+  error?: { code: AutomationErrorCode; message: string };
+  [detail: string]: unknown;
+}
+
+// Where an element sits, in CSS pixels relative to the viewport
+export interface ElementBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  visible: boolean;
+  tagName: string;
+  text: string;
+}
+
+// A walkthrough played on a room's page. Every step may carry a caption,
+// shown to the room while it runs. A pause without a duration lasts until
+// the host skips it.
+export type TourStep =
+  | { type: 'navigate'; url: string; caption?: string }
+  | { type: 'wait'; selector?: string; networkIdle?: boolean; timeout?: number; caption?: string }
+  | { type: 'click'; selector: string; timeout?: number; caption?: string }
+  | { type: 'scroll'; selector: string; timeout?: number; caption?: string }
+  | { type: 'pause'; duration?: number; caption?: string };
+
+export interface Tour {
+  title: string;
+  steps: TourStep[];
+}
+
+// Where a room's tour is. A tour that hits a failing step pauses on it with
+// the error; resuming runs the step again.
+export interface TourState {
+  id: string;
+  title: string;
+  startedBy: string;
+  status: 'playing' | 'paused';
+  stepIndex: number;
+  stepCount: number;
+  step: TourStep;
+  caption: string | null;
+  // When a timed pause step ends, in ms since the epoch; null otherwise
+  pauseEndsAt: number | null;
+  error: string | null;
+}
+
+// Plain WebRTC signaling payloads (Node has no DOM typings for these)
+export interface SessionDescription {
+  type: 'offer' | 'answer';
+  sdp: string;
+}
+
+export interface IceCandidate {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+}
@@ -0,0 +1,14 @@
+import { BrowserType } from '../types';
+
+// Open a raw Chrome DevTools Protocol session on a page
+export async function createCDPSession(page: any, browserType: BrowserType): Promise<any> {
+  if (browserType === 'playwright') {
+    return page.context().newCDPSession(page);
+  }
+
+  if (browserType === 'puppeteer') {
+    return page.target().createCDPSession();
+  }
+
+  throw new Error(`CDP is not available for ${browserType} browser`);
+}
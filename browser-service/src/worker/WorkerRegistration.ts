@@ -0,0 +1,51 @@
+import axios from 'axios';
+
+// Registering again regularly lets a restarted signaling server find us
+const REGISTER_INTERVAL = 30000;
+
+// Announces this browser service to the signaling server's worker pool. The
+// signaling server then connects back to `workerUrl` and assigns rooms to it.
+export class WorkerRegistration {
+  private signalingUrl: string;
+  private workerUrl: string;
+  private token: string | undefined;
+  private timer: NodeJS.Timeout | null = null;
+  private registered: boolean = false;
+
+  constructor(signalingUrl: string, workerUrl: string, token?: string) {
+    this.signalingUrl = signalingUrl.replace(/\/+$/, '');
+    this.workerUrl = workerUrl;
+    this.token = token;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.register();
+    this.timer = setInterval(() => this.register(), REGISTER_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async register(): Promise<void> {
+    try {
+      await axios.post(`${this.signalingUrl}/workers`, { url: this.workerUrl }, {
+        headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+        timeout: 5000
+      });
+
+      if (!this.registered) {
+        console.log(`📋 Registered as a browser worker with ${this.signalingUrl}`);
+        this.registered = true;
+      }
+    } catch (error: any) {
+      console.error(`Failed to register with ${this.signalingUrl}:`, error.message);
+      this.registered = false;
+    }
+  }
+}
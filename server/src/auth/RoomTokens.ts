@@ -0,0 +1,76 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Role } from '../types';
+import { isRole } from './roles';
+
+// Invites are handed out by a room's owner or moderators. Member tokens are
+// given to everyone who joins, so they can get back in with the same role
+// after a dropped connection or a server restart. View tokens let a member's
+// browser view connect to /browser-webrtc as that member.
+export type RoomTokenKind = 'invite' | 'member' | 'view';
+
+export interface RoomTokenClaims {
+  kind: RoomTokenKind;
+  id: string;
+  roomId: string;
+  // The member a view token was issued to
+  userId?: string;
+  // The session a member token continues, and the invite it started with
+  sessionId?: string;
+  inviteId?: string;
+  role: Role;
+  expiresAt: number;
+  singleUse: boolean;
+}
+
+// Signs and checks room tokens: base64url JSON claims, a dot, and a base64url
+// HMAC-SHA256 of the claims. Every signaling node must share the secret.
+export class RoomTokens {
+  private secret: Buffer;
+
+  constructor(secret?: string) {
+    if (secret) {
+      this.secret = Buffer.from(secret);
+    } else {
+      this.secret = randomBytes(32);
+      console.warn('⚠️ ROOM_TOKEN_SECRET is not set; invites and member tokens will stop working when this server restarts');
+    }
+  }
+
+  issue(claims: Omit<RoomTokenClaims, 'id'>): { token: string; claims: RoomTokenClaims } {
+    const full: RoomTokenClaims = { ...claims, id: uuidv4() };
+    const payload = Buffer.from(JSON.stringify(full)).toString('base64url');
+    return { token: `${payload}.${this.sign(payload)}`, claims: full };
+  }
+
+  // The token's claims, or null if it is malformed, forged or expired
+  verify(token: unknown): RoomTokenClaims | null {
+    if (typeof token !== 'string') return null;
+
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    let claims: RoomTokenClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    } catch {
+      return null;
+    }
+
+    if (!claims || typeof claims.roomId !== 'string' || !isRole(claims.role) || typeof claims.expiresAt !== 'number') {
+      return null;
+    }
+
+    return claims.expiresAt > Date.now() ? claims : null;
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
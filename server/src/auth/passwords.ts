@@ -0,0 +1,22 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+
+// Room passwords are kept as "scrypt$<salt>$<hash>", both base64
+export function hashPassword(password: string): string {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = scryptSync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
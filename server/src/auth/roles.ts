@@ -0,0 +1,23 @@
+import { Role } from '../types';
+
+// Higher ranks may do everything lower ones can
+const ROLE_RANK: Record<Role, number> = {
+  owner: 3,
+  moderator: 2,
+  controller: 1,
+  viewer: 0
+};
+
+export const ROLES = Object.keys(ROLE_RANK) as Role[];
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && value in ROLE_RANK;
+}
+
+export function hasRole(role: Role, minimum: Role): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+export function outranks(role: Role, other: Role): boolean {
+  return ROLE_RANK[role] > ROLE_RANK[other];
+}
@@ -0,0 +1,57 @@
+import {
+  ClusterAdapterOptions,
+  ClusterAdapterWithHeartbeat,
+  ClusterMessage,
+  ClusterResponse,
+  ServerId
+} from 'socket.io-adapter';
+import { MessageBroker } from './MessageBroker';
+
+const CHANNEL_PREFIX = 'collab:socket.io';
+
+// Socket.IO adapter that runs over a MessageBroker, so broadcasts to a room
+// or to a socket id reach sockets connected to any signaling node
+class BrokerAdapter extends ClusterAdapterWithHeartbeat {
+  private broker: MessageBroker;
+  private channel: string;
+  private unsubscribers: (() => void)[];
+
+  constructor(nsp: any, broker: MessageBroker, opts: ClusterAdapterOptions) {
+    super(nsp, opts);
+    this.broker = broker;
+    this.channel = `${CHANNEL_PREFIX}#${nsp.name}#`;
+
+    // Responses to this node's requests (e.g. fetchSockets) get their own channel
+    this.unsubscribers = [
+      broker.subscribe(this.channel, (message: ClusterMessage) => this.onMessage(message)),
+      broker.subscribe(this.responseChannel(this.uid), (response: ClusterResponse) => this.onResponse(response))
+    ];
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<string> {
+    await this.broker.publish(this.channel, message);
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+    await this.broker.publish(this.responseChannel(requesterUid), response);
+  }
+
+  close(): void {
+    super.close();
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+  }
+
+  private responseChannel(uid: ServerId): string {
+    return `${this.channel}${uid}#`;
+  }
+}
+
+// Socket.IO calls the factory with `new`, so it can't be an arrow function
+export function createBrokerAdapter(broker: MessageBroker, opts: ClusterAdapterOptions = {}) {
+  return function (nsp: any) {
+    return new BrokerAdapter(nsp, broker, opts);
+  };
+}
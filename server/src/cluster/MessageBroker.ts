@@ -0,0 +1,65 @@
+export type BrokerHandler = (message: any) => void;
+
+// Pub/sub between signaling nodes. The Socket.IO adapter and room replication
+// both run over it, so any broker that can fan a message out to every node
+// will do.
+export interface MessageBroker {
+  publish(channel: string, message: unknown): Promise<void>;
+  // Returns a function that removes the handler again
+  subscribe(channel: string, handler: BrokerHandler): () => void;
+  close(): Promise<void>;
+}
+
+// Messages cross the broker as JSON. Buffers serialize as
+// { type: 'Buffer', data: [...] } and are turned back into Buffers here.
+export function encodeMessage(message: unknown): string {
+  return JSON.stringify(message);
+}
+
+export function decodeMessage(raw: string): any {
+  return JSON.parse(raw, (_key, value) => {
+    if (value && value.type === 'Buffer' && Array.isArray(value.data)) {
+      return Buffer.from(value.data);
+    }
+    return value;
+  });
+}
+
+// An in-process broker for running several signaling nodes in one process,
+// e.g. to try clustering locally. Messages are encoded and delivered
+// asynchronously, the same as over a real broker.
+export class MemoryBroker implements MessageBroker {
+  private channels: Map<string, Set<BrokerHandler>> = new Map();
+
+  publish(channel: string, message: unknown): Promise<void> {
+    const raw = encodeMessage(message);
+
+    setImmediate(() => {
+      for (const handler of Array.from(this.channels.get(channel) ?? [])) {
+        handler(decodeMessage(raw));
+      }
+    });
+
+    return Promise.resolve();
+  }
+
+  subscribe(channel: string, handler: BrokerHandler): () => void {
+    let handlers = this.channels.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.channels.set(channel, handlers);
+    }
+    handlers.add(handler);
+
+    return () => {
+      handlers!.delete(handler);
+      if (handlers!.size === 0) {
+        this.channels.delete(channel);
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    this.channels.clear();
+  }
+}
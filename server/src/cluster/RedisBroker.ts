@@ -0,0 +1,68 @@
+import Redis from 'ioredis';
+import { BrokerHandler, MessageBroker, decodeMessage, encodeMessage } from './MessageBroker';
+
+// Redis pub/sub broker. Works with anything that speaks the Redis protocol's
+// PUBLISH/SUBSCRIBE, e.g. Redis, Valkey or KeyDB.
+export class RedisBroker implements MessageBroker {
+  private publisher: Redis;
+  // A connection in subscriber mode can't publish, so each broker keeps two
+  private subscriber: Redis;
+  private handlers: Map<string, Set<BrokerHandler>> = new Map();
+
+  constructor(url: string) {
+    this.publisher = new Redis(url);
+    this.subscriber = this.publisher.duplicate();
+
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      const handlers = this.handlers.get(channel);
+      if (!handlers) return;
+
+      let message: any;
+      try {
+        message = decodeMessage(raw);
+      } catch (error) {
+        console.error(`Dropping malformed broker message on ${channel}:`, error);
+        return;
+      }
+
+      for (const handler of Array.from(handlers)) {
+        handler(message);
+      }
+    });
+
+    for (const connection of [this.publisher, this.subscriber]) {
+      connection.on('error', (error: Error) => {
+        console.error('❌ Redis broker error:', error.message);
+      });
+    }
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    await this.publisher.publish(channel, encodeMessage(message));
+  }
+
+  subscribe(channel: string, handler: BrokerHandler): () => void {
+    let handlers = this.handlers.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(channel, handlers);
+      this.subscriber.subscribe(channel).catch((error: Error) => {
+        console.error(`Failed to subscribe to ${channel}:`, error.message);
+      });
+    }
+    handlers.add(handler);
+
+    return () => {
+      handlers!.delete(handler);
+      if (handlers!.size === 0 && this.handlers.get(channel) === handlers) {
+        this.handlers.delete(channel);
+        this.subscriber.unsubscribe(channel).catch(() => undefined);
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    await Promise.all([this.publisher.quit(), this.subscriber.quit()]);
+  }
+}
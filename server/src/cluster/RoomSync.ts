@@ -0,0 +1,331 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { RoomManager } from '../room/RoomManager';
+import { Annotation, ChatMessage, ControlState, StoredRoom, User } from '../types';
+import { MessageBroker } from './MessageBroker';
+
+const CHANNEL = 'collab:rooms';
+const HEARTBEAT_INTERVAL = 5000;
+const NODE_TIMEOUT = 15000; // A node that misses three heartbeats is gone
+
+interface RoomSnapshot {
+  room: StoredRoom;
+  control: ControlState;
+  members: { user: User; nodeId: string }[];
+  chat: ChatMessage[];
+  annotations: Annotation[];
+}
+
+type SyncMessage = { nodeId: string } & (
+  | { type: 'heartbeat' }
+  | { type: 'bye' }
+  | { type: 'sync-request' }
+  | { type: 'snapshot'; rooms: RoomSnapshot[] }
+  | { type: 'room'; room: StoredRoom }
+  | { type: 'room-deleted'; roomId: string }
+  | { type: 'member-joined'; roomId: string; user: User }
+  | { type: 'member-updated'; roomId: string; user: User }
+  | { type: 'member-left'; roomId: string; userId: string }
+  | { type: 'control'; roomId: string; control: ControlState }
+  | { type: 'chat'; roomId: string; message: ChatMessage }
+  | { type: 'annotation'; roomId: string; annotation: Annotation }
+  | { type: 'annotation-removed'; roomId: string; annotationId: string }
+  | { type: 'annotations-cleared'; roomId: string }
+);
+
+// Keeps every signaling node's RoomManager in step, so a room's members can
+// be connected to different nodes. Each node publishes the changes it makes
+// and applies everyone else's; a node joining late asks for a snapshot.
+// Changes are last-writer-wins, so two nodes changing the same thing at the
+// same moment (e.g. two people granted control at once) may briefly disagree
+// until the next change.
+//
+// Emits 'member-lost' (roomId, userId) for members of a node that stopped
+// responding; nobody else will tell their rooms they're gone.
+export class RoomSync extends EventEmitter {
+  readonly nodeId: string = uuidv4();
+  private roomManager: RoomManager;
+  private broker: MessageBroker;
+  // Which node each member is connected to
+  private memberNodes: Map<string, string> = new Map();
+  // When each other node was last heard from
+  private nodes: Map<string, number> = new Map();
+  // Set while applying another node's change, so it isn't published again
+  private applying: boolean = false;
+  private unsubscribers: (() => void)[] = [];
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(roomManager: RoomManager, broker: MessageBroker) {
+    super();
+    this.roomManager = roomManager;
+    this.broker = broker;
+  }
+
+  start(): void {
+    this.unsubscribers = [
+      this.broker.subscribe(CHANNEL, (message: SyncMessage) => this.handleMessage(message)),
+      this.broker.subscribe(`${CHANNEL}#${this.nodeId}`, (message: SyncMessage) => this.handleMessage(message))
+    ];
+
+    this.roomManager.on('room-saved', this.onRoomSaved);
+    this.roomManager.on('room-deleted', this.onRoomDeleted);
+    this.roomManager.on('member-joined', this.onMemberJoined);
+    this.roomManager.on('member-updated', this.onMemberUpdated);
+    this.roomManager.on('member-left', this.onMemberLeft);
+    this.roomManager.on('control-changed', this.onControlChanged);
+    this.roomManager.on('chat-message', this.onChatMessage);
+    this.roomManager.on('annotation-added', this.onAnnotationAdded);
+    this.roomManager.on('annotation-removed', this.onAnnotationRemoved);
+    this.roomManager.on('annotations-cleared', this.onAnnotationsCleared);
+
+    this.heartbeatTimer = setInterval(() => {
+      this.publish({ type: 'heartbeat' });
+      this.expireNodes();
+    }, HEARTBEAT_INTERVAL);
+
+    this.publish({ type: 'sync-request' });
+    console.log(`🔗 Room sync started on node ${this.nodeId}`);
+  }
+
+  // Leave the cluster; other nodes drop this node's members straight away
+  async stop(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    this.roomManager.off('room-saved', this.onRoomSaved);
+    this.roomManager.off('room-deleted', this.onRoomDeleted);
+    this.roomManager.off('member-joined', this.onMemberJoined);
+    this.roomManager.off('member-updated', this.onMemberUpdated);
+    this.roomManager.off('member-left', this.onMemberLeft);
+    this.roomManager.off('control-changed', this.onControlChanged);
+    this.roomManager.off('chat-message', this.onChatMessage);
+    this.roomManager.off('annotation-added', this.onAnnotationAdded);
+    this.roomManager.off('annotation-removed', this.onAnnotationRemoved);
+    this.roomManager.off('annotations-cleared', this.onAnnotationsCleared);
+
+    await this.publish({ type: 'bye' });
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+  }
+
+  private onRoomSaved = (room: StoredRoom): void => {
+    if (!this.applying) this.publish({ type: 'room', room });
+  };
+
+  private onRoomDeleted = (roomId: string): void => {
+    if (!this.applying) this.publish({ type: 'room-deleted', roomId });
+  };
+
+  private onMemberJoined = (roomId: string, user: User): void => {
+    if (this.applying) return;
+    this.memberNodes.set(user.id, this.nodeId);
+    this.publish({ type: 'member-joined', roomId, user });
+  };
+
+  private onMemberUpdated = (roomId: string, user: User): void => {
+    if (!this.applying) this.publish({ type: 'member-updated', roomId, user });
+  };
+
+  private onMemberLeft = (roomId: string, userId: string): void => {
+    this.memberNodes.delete(userId);
+    if (!this.applying) this.publish({ type: 'member-left', roomId, userId });
+  };
+
+  private onControlChanged = (roomId: string, control: ControlState): void => {
+    if (!this.applying) this.publish({ type: 'control', roomId, control });
+  };
+
+  private onChatMessage = (roomId: string, message: ChatMessage): void => {
+    if (!this.applying) this.publish({ type: 'chat', roomId, message });
+  };
+
+  private onAnnotationAdded = (roomId: string, annotation: Annotation): void => {
+    if (!this.applying) this.publish({ type: 'annotation', roomId, annotation });
+  };
+
+  private onAnnotationRemoved = (roomId: string, annotationId: string): void => {
+    if (!this.applying) this.publish({ type: 'annotation-removed', roomId, annotationId });
+  };
+
+  private onAnnotationsCleared = (roomId: string): void => {
+    if (!this.applying) this.publish({ type: 'annotations-cleared', roomId });
+  };
+
+  private publish(message: { type: string; [key: string]: any }, channel: string = CHANNEL): Promise<void> {
+    return this.broker.publish(channel, { ...message, nodeId: this.nodeId }).catch((error) => {
+      console.error(`Failed to publish room sync ${message.type}:`, error);
+    });
+  }
+
+  private handleMessage(message: SyncMessage): void {
+    if (!message || message.nodeId === this.nodeId) return;
+
+    if (message.type === 'bye') {
+      this.dropNode(message.nodeId);
+      return;
+    }
+    this.nodes.set(message.nodeId, Date.now());
+
+    this.applying = true;
+    try {
+      this.apply(message);
+    } catch (error) {
+      console.error(`Failed to apply room sync ${message.type} from ${message.nodeId}:`, error);
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  private apply(message: SyncMessage): void {
+    switch (message.type) {
+      case 'heartbeat':
+        break;
+
+      case 'sync-request':
+        this.publish({ type: 'snapshot', rooms: this.snapshot() }, `${CHANNEL}#${message.nodeId}`);
+        break;
+
+      case 'snapshot':
+        for (const { room, control, members, chat, annotations } of message.rooms) {
+          this.roomManager.applyRoom(reviveRoom(room));
+          this.roomManager.applyControl(room.id, reviveControl(control));
+          for (const { user, nodeId } of members) {
+            this.memberNodes.set(user.id, nodeId);
+            this.roomManager.applyMember(room.id, reviveUser(user));
+          }
+          // Only fill in history we don't have, or messages would repeat
+          if (this.roomManager.getChatHistory(room.id).length === 0) {
+            for (const chatMessage of chat ?? []) {
+              this.roomManager.applyChatMessage(room.id, chatMessage);
+            }
+          }
+          if (this.roomManager.getAnnotations(room.id).length === 0) {
+            for (const annotation of annotations ?? []) {
+              this.roomManager.applyAnnotation(room.id, annotation);
+            }
+          }
+        }
+        break;
+
+      case 'room':
+        this.roomManager.applyRoom(reviveRoom(message.room));
+        break;
+
+      case 'room-deleted':
+        this.roomManager.applyRoomDeleted(message.roomId);
+        break;
+
+      case 'member-joined':
+        this.memberNodes.set(message.user.id, message.nodeId);
+        this.roomManager.applyMember(message.roomId, reviveUser(message.user));
+        break;
+
+      case 'member-updated':
+        this.roomManager.applyMember(message.roomId, reviveUser(message.user));
+        break;
+
+      case 'member-left':
+        this.roomManager.leaveRoom(message.userId);
+        break;
+
+      case 'control':
+        this.roomManager.applyControl(message.roomId, reviveControl(message.control));
+        break;
+
+      case 'chat':
+        this.roomManager.applyChatMessage(message.roomId, message.message);
+        break;
+
+      case 'annotation':
+        this.roomManager.applyAnnotation(message.roomId, message.annotation);
+        break;
+
+      case 'annotation-removed':
+        this.roomManager.applyAnnotationRemoved(message.roomId, message.annotationId);
+        break;
+
+      case 'annotations-cleared':
+        this.roomManager.applyAnnotationsCleared(message.roomId);
+        break;
+    }
+  }
+
+  private snapshot(): RoomSnapshot[] {
+    return this.roomManager.getRooms().map(room => ({
+      room: this.roomManager.toStored(room),
+      control: room.control,
+      members: Array.from(room.users.values()).map(user => ({
+        user,
+        nodeId: this.memberNodes.get(user.id) ?? this.nodeId
+      })),
+      chat: room.chat,
+      annotations: room.annotations
+    }));
+  }
+
+  private expireNodes(): void {
+    const now = Date.now();
+    for (const [nodeId, lastSeen] of this.nodes) {
+      if (now - lastSeen > NODE_TIMEOUT) {
+        console.log(`💀 Signaling node ${nodeId} stopped responding`);
+        this.dropNode(nodeId);
+      }
+    }
+  }
+
+  // Remove the members of a node that left or died. Every surviving node does
+  // this itself, so nothing is published.
+  private dropNode(nodeId: string): void {
+    this.nodes.delete(nodeId);
+
+    const lost = Array.from(this.memberNodes.entries()).filter(([, memberNode]) => memberNode === nodeId);
+    for (const [userId] of lost) {
+      const room = this.roomManager.getUserRoom(userId);
+
+      this.applying = true;
+      try {
+        this.roomManager.leaveRoom(userId);
+      } finally {
+        this.applying = false;
+      }
+
+      if (room) {
+        this.emit('member-lost', room.id, userId);
+      }
+    }
+  }
+}
+
+// Dates arrive as ISO strings
+function reviveDate(value: string | Date | null): Date | null {
+  return value ? new Date(value) : null;
+}
+
+function reviveRoom(room: StoredRoom): StoredRoom {
+  return {
+    ...room,
+    createdAt: new Date(room.createdAt),
+    lastActivity: new Date(room.lastActivity),
+    emptySince: reviveDate(room.emptySince)
+  };
+}
+
+function reviveUser(user: User): User {
+  return {
+    ...user,
+    joinedAt: new Date(user.joinedAt),
+    lastActivity: new Date(user.lastActivity)
+  };
+}
+
+function reviveControl(control: ControlState): ControlState {
+  return {
+    ...control,
+    grantedAt: reviveDate(control.grantedAt),
+    lastInputAt: reviveDate(control.lastInputAt)
+  };
+}
@@ -5,7 +5,19 @@ import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
 import { RoomManager } from './room/RoomManager';
+import { FileRoomStore } from './room/FileRoomStore';
+import { MemoryRoomStore } from './room/RoomStore';
+import { RoomTokens } from './auth/RoomTokens';
+import { hasRole } from './auth/roles';
 import { SignalingHandler } from './signaling/SignalingHandler';
+import { RedisBroker } from './cluster/RedisBroker';
+import { RoomSync } from './cluster/RoomSync';
+import { createBrokerAdapter } from './cluster/BrokerAdapter';
+import { WorkerPool } from './workers/WorkerPool';
+
+// Set REDIS_URL to run several signaling nodes side by side; they share rooms
+// and broadcasts through it
+const broker = process.env.REDIS_URL ? new RedisBroker(process.env.REDIS_URL) : null;
 
 const app = express();
 const server = createServer(app);
@@ -16,7 +28,8 @@ const io = new Server(server, {
     credentials: true
   },
   allowEIO3: true,
-  transports: ['websocket', 'polling']
+  transports: ['websocket', 'polling'],
+  ...(broker ? { adapter: createBrokerAdapter(broker) } : {})
 });
 
 // Middleware
@@ -30,11 +43,247 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// Room management
-const roomManager = new RoomManager();
+// Room management; set ROOM_STORE_PATH to keep rooms across restarts
+const roomStore = process.env.ROOM_STORE_PATH
+  ? new FileRoomStore(process.env.ROOM_STORE_PATH)
+  : new MemoryRoomStore();
+// Invites and member tokens are signed with ROOM_TOKEN_SECRET; every
+// signaling node needs the same one
+const roomTokens = new RoomTokens(process.env.ROOM_TOKEN_SECRET);
+const roomManager = new RoomManager(roomStore, roomTokens);
+const roomSync = broker ? new RoomSync(roomManager, broker) : null;
+roomSync?.start();
+
+// Browser-service workers: those listed in BROWSER_WORKERS, plus any that
+// register themselves through POST /workers
+const workers = new WorkerPool(roomManager);
+const BROWSER_WORKERS = process.env.BROWSER_WORKERS || 'http://localhost:3002';
+for (const url of BROWSER_WORKERS.split(',').filter(url => url.trim())) {
+  workers.register(url, true);
+}
+workers.start();
+
+// Registration only needs to reach one node; it is passed on to the others
+io.on('worker-registered', (url: string) => {
+  workers.register(url);
+});
+
+// Workers can only register themselves with WORKER_TOKEN; without one
+// configured, only those in BROWSER_WORKERS are used
+app.post('/workers', (req, res) => {
+  const token = process.env.WORKER_TOKEN;
+  if (!token) {
+    return res.status(403).json({ error: 'Worker registration is disabled' });
+  }
+  if (req.headers.authorization !== `Bearer ${token}`) {
+    return res.status(401).json({ error: 'Invalid worker token' });
+  }
+
+  const url = req.body?.url;
+  if (typeof url !== 'string' || !/^https?:\/\//.test(url)) {
+    return res.status(400).json({ error: 'A worker url is required' });
+  }
+
+  const worker = workers.register(url);
+  try {
+    io.serverSideEmit('worker-registered', worker.url);
+  } catch {
+    // Single node: the in-memory adapter has nobody to tell
+  }
+
+  res.json({ url: worker.url, alive: worker.alive });
+});
+
+app.get('/workers', (req, res) => {
+  res.json(workers.getWorkers().map(worker => ({
+    url: worker.url,
+    alive: worker.alive,
+    capacity: worker.capacity,
+    rooms: worker.rooms.length,
+    isStatic: worker.isStatic
+  })));
+});
+
+// The room's page as a PNG, for members' browser views to export their
+// annotations over. The view token is sent as a bearer token.
+app.get('/rooms/:roomId/screenshot', async (req, res) => {
+  const token = req.headers.authorization?.replace(/^Bearer /, '');
+  const session = roomManager.verifyViewToken(token);
+  if (!session || session.roomId !== req.params.roomId) {
+    return res.status(403).json({ error: 'Not a member of this room' });
+  }
+
+  const worker = workers.getRoomWorker(session.roomId);
+  if (!worker) {
+    return res.status(503).json({ error: 'No browser worker is running this room' });
+  }
+
+  try {
+    const workerToken = process.env.WORKER_TOKEN;
+    const response = await fetch(`${worker.url}/screenshot?roomId=${encodeURIComponent(session.roomId)}`, {
+      headers: workerToken ? { Authorization: `Bearer ${workerToken}` } : {}
+    });
+    if (!response.ok) {
+      return res.status(502).json({ error: 'The browser worker could not take a screenshot' });
+    }
+
+    res.setHeader('Content-Type', response.headers.get('content-type') || 'image/png');
+    res.send(Buffer.from(await response.arrayBuffer()));
+  } catch (error) {
+    console.error(`❌ Screenshot of room ${session.roomId} failed:`, error);
+    res.status(502).json({ error: 'The browser worker could not take a screenshot' });
+  }
+});
+
+// Run a script in the room's page and get back its result and console
+// output. Only the owner and moderators may; the view token is sent as a
+// bearer token, and the member's current role is what counts.
+app.post('/rooms/:roomId/execute', async (req, res) => {
+  const token = req.headers.authorization?.replace(/^Bearer /, '');
+  const session = roomManager.verifyViewToken(token);
+  if (!session || session.roomId !== req.params.roomId) {
+    return res.status(403).json({ error: 'Not a member of this room' });
+  }
+
+  const user = roomManager.getRoom(session.roomId)?.users.get(session.userId);
+  if (!user || !hasRole(user.role, 'moderator')) {
+    return res.status(403).json({ error: 'Only a moderator can run scripts' });
+  }
+
+  const { script, timeout } = req.body ?? {};
+  if (!script || typeof script !== 'string') {
+    return res.status(400).json({ error: 'Script is required' });
+  }
+
+  const worker = workers.getRoomWorker(session.roomId);
+  if (!worker) {
+    return res.status(503).json({ error: 'No browser worker is running this room' });
+  }
+
+  try {
+    const workerToken = process.env.WORKER_TOKEN;
+    const response = await fetch(`${worker.url}/execute`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(workerToken ? { Authorization: `Bearer ${workerToken}` } : {})
+      },
+      body: JSON.stringify({ roomId: session.roomId, script, timeout }),
+      // The worker gives up on the script itself after at most 30 seconds
+      signal: AbortSignal.timeout(40000)
+    });
+
+    console.log(`📜 ${user.name} ran a script in room ${session.roomId}`);
+    res.status(response.status).json(await response.json());
+  } catch (error) {
+    console.error(`❌ Script in room ${session.roomId} failed:`, error);
+    res.status(502).json({ error: 'The browser worker could not run the script' });
+  }
+});
+
+// Recordings stay on the worker that made them, or on every worker that
+// shares RECORDINGS_DIR. Members get their own room's recordings through
+// these routes, with the view token as a bearer token or, for the replay
+// page's images, as ?token=.
+function getRecordingViewer(req: express.Request): { roomId: string; userId: string } | null {
+  const token = req.headers.authorization?.replace(/^Bearer /, '') || req.query.token;
+  const session = roomManager.verifyViewToken(token);
+  return session && session.roomId === req.params.roomId ? session : null;
+}
+
+// Ask live workers, the room's own first, until one has what we want
+async function fetchFromWorkers(roomId: string, path: string): Promise<Response | null> {
+  const current = workers.getRoomWorker(roomId);
+  const others = workers.getWorkers().filter(worker => worker.alive && worker !== current);
+  const workerToken = process.env.WORKER_TOKEN;
+
+  for (const worker of current ? [current, ...others] : others) {
+    try {
+      const response = await fetch(`${worker.url}${path}`, {
+        headers: workerToken ? { Authorization: `Bearer ${workerToken}` } : {},
+        signal: AbortSignal.timeout(10000)
+      });
+      if (response.ok) return response;
+    } catch (error) {
+      console.error(`❌ Browser worker ${worker.url} did not answer for ${path}:`, error);
+    }
+  }
+  return null;
+}
+
+app.get('/rooms/:roomId/recordings', async (req, res) => {
+  const session = getRecordingViewer(req);
+  if (!session) {
+    return res.status(403).json({ error: 'Not a member of this room' });
+  }
+
+  // Every worker may have some of the room's recordings
+  const workerToken = process.env.WORKER_TOKEN;
+  const lists = await Promise.all(workers.getWorkers().filter(worker => worker.alive).map(async (worker) => {
+    try {
+      const response = await fetch(`${worker.url}/recordings?roomId=${encodeURIComponent(session.roomId)}`, {
+        headers: workerToken ? { Authorization: `Bearer ${workerToken}` } : {},
+        signal: AbortSignal.timeout(10000)
+      });
+      return response.ok ? await response.json() as Array<{ id: string; startedAt: number }> : [];
+    } catch (error) {
+      console.error(`❌ Browser worker ${worker.url} did not list recordings:`, error);
+      return [];
+    }
+  }));
+
+  // Workers sharing a directory list the same recordings
+  const recordings = new Map(lists.flat().map(recording => [recording.id, recording]));
+  res.json(Array.from(recordings.values()).sort((a, b) => b.startedAt - a.startedAt));
+});
+
+app.get('/rooms/:roomId/recordings/:id', async (req, res) => {
+  const session = getRecordingViewer(req);
+  if (!session) {
+    return res.status(403).json({ error: 'Not a member of this room' });
+  }
+
+  const response = await fetchFromWorkers(session.roomId,
+    `/recordings/${encodeURIComponent(req.params.id)}?roomId=${encodeURIComponent(session.roomId)}`);
+  if (!response) {
+    return res.status(404).json({ error: 'Recording not found' });
+  }
+
+  try {
+    res.json(await response.json());
+  } catch (error) {
+    console.error(`❌ Recording ${req.params.id} of room ${session.roomId} could not be read:`, error);
+    res.status(502).json({ error: 'The browser worker could not send the recording' });
+  }
+});
+
+app.get('/rooms/:roomId/recordings/:id/frames/:seq', async (req, res) => {
+  const session = getRecordingViewer(req);
+  if (!session) {
+    return res.status(403).json({ error: 'Not a member of this room' });
+  }
+
+  const response = await fetchFromWorkers(session.roomId,
+    `/recordings/${encodeURIComponent(req.params.id)}/frames/${encodeURIComponent(req.params.seq)}?roomId=${encodeURIComponent(session.roomId)}`);
+  if (!response) {
+    return res.status(404).json({ error: 'Frame not found' });
+  }
+
+  try {
+    const frame = Buffer.from(await response.arrayBuffer());
+    res.setHeader('Content-Type', 'image/jpeg');
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+    // The replay page on the browser service shows these as images
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.send(frame);
+  } catch (error) {
+    console.error(`❌ Frame ${req.params.seq} of recording ${req.params.id} could not be read:`, error);
+    res.status(502).json({ error: 'The browser worker could not send the frame' });
+  }
+});
 
 // Signaling handler
-const signalingHandler = new SignalingHandler(io, roomManager);
+const signalingHandler = new SignalingHandler(io, roomManager, workers, roomSync);
 
 // Start server
 const PORT = process.env.PORT || 3001;
@@ -45,11 +294,18 @@ server.listen(PORT, () => {
 });
 
 // Graceful shutdown
-process.on('SIGINT', () => {
+const shutdown = async () => {
   console.log('🛑 Shutting down signaling server...');
+  roomManager.flush();
+  await roomSync?.stop();
+  workers.stop();
   io.close();
-  server.close(() => {
+  server.close(async () => {
+    await broker?.close();
     console.log('✅ Server closed');
     process.exit(0);
   });
-});
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
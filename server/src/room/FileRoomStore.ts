@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import { StoredRoom } from '../types';
+import { RoomStore } from './RoomStore';
+
+const WRITE_DELAY = 500; // Coalesce bursts of changes into one write
+
+type SerializedRoom = Omit<StoredRoom, 'createdAt' | 'lastActivity' | 'emptySince'> & {
+  createdAt: string;
+  lastActivity: string;
+  emptySince: string | null;
+};
+
+// Keeps rooms in a JSON file so they survive restarts. Changes are batched
+// and written to a temporary file that then replaces the old one, so a crash
+// mid-write never leaves a truncated file behind.
+export class FileRoomStore implements RoomStore {
+  private filePath: string;
+  private rooms: Map<string, StoredRoom> = new Map();
+  private writeTimer: NodeJS.Timeout | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.rooms = this.read();
+  }
+
+  load(): StoredRoom[] {
+    return Array.from(this.rooms.values());
+  }
+
+  save(room: StoredRoom): void {
+    this.rooms.set(room.id, room);
+    this.scheduleWrite();
+  }
+
+  delete(roomId: string): void {
+    if (this.rooms.delete(roomId)) {
+      this.scheduleWrite();
+    }
+  }
+
+  flush(): void {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    this.write();
+  }
+
+  private scheduleWrite(): void {
+    if (this.writeTimer) return;
+
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.write();
+    }, WRITE_DELAY);
+  }
+
+  private read(): Map<string, StoredRoom> {
+    const rooms: Map<string, StoredRoom> = new Map();
+    if (!fs.existsSync(this.filePath)) return rooms;
+
+    try {
+      const serialized: SerializedRoom[] = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const room of serialized) {
+        rooms.set(room.id, {
+          ...room,
+          createdAt: new Date(room.createdAt),
+          lastActivity: new Date(room.lastActivity),
+          emptySince: room.emptySince ? new Date(room.emptySince) : null
+        });
+      }
+      console.log(`💾 Loaded ${rooms.size} room(s) from ${this.filePath}`);
+    } catch (error) {
+      console.error(`Failed to read rooms from ${this.filePath}:`, error);
+    }
+
+    return rooms;
+  }
+
+  private write(): void {
+    const temporaryPath = `${this.filePath}.tmp`;
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(temporaryPath, JSON.stringify(Array.from(this.rooms.values()), null, 2));
+      fs.renameSync(temporaryPath, this.filePath);
+    } catch (error) {
+      console.error(`Failed to write rooms to ${this.filePath}:`, error);
+    }
+  }
+}
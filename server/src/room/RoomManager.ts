@@ -1,71 +1,278 @@
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import { Room, User } from '../types';
+import { hashPassword, verifyPassword } from '../auth/passwords';
+import { hasRole, isRole, outranks } from '../auth/roles';
+import { RoomTokens } from '../auth/RoomTokens';
+import { Annotation, AnnotationKind, BrowserState, ChatMessage, ControlState, DeviceSettings, MediaState, RecordingInfo, Role, Room, RoomBan, StoredRoom, TourState, User } from '../types';
+import { MemoryRoomStore, RoomStore } from './RoomStore';
 
-export class RoomManager {
+type ControlResult = { success: boolean; room?: Room; error?: string };
+// A successful join hands back a member token for getting back in later
+type JoinResult = { success: boolean; room?: Room; token?: string; error?: string };
+type ChatResult = { success: boolean; room?: Room; message?: ChatMessage; error?: string };
+type AnnotationResult = { success: boolean; room?: Room; annotation?: Annotation; error?: string };
+type InviteResult = { success: boolean; token?: string; role?: Role; expiresAt?: number; error?: string };
+
+export interface RoomOptions {
+  password?: string;
+  maxUsers?: number;
+  inviteOnly?: boolean;
+}
+
+// An invite or member token, or the room's password
+export interface JoinCredentials {
+  password?: string;
+  token?: string;
+}
+
+// An annotation as a member's browser view sends it; the rest is filled in here
+export interface AnnotationInput {
+  kind: AnnotationKind;
+  color: string;
+  points: { x: number; y: number }[];
+  text?: string;
+}
+
+export interface InviteOptions {
+  role?: Role;
+  expiresIn?: number;
+  singleUse?: boolean;
+}
+
+const DEFAULT_URL = 'https://www.google.com';
+const DEFAULT_ROLE: Role = 'controller'; // People let in without an invite may ask for control
+const CONTROL_IDLE_TIMEOUT = 2 * 60 * 1000; // 2 minutes without input
+const EMPTY_ROOM_TIMEOUT = 5 * 60 * 1000; // Keep empty rooms for 5 minutes
+const MEMBER_TOKEN_TTL = 24 * 60 * 60 * 1000;
+const DEFAULT_INVITE_TTL = 24 * 60 * 60 * 1000;
+const MIN_INVITE_TTL = 60 * 1000;
+const MAX_INVITE_TTL = 7 * 24 * 60 * 60 * 1000;
+const MAX_CHAT_HISTORY = 100; // Messages kept per room and sent to people joining
+const MAX_CHAT_LENGTH = 1000;
+const MAX_ANNOTATIONS = 500; // Per room; the oldest go first
+const MAX_ANNOTATION_POINTS = 2000;
+const MAX_NOTE_LENGTH = 500;
+const ANNOTATION_KINDS: AnnotationKind[] = ['freehand', 'arrow', 'rect', 'text'];
+
+// Emits 'room-deleted' (roomId) whenever an empty room is removed, and
+// 'role-changed' (roomId, user) whenever a member's role changes, here or on
+// another node. So that other signaling nodes can follow along (see
+// RoomSync), it also emits 'room-saved' (storedRoom), 'member-joined'
+// (roomId, user), 'member-updated' (roomId, user), 'member-left' (roomId,
+// userId), 'control-changed' (roomId, control), 'chat-message' (roomId,
+// message), 'annotation-added' (roomId, annotation), 'annotation-removed'
+// (roomId, annotationId) and 'annotations-cleared' (roomId) as rooms change.
+export class RoomManager extends EventEmitter {
   private rooms: Map<string, Room> = new Map();
   private userToRoom: Map<string, string> = new Map();
+  // Members connected to this node; others are replicated from other nodes
+  private localUsers: Set<string> = new Set();
+  private store: RoomStore;
+  private tokens: RoomTokens;
 
-  // Create a new room
-  createRoom(name: string, password?: string, maxUsers: number = 10): Room {
+  constructor(store: RoomStore = new MemoryRoomStore(), tokens: RoomTokens = new RoomTokens()) {
+    super();
+    this.store = store;
+    this.tokens = tokens;
+    this.restoreRooms();
+  }
+
+  // Bring back rooms saved before a restart. They come back empty, so their
+  // members have the usual grace period to reconnect before they're deleted.
+  private restoreRooms(): void {
+    for (const stored of this.store.load()) {
+      const room = this.fromStored({ ...stored, emptySince: stored.emptySince ?? new Date() });
+      this.rooms.set(room.id, room);
+      // Don't leave a plain-text password from an older version on disk
+      if ('password' in stored) {
+        this.store.save(this.toStored(room));
+      }
+      this.scheduleDeletion(room.id, EMPTY_ROOM_TIMEOUT - (Date.now() - room.emptySince!.getTime()));
+    }
+
+    if (this.rooms.size > 0) {
+      console.log(`♻️ Restored ${this.rooms.size} room(s)`);
+    }
+  }
+
+  // A room as saved, without members or control
+  private fromStored(stored: StoredRoom): Room {
+    // Rooms saved before passwords were hashed have them in plain text
+    const { password, ...rest } = stored as StoredRoom & { password?: string };
+    return {
+      ...rest,
+      passwordHash: stored.passwordHash ?? (password ? hashPassword(password) : undefined),
+      inviteOnly: stored.inviteOnly ?? false,
+      redeemedInvites: stored.redeemedInvites ?? {},
+      bans: stored.bans ?? [],
+      mutedSessions: stored.mutedSessions ?? [],
+      sessionRoles: stored.sessionRoles ?? {},
+      // Rooms saved before workers existed have no assignment
+      workerUrl: stored.workerUrl ?? null,
+      device: stored.device ?? null,
+      users: new Map(),
+      control: {
+        holderId: null,
+        grantedAt: null,
+        lastInputAt: null,
+        requests: []
+      },
+      browserState: null,
+      mediaState: null,
+      recording: null,
+      tour: null,
+      chat: [],
+      annotations: []
+    };
+  }
+
+  // Create a new room with its creator as owner
+  createRoom(name: string, owner: { id: string; name: string }, options: RoomOptions = {}): JoinResult {
     const roomId = uuidv4();
     const room: Room = {
       id: roomId,
       name,
-      password,
+      passwordHash: options.password ? hashPassword(options.password) : undefined,
+      inviteOnly: options.inviteOnly === true,
+      redeemedInvites: {},
+      bans: [],
+      mutedSessions: [],
+      sessionRoles: {},
       users: new Map(),
-      currentUrl: 'https://www.google.com',
+      // Until the browser service reports, the room has one unnamed tab
+      tabs: [{ id: '', url: DEFAULT_URL, title: '', isLoading: false }],
+      activeTabIndex: 0,
+      control: {
+        holderId: null,
+        grantedAt: null,
+        lastInputAt: null,
+        requests: []
+      },
+      browserState: null,
+      mediaState: null,
+      recording: null,
+      tour: null,
+      chat: [],
+      annotations: [],
+      workerUrl: null,
+      device: null,
       createdAt: new Date(),
       lastActivity: new Date(),
-      maxUsers
+      emptySince: new Date(),
+      maxUsers: options.maxUsers ?? 10
     };
 
     this.rooms.set(roomId, room);
     console.log(`🏠 Created room: ${roomId} (${name})`);
 
-    return room;
+    return this.addMember(room, owner.id, owner.name, 'owner', { sessionId: uuidv4() });
   }
 
-  // Join an existing room
-  joinRoom(roomId: string, userId: string, userName: string, password?: string): { success: boolean; room?: Room; error?: string } {
+  // Join an existing room. An invite or member token lets people in with the
+  // role it carries; otherwise the room must be open to anyone who knows the
+  // password, if it has one.
+  joinRoom(roomId: string, userId: string, userName: string, credentials: JoinCredentials = {}): JoinResult {
     const room = this.rooms.get(roomId);
 
     if (!room) {
       return { success: false, error: 'Room not found' };
     }
 
-    // Check password
-    if (room.password && room.password !== password) {
+    // Check if user is already in room
+    if (room.users.has(userId)) {
+      return { success: false, error: 'User already in room' };
+    }
+
+    let role: Role = DEFAULT_ROLE;
+    let redeemed: { id: string; expiresAt: number } | null = null;
+    // A member token continues its session; anything else starts a new one
+    let session: { sessionId: string; inviteId?: string } = { sessionId: uuidv4() };
+
+    if (credentials.token) {
+      const claims = this.tokens.verify(credentials.token);
+      if (!claims || claims.kind === 'view' || claims.roomId !== roomId) {
+        return { success: false, error: 'Invalid or expired invite' };
+      }
+      if (claims.singleUse) {
+        if (room.redeemedInvites[claims.id]) {
+          return { success: false, error: 'This invite has already been used' };
+        }
+        redeemed = claims;
+      }
+      role = claims.role;
+      session = claims.kind === 'member' && claims.sessionId
+        ? { sessionId: claims.sessionId, inviteId: claims.inviteId }
+        : { sessionId: session.sessionId, inviteId: claims.id };
+      // A member who was promoted or demoted since their token was issued
+      // comes back with the role they have now
+      if (claims.kind === 'member' && room.sessionRoles[session.sessionId]) {
+        role = room.sessionRoles[session.sessionId];
+      }
+    } else if (room.inviteOnly) {
+      return { success: false, error: 'This room is invite-only' };
+    } else if (room.bans.length > 0) {
+      // A new session is all it would take to get around a ban
+      return { success: false, error: 'Since someone was banned, this room only lets in members and invited guests' };
+    } else if (room.passwordHash && !(typeof credentials.password === 'string' && verifyPassword(credentials.password, room.passwordHash))) {
       return { success: false, error: 'Invalid password' };
     }
 
+    if (this.isBanned(room, session.sessionId, session.inviteId)) {
+      return { success: false, error: 'You have been banned from this room' };
+    }
+
     // Check room capacity
     if (room.users.size >= room.maxUsers) {
       return { success: false, error: 'Room is full' };
     }
 
-    // Check if user is already in room
-    if (room.users.has(userId)) {
-      return { success: false, error: 'User already in room' };
+    // There is one owner at a time; an owner coming back after ownership
+    // has moved on rejoins as a moderator
+    if (role === 'owner' && this.getOwner(room)) {
+      role = 'moderator';
     }
 
-    // Create user
+    if (redeemed) {
+      this.forgetExpiredInvites(room);
+      room.redeemedInvites[redeemed.id] = redeemed.expiresAt;
+    }
+
+    return this.addMember(room, userId, userName, role, session);
+  }
+
+  private addMember(room: Room, userId: string, userName: string, role: Role, session: { sessionId: string; inviteId?: string }): JoinResult {
     const user: User = {
       id: userId,
       name: userName,
-      isHost: room.users.size === 0, // First user is host
+      role,
+      sessionId: session.sessionId,
+      inviteId: session.inviteId,
+      muted: room.mutedSessions.includes(session.sessionId),
       joinedAt: new Date(),
       lastActivity: new Date()
     };
 
     // Add user to room
     room.users.set(userId, user);
+    room.sessionRoles[user.sessionId] = user.role;
     room.lastActivity = new Date();
+    room.emptySince = null;
+    // A room restored after a restart has no owner until someone rejoins
+    this.ensureOwner(room);
+    this.persist(room);
+
+    // The owner starts out with control of an unclaimed browser
+    if (user.role === 'owner' && !room.control.holderId) {
+      this.setControlHolder(room, userId);
+    }
 
     // Map user to room
-    this.userToRoom.set(userId, roomId);
+    this.userToRoom.set(userId, room.id);
+    this.localUsers.add(userId);
 
-    console.log(`👤 User ${userName} (${userId}) joined room ${roomId}`);
-    return { success: true, room };
+    console.log(`👤 User ${userName} (${userId}) joined room ${room.id} as ${user.role}`);
+    this.emit('member-joined', room.id, user);
+    return { success: true, room, token: this.issueMemberToken(room.id, user) };
   }
 
   // Leave a room
@@ -79,29 +286,409 @@ export class RoomManager {
     // Remove user from room
     room.users.delete(userId);
     this.userToRoom.delete(userId);
+    this.localUsers.delete(userId);
+    this.dropFromControl(room, userId);
 
     console.log(`👋 User ${userId} left room ${roomId}`);
+    this.emit('member-left', roomId, userId);
 
     // If room is empty, delete it after a delay
     if (room.users.size === 0) {
-      setTimeout(() => {
-        if (this.rooms.has(roomId) && this.rooms.get(roomId)!.users.size === 0) {
-          this.rooms.delete(roomId);
-          console.log(`🗑️ Deleted empty room: ${roomId}`);
-        }
-      }, 300000); // 5 minutes
+      room.emptySince = new Date();
+      this.persist(room);
+      this.scheduleDeletion(roomId, EMPTY_ROOM_TIMEOUT);
     } else {
-      // Update host if necessary
-      const users = Array.from(room.users.values());
-      if (users.length > 0 && !users.some(u => u.isHost)) {
-        users[0].isHost = true;
-        console.log(`👑 New host for room ${roomId}: ${users[0].id}`);
-      }
+      this.ensureOwner(room);
     }
 
     return true;
   }
 
+  // Give an occupied room without an owner a new one. The highest-ranked,
+  // longest-standing member takes over, so every node picks the same one.
+  private ensureOwner(room: Room): void {
+    const users = Array.from(room.users.values());
+    if (users.length === 0 || this.getOwner(room)) return;
+
+    const owner = users.reduce((best, u) =>
+      outranks(u.role, best.role) || (u.role === best.role && u.joinedAt < best.joinedAt) ? u : best
+    );
+    owner.role = 'owner';
+    room.sessionRoles[owner.sessionId] = 'owner';
+    this.persist(room);
+    console.log(`👑 New owner for room ${room.id}: ${owner.id}`);
+    this.emit('role-changed', room.id, owner);
+  }
+
+  getOwner(room: Room): User | undefined {
+    return Array.from(room.users.values()).find(user => user.role === 'owner');
+  }
+
+  // Change another member's role. Moderators and the owner may only hand out
+  // roles below their own, to members ranked below them; ownership itself
+  // isn't handed out here.
+  setRole(actorId: string, targetId: string, role: Role): ControlResult {
+    const room = this.getUserRoom(actorId);
+    if (!room) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    const actor = room.users.get(actorId)!;
+    const target = room.users.get(targetId);
+    if (!target) {
+      return { success: false, error: 'User not in room' };
+    }
+
+    if (!isRole(role) || role === 'owner') {
+      return { success: false, error: 'Invalid role' };
+    }
+
+    if (!hasRole(actor.role, 'moderator') || !outranks(actor.role, target.role) || !outranks(actor.role, role)) {
+      return { success: false, error: 'You cannot give this member that role' };
+    }
+
+    target.role = role;
+    room.sessionRoles[target.sessionId] = role;
+    this.persist(room);
+    console.log(`🎭 User ${actorId} made ${targetId} a ${role} in room ${room.id}`);
+    this.emit('member-updated', room.id, target);
+    this.emit('role-changed', room.id, target);
+
+    // Viewers can't hold or ask for control
+    if (!hasRole(role, 'controller')) {
+      this.dropFromControl(room, targetId);
+    }
+
+    return { success: true, room };
+  }
+
+  // The actor's room and the member they want to act on, if the actor is a
+  // moderator ranked above them
+  private getModerationTarget(actorId: string, targetId: string): { room: Room; actor: User; target: User } | { error: string } {
+    const room = this.getUserRoom(actorId);
+    if (!room) {
+      return { error: 'Not in a room' };
+    }
+
+    const actor = room.users.get(actorId)!;
+    const target = room.users.get(targetId);
+    if (!target) {
+      return { error: 'User not in room' };
+    }
+
+    if (!hasRole(actor.role, 'moderator') || !outranks(actor.role, target.role)) {
+      return { error: 'You cannot moderate this member' };
+    }
+
+    return { room, actor, target };
+  }
+
+  // Remove a member from the room; they may come back
+  kickMember(actorId: string, targetId: string): ControlResult {
+    const found = this.getModerationTarget(actorId, targetId);
+    if ('error' in found) {
+      return { success: false, error: found.error };
+    }
+
+    console.log(`👢 User ${actorId} kicked ${targetId} from room ${found.room.id}`);
+    this.leaveRoom(targetId);
+    return { success: true, room: found.room };
+  }
+
+  // Remove a member and keep their session, and the invite they came in
+  // with, out for as long as the room exists. From then on the room only
+  // takes joins with a token, or the ban could be dodged as a new session.
+  banMember(actorId: string, targetId: string, reason?: string): ControlResult {
+    const found = this.getModerationTarget(actorId, targetId);
+    if ('error' in found) {
+      return { success: false, error: found.error };
+    }
+
+    const { room, actor, target } = found;
+    const ban: RoomBan = {
+      sessionId: target.sessionId,
+      inviteId: target.inviteId,
+      name: target.name,
+      reason,
+      bannedBy: actor.name,
+      bannedAt: Date.now()
+    };
+    room.bans.push(ban);
+    this.persist(room);
+
+    console.log(`🚫 User ${actorId} banned ${targetId} from room ${room.id}`);
+    this.leaveRoom(targetId);
+    return { success: true, room };
+  }
+
+  private isBanned(room: Room, sessionId: string, inviteId?: string): boolean {
+    return room.bans.some(ban => ban.sessionId === sessionId || (inviteId !== undefined && ban.inviteId === inviteId));
+  }
+
+  // Stop a member from chatting and taking control, or let them again
+  setMuted(actorId: string, targetId: string, muted: boolean): ControlResult {
+    const found = this.getModerationTarget(actorId, targetId);
+    if ('error' in found) {
+      return { success: false, error: found.error };
+    }
+
+    const { room, target } = found;
+    target.muted = muted === true;
+    room.mutedSessions = room.mutedSessions.filter(id => id !== target.sessionId);
+    if (target.muted) {
+      room.mutedSessions.push(target.sessionId);
+    }
+    this.persist(room);
+    this.emit('member-updated', room.id, target);
+
+    if (target.muted) {
+      this.dropFromControl(room, targetId);
+    }
+
+    console.log(`${target.muted ? '🔇' : '🔊'} User ${actorId} ${target.muted ? 'muted' : 'unmuted'} ${targetId} in room ${room.id}`);
+    return { success: true, room };
+  }
+
+  // Hand the room to another member; the old owner stays on as a moderator
+  transferOwnership(ownerId: string, targetId: string): ControlResult {
+    const room = this.getUserRoom(ownerId);
+    if (!room) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    const owner = room.users.get(ownerId)!;
+    if (owner.role !== 'owner') {
+      return { success: false, error: 'Only the owner can hand the room over' };
+    }
+
+    const target = room.users.get(targetId);
+    if (!target || targetId === ownerId) {
+      return { success: false, error: 'User not in room' };
+    }
+
+    target.role = 'owner';
+    target.muted = false;
+    room.mutedSessions = room.mutedSessions.filter(id => id !== target.sessionId);
+    owner.role = 'moderator';
+    room.sessionRoles[target.sessionId] = 'owner';
+    room.sessionRoles[owner.sessionId] = 'moderator';
+    this.persist(room);
+
+    for (const user of [target, owner]) {
+      this.emit('member-updated', room.id, user);
+      this.emit('role-changed', room.id, user);
+    }
+
+    console.log(`👑 User ${ownerId} handed room ${room.id} to ${targetId}`);
+    return { success: true, room };
+  }
+
+  // Sign an invite to the sender's room. Moderators may invite controllers
+  // and viewers; only the owner may invite moderators.
+  createInvite(userId: string, options: InviteOptions = {}): InviteResult {
+    const room = this.getUserRoom(userId);
+    if (!room) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    const issuer = room.users.get(userId)!;
+    if (!hasRole(issuer.role, 'moderator')) {
+      return { success: false, error: 'Only the owner or a moderator can create invites' };
+    }
+
+    const role = options.role ?? DEFAULT_ROLE;
+    if (!isRole(role) || role === 'owner') {
+      return { success: false, error: 'Invalid role' };
+    }
+
+    if (!outranks(issuer.role, role)) {
+      return { success: false, error: 'You cannot invite someone with that role' };
+    }
+
+    const expiresIn = Math.min(Math.max(Number(options.expiresIn) || DEFAULT_INVITE_TTL, MIN_INVITE_TTL), MAX_INVITE_TTL);
+    const singleUse = options.singleUse === true;
+    const { token, claims } = this.tokens.issue({
+      kind: 'invite',
+      roomId: room.id,
+      role,
+      expiresAt: Date.now() + expiresIn,
+      singleUse
+    });
+
+    console.log(`✉️ User ${userId} created a${singleUse ? ' single-use' : 'n'} invite to room ${room.id} as ${role}`);
+    return { success: true, token, role, expiresAt: claims.expiresAt };
+  }
+
+  // A token that lets a member back into their room with their role and session
+  issueMemberToken(roomId: string, user: User): string {
+    return this.tokens.issue({
+      kind: 'member',
+      roomId,
+      role: user.role,
+      sessionId: user.sessionId,
+      inviteId: user.inviteId,
+      expiresAt: Date.now() + MEMBER_TOKEN_TTL,
+      singleUse: false
+    }).token;
+  }
+
+  // A token for the member's browser view, tied to their current connection
+  issueViewToken(roomId: string, userId: string): string {
+    const user = this.rooms.get(roomId)?.users.get(userId);
+    return this.tokens.issue({
+      kind: 'view',
+      roomId,
+      userId,
+      role: user?.role ?? 'viewer',
+      expiresAt: Date.now() + MEMBER_TOKEN_TTL,
+      singleUse: false
+    }).token;
+  }
+
+  // The room and member a browser view token stands for, as long as that
+  // member is still in the room
+  verifyViewToken(token: unknown): { roomId: string; userId: string } | null {
+    const claims = this.tokens.verify(token);
+    if (!claims || claims.kind !== 'view' || !claims.userId) {
+      return null;
+    }
+
+    if (!this.rooms.get(claims.roomId)?.users.has(claims.userId)) {
+      return null;
+    }
+
+    return { roomId: claims.roomId, userId: claims.userId };
+  }
+
+  // Whether the user is currently a member of the room
+  isMember(roomId: string, userId: string): boolean {
+    return this.rooms.get(roomId)?.users.has(userId) === true;
+  }
+
+  private forgetExpiredInvites(room: Room): void {
+    const now = Date.now();
+    for (const [id, expiresAt] of Object.entries(room.redeemedInvites)) {
+      if (expiresAt <= now) {
+        delete room.redeemedInvites[id];
+      }
+    }
+  }
+
+  private scheduleDeletion(roomId: string, delay: number): void {
+    setTimeout(() => {
+      if (this.rooms.has(roomId) && this.rooms.get(roomId)!.users.size === 0) {
+        this.deleteRoom(roomId);
+        console.log(`🗑️ Deleted empty room: ${roomId}`);
+      }
+    }, Math.max(delay, 0));
+  }
+
+  // Remove a room and let listeners release anything bound to it
+  private deleteRoom(roomId: string): void {
+    if (this.rooms.delete(roomId)) {
+      this.store.delete(roomId);
+      this.emit('room-deleted', roomId);
+    }
+  }
+
+  // Write the room's durable fields through to the store
+  private persist(room: Room): void {
+    const stored = this.toStored(room);
+    this.store.save(stored);
+    this.emit('room-saved', stored);
+  }
+
+  toStored(room: Room): StoredRoom {
+    return {
+      id: room.id,
+      name: room.name,
+      passwordHash: room.passwordHash,
+      inviteOnly: room.inviteOnly,
+      redeemedInvites: room.redeemedInvites,
+      bans: room.bans,
+      mutedSessions: room.mutedSessions,
+      sessionRoles: room.sessionRoles,
+      maxUsers: room.maxUsers,
+      tabs: room.tabs,
+      activeTabIndex: room.activeTabIndex,
+      workerUrl: room.workerUrl,
+      device: room.device,
+      createdAt: room.createdAt,
+      lastActivity: room.lastActivity,
+      emptySince: room.emptySince
+    };
+  }
+
+  // Changes replicated from other signaling nodes. They were validated where
+  // they were made, so they are applied as they are.
+  applyRoom(stored: StoredRoom): void {
+    const room = this.rooms.get(stored.id);
+    if (room) {
+      Object.assign(room, stored);
+    } else {
+      this.rooms.set(stored.id, this.fromStored(stored));
+    }
+    this.store.save(stored);
+  }
+
+  applyMember(roomId: string, user: User): void {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    const previous = room.users.get(user.id);
+    room.users.set(user.id, user);
+    room.emptySince = null;
+    this.userToRoom.set(user.id, roomId);
+
+    if (previous && previous.role !== user.role) {
+      this.emit('role-changed', roomId, user);
+    }
+  }
+
+  applyControl(roomId: string, control: ControlState): void {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      room.control = control;
+    }
+  }
+
+  applyChatMessage(roomId: string, message: ChatMessage): void {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      this.appendChat(room, message);
+    }
+  }
+
+  applyAnnotation(roomId: string, annotation: Annotation): void {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      this.appendAnnotation(room, annotation);
+    }
+  }
+
+  applyAnnotationRemoved(roomId: string, annotationId: string): void {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      room.annotations = room.annotations.filter(annotation => annotation.id !== annotationId);
+    }
+  }
+
+  applyAnnotationsCleared(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      room.annotations = [];
+    }
+  }
+
+  applyRoomDeleted(roomId: string): void {
+    this.deleteRoom(roomId);
+  }
+
+  // Write out pending changes before the process exits
+  flush(): void {
+    this.store.flush();
+  }
+
   // Get room by ID
   getRoom(roomId: string): Room | undefined {
     return this.rooms.get(roomId);
@@ -124,11 +711,316 @@ export class RoomManager {
     const room = this.rooms.get(roomId);
     if (!room) return false;
 
-    room.currentUrl = url;
+    const tab = room.tabs[room.activeTabIndex];
+    if (tab) {
+      room.tabs[room.activeTabIndex] = { ...tab, url };
+    }
     room.lastActivity = new Date();
+    this.persist(room);
     return true;
   }
 
+  // Run the room's page on a browser-service worker, or on none until it is
+  // placed again
+  assignWorker(roomId: string, workerUrl: string | null): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room) return false;
+
+    room.workerUrl = workerUrl;
+    this.persist(room);
+    return true;
+  }
+
+  // Whether the member is connected to this signaling node
+  isLocalUser(userId: string): boolean {
+    return this.localUsers.has(userId);
+  }
+
+  // URL of the tab everyone in the room is looking at
+  getCurrentUrl(roomId: string): string {
+    const room = this.rooms.get(roomId);
+    return room?.tabs[room.activeTabIndex]?.url ?? DEFAULT_URL;
+  }
+
+  // Record the media on the room's page; like browser-state, every node hears
+  // it from the browser service
+  updateMediaState(roomId: string, state: MediaState): Room | null {
+    const room = this.rooms.get(roomId);
+    if (!room) return null;
+
+    room.mediaState = state;
+    return room;
+  }
+
+  // Keep track of the room's recording as the browser service reports it
+  updateRecording(roomId: string, recording: RecordingInfo | null): Room | null {
+    const room = this.rooms.get(roomId);
+    if (!room) return null;
+
+    room.recording = recording;
+    return room;
+  }
+
+  // Check that the actor may start, or stop, recording their room. The
+  // recording runs on the browser service, which reports back when it has.
+  prepareRecording(actorId: string, start: boolean): ControlResult {
+    const room = this.getUserRoom(actorId);
+    if (!room) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    if (!hasRole(room.users.get(actorId)!.role, 'moderator')) {
+      return { success: false, error: 'Only a moderator can record the room' };
+    }
+
+    if (start && room.recording) {
+      return { success: false, error: 'This room is already being recorded' };
+    }
+
+    if (!start && !room.recording) {
+      return { success: false, error: 'This room is not being recorded' };
+    }
+
+    return { success: true, room };
+  }
+
+  // Keep track of the room's tour as the browser service reports it
+  updateTour(roomId: string, tour: TourState | null): Room | null {
+    const room = this.rooms.get(roomId);
+    if (!room) return null;
+
+    room.tour = tour;
+    return room;
+  }
+
+  // Check that the actor may start a tour, or steer the one playing. The
+  // browser service plays it and reports back as it goes.
+  prepareTour(actorId: string, start: boolean): ControlResult {
+    const room = this.getUserRoom(actorId);
+    if (!room) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    if (!hasRole(room.users.get(actorId)!.role, 'moderator')) {
+      return { success: false, error: 'Only a moderator can run tours' };
+    }
+
+    if (start && room.tour) {
+      return { success: false, error: 'A tour is already running in this room' };
+    }
+
+    if (!start && !room.tour) {
+      return { success: false, error: 'No tour is running in this room' };
+    }
+
+    return { success: true, room };
+  }
+
+  // Keep the room's device as the browser service reports it, so the room
+  // keeps it if it has to move to another worker
+  updateDevice(roomId: string, device: DeviceSettings): Room | null {
+    const room = this.rooms.get(roomId);
+    if (!room) return null;
+
+    room.device = device;
+    // Like browser-state, every node hears this from the browser service
+    this.store.save(this.toStored(room));
+    return room;
+  }
+
+  // Check that the actor may change the device the room's pages are shown on
+  prepareDevice(actorId: string): ControlResult {
+    const room = this.getUserRoom(actorId);
+    if (!room) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    if (!hasRole(room.users.get(actorId)!.role, 'moderator')) {
+      return { success: false, error: 'Only a moderator can change the device' };
+    }
+
+    return { success: true, room };
+  }
+
+  // Record what the room's browser is showing, including its tabs
+  updateBrowserState(roomId: string, state: BrowserState): Room | null {
+    const room = this.rooms.get(roomId);
+    if (!room) return null;
+
+    room.browserState = state;
+    if (state.tabs.length > 0) {
+      room.tabs = state.tabs;
+      room.activeTabIndex = Math.max(state.tabs.findIndex(tab => tab.id === state.activeTabId), 0);
+      // Every node hears browser-state from the browser service itself, so
+      // this is saved but not replicated
+      this.store.save(this.toStored(room));
+    }
+    return room;
+  }
+
+  // Post a chat message to the sender's room
+  addChatMessage(userId: string, text: unknown): ChatResult {
+    const room = this.getUserRoom(userId);
+    if (!room) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    const user = room.users.get(userId)!;
+    if (user.muted) {
+      return { success: false, error: 'You are muted' };
+    }
+
+    const trimmed = typeof text === 'string' ? text.trim() : '';
+    if (!trimmed) {
+      return { success: false, error: 'Message is empty' };
+    }
+
+    if (trimmed.length > MAX_CHAT_LENGTH) {
+      return { success: false, error: `Messages can be at most ${MAX_CHAT_LENGTH} characters` };
+    }
+
+    const message: ChatMessage = {
+      id: uuidv4(),
+      userId,
+      userName: user.name,
+      text: trimmed,
+      timestamp: Date.now()
+    };
+    this.appendChat(room, message);
+    room.lastActivity = new Date();
+    this.emit('chat-message', room.id, message);
+
+    return { success: true, room, message };
+  }
+
+  getChatHistory(roomId: string): ChatMessage[] {
+    return this.rooms.get(roomId)?.chat ?? [];
+  }
+
+  private appendChat(room: Room, message: ChatMessage): void {
+    room.chat.push(message);
+    if (room.chat.length > MAX_CHAT_HISTORY) {
+      room.chat.splice(0, room.chat.length - MAX_CHAT_HISTORY);
+    }
+  }
+
+  // Check that a member may mark up the room's page and that the input is a
+  // valid annotation. The annotation is anchored to the page's current URL
+  // but not kept; drafts being drawn are relayed this way.
+  prepareAnnotation(roomId: string, userId: string, input: AnnotationInput): AnnotationResult {
+    const room = this.rooms.get(roomId);
+    const user = room?.users.get(userId);
+    if (!room || !user) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    if (!hasRole(user.role, 'controller')) {
+      return { success: false, error: 'Viewers can only watch' };
+    }
+
+    if (user.muted) {
+      return { success: false, error: 'You are muted' };
+    }
+
+    if (!room.browserState) {
+      return { success: false, error: 'The page has not loaded yet' };
+    }
+
+    if (!input || !ANNOTATION_KINDS.includes(input.kind)) {
+      return { success: false, error: 'Unknown annotation kind' };
+    }
+
+    const points = Array.isArray(input.points) ? input.points.map(point => ({ x: Number(point?.x), y: Number(point?.y) })) : [];
+    if (points.length > MAX_ANNOTATION_POINTS || points.some(point => !Number.isFinite(point.x) || !Number.isFinite(point.y))) {
+      return { success: false, error: 'Invalid annotation points' };
+    }
+
+    // Freehand needs a stroke, arrows and rectangles two ends, notes one spot
+    const expected = input.kind === 'freehand' ? points.length >= 2 : points.length === (input.kind === 'text' ? 1 : 2);
+    if (!expected) {
+      return { success: false, error: 'Invalid annotation points' };
+    }
+
+    const text = typeof input.text === 'string' ? input.text.trim() : '';
+    if (input.kind === 'text' && (!text || text.length > MAX_NOTE_LENGTH)) {
+      return { success: false, error: `Notes need between 1 and ${MAX_NOTE_LENGTH} characters` };
+    }
+
+    const annotation: Annotation = {
+      id: uuidv4(),
+      userId,
+      userName: user.name,
+      kind: input.kind,
+      color: typeof input.color === 'string' && /^#[0-9a-f]{6}$/i.test(input.color) ? input.color : '#ff3b30',
+      points,
+      ...(input.kind === 'text' ? { text } : {}),
+      url: room.browserState.url,
+      createdAt: Date.now()
+    };
+
+    return { success: true, room, annotation };
+  }
+
+  addAnnotation(roomId: string, userId: string, input: AnnotationInput): AnnotationResult {
+    const result = this.prepareAnnotation(roomId, userId, input);
+    if (!result.success || !result.room || !result.annotation) {
+      return result;
+    }
+
+    this.appendAnnotation(result.room, result.annotation);
+    result.room.lastActivity = new Date();
+    this.emit('annotation-added', roomId, result.annotation);
+
+    return result;
+  }
+
+  // Take back a member's latest annotation on the page the room is showing
+  undoAnnotation(roomId: string, userId: string): AnnotationResult {
+    const room = this.rooms.get(roomId);
+    if (!room || !room.users.has(userId)) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    const url = room.browserState?.url;
+    const annotation = [...room.annotations].reverse().find(a => a.userId === userId && a.url === url);
+    if (!annotation) {
+      return { success: false, error: 'Nothing to undo' };
+    }
+
+    room.annotations = room.annotations.filter(a => a !== annotation);
+    this.emit('annotation-removed', roomId, annotation.id);
+
+    return { success: true, room, annotation };
+  }
+
+  // Wipe every annotation in the actor's room
+  clearAnnotations(actorId: string): ControlResult {
+    const room = this.getUserRoom(actorId);
+    if (!room) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    if (!hasRole(room.users.get(actorId)!.role, 'moderator')) {
+      return { success: false, error: 'Only a moderator can clear annotations' };
+    }
+
+    room.annotations = [];
+    this.emit('annotations-cleared', room.id);
+
+    return { success: true, room };
+  }
+
+  getAnnotations(roomId: string): Annotation[] {
+    return this.rooms.get(roomId)?.annotations ?? [];
+  }
+
+  private appendAnnotation(room: Room, annotation: Annotation): void {
+    room.annotations.push(annotation);
+    if (room.annotations.length > MAX_ANNOTATIONS) {
+      room.annotations.splice(0, room.annotations.length - MAX_ANNOTATIONS);
+    }
+  }
+
   // Update user activity
   updateUserActivity(userId: string): void {
     const roomId = this.userToRoom.get(userId);
@@ -144,6 +1036,170 @@ export class RoomManager {
     room.lastActivity = new Date();
   }
 
+  // Ask for control; granted straight away if nobody holds it
+  requestControl(userId: string): ControlResult {
+    const room = this.getUserRoom(userId);
+    if (!room) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    if (room.control.holderId === userId) {
+      return { success: false, error: 'You already have control' };
+    }
+
+    const user = room.users.get(userId)!;
+    if (!hasRole(user.role, 'controller')) {
+      return { success: false, error: 'Viewers cannot take control' };
+    }
+
+    if (user.muted) {
+      return { success: false, error: 'You are muted' };
+    }
+
+    if (!room.control.holderId) {
+      this.setControlHolder(room, userId);
+      console.log(`🎮 User ${userId} took free control of room ${room.id}`);
+    } else if (!room.control.requests.includes(userId)) {
+      room.control.requests.push(userId);
+      this.controlChanged(room);
+      console.log(`🙋 User ${userId} requested control of room ${room.id}`);
+    }
+
+    return { success: true, room };
+  }
+
+  // Hand control to a member; only the current holder or a moderator may do this
+  grantControl(granterId: string, targetId: string): ControlResult {
+    const room = this.getUserRoom(granterId);
+    if (!room) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    if (!this.canManageControl(room, granterId)) {
+      return { success: false, error: 'Only a moderator or the current controller can grant control' };
+    }
+
+    const target = room.users.get(targetId);
+    if (!target) {
+      return { success: false, error: 'User not in room' };
+    }
+
+    if (!hasRole(target.role, 'controller')) {
+      return { success: false, error: 'Viewers cannot be given control' };
+    }
+
+    if (target.muted) {
+      return { success: false, error: 'Muted members cannot be given control' };
+    }
+
+    this.setControlHolder(room, targetId);
+    console.log(`🎮 User ${granterId} granted control of room ${room.id} to ${targetId}`);
+    return { success: true, room };
+  }
+
+  // Turn down a pending control request
+  denyControl(denierId: string, targetId: string): ControlResult {
+    const room = this.getUserRoom(denierId);
+    if (!room) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    if (!this.canManageControl(room, denierId)) {
+      return { success: false, error: 'Only a moderator or the current controller can deny control' };
+    }
+
+    if (!room.control.requests.includes(targetId)) {
+      return { success: false, error: 'No pending request from that user' };
+    }
+
+    room.control.requests = room.control.requests.filter(id => id !== targetId);
+    this.controlChanged(room);
+    return { success: true, room };
+  }
+
+  // Take control away from the holder; the holder may also give it up
+  revokeControl(userId: string): ControlResult {
+    const room = this.getUserRoom(userId);
+    if (!room) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    if (!this.canManageControl(room, userId)) {
+      return { success: false, error: 'Only a moderator or the current controller can revoke control' };
+    }
+
+    if (!room.control.holderId) {
+      return { success: false, error: 'Nobody has control' };
+    }
+
+    console.log(`🛑 Control of room ${room.id} revoked from ${room.control.holderId} by ${userId}`);
+    this.setControlHolder(room, null);
+    return { success: true, room };
+  }
+
+  // Check whether a user holds control of a room, recording the input if so
+  canControl(roomId: string, userId: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room || room.control.holderId !== userId) {
+      return false;
+    }
+
+    room.control.lastInputAt = new Date();
+    return true;
+  }
+
+  // Release control held without input for too long; returns affected rooms.
+  // Input is only seen by the holder's own node, so only that node decides.
+  expireIdleControl(timeout: number = CONTROL_IDLE_TIMEOUT): Room[] {
+    const now = Date.now();
+    const expired: Room[] = [];
+
+    for (const room of this.rooms.values()) {
+      const { holderId, lastInputAt, grantedAt } = room.control;
+      const lastUsed = lastInputAt ?? grantedAt;
+
+      if (holderId && this.localUsers.has(holderId) && lastUsed && now - lastUsed.getTime() > timeout) {
+        console.log(`⏰ Control of room ${room.id} expired for idle user ${holderId}`);
+        this.setControlHolder(room, null);
+        expired.push(room);
+      }
+    }
+
+    return expired;
+  }
+
+  private canManageControl(room: Room, userId: string): boolean {
+    const user = room.users.get(userId);
+    return room.control.holderId === userId || (user !== undefined && hasRole(user.role, 'moderator'));
+  }
+
+  private setControlHolder(room: Room, userId: string | null): void {
+    room.control.holderId = userId;
+    room.control.grantedAt = userId ? new Date() : null;
+    room.control.lastInputAt = null;
+    room.control.requests = room.control.requests.filter(id => id !== userId);
+    this.controlChanged(room);
+  }
+
+  // Forget a departing member's control and pending request
+  private dropFromControl(room: Room, userId: string): void {
+    if (room.control.holderId === userId) {
+      this.setControlHolder(room, null);
+    } else if (room.control.requests.includes(userId)) {
+      room.control.requests = room.control.requests.filter(id => id !== userId);
+      this.controlChanged(room);
+    }
+  }
+
+  private controlChanged(room: Room): void {
+    this.emit('control-changed', room.id, room.control);
+  }
+
+  // Get every room, including empty ones waiting to be deleted
+  getRooms(): Room[] {
+    return Array.from(this.rooms.values());
+  }
+
   // Get all active rooms
   getActiveRooms(): Room[] {
     return Array.from(this.rooms.values()).filter(room => room.users.size > 0);
@@ -155,19 +1211,18 @@ export class RoomManager {
     const timeout = 30 * 60 * 1000; // 30 minutes
 
     for (const [roomId, room] of this.rooms.entries()) {
-      // Remove inactive users
-      for (const [userId, user] of room.users.entries()) {
-        if (now.getTime() - user.lastActivity.getTime() > timeout) {
+      // Remove inactive users; activity is tracked by each member's own node
+      for (const [userId, user] of Array.from(room.users.entries())) {
+        if (this.localUsers.has(userId) && now.getTime() - user.lastActivity.getTime() > timeout) {
           console.log(`⏰ Removing inactive user ${userId} from room ${roomId}`);
-          room.users.delete(userId);
-          this.userToRoom.delete(userId);
+          this.leaveRoom(userId);
         }
       }
 
       // Remove empty rooms
       if (room.users.size === 0 && now.getTime() - room.lastActivity.getTime() > timeout) {
         console.log(`⏰ Deleting inactive room: ${roomId}`);
-        this.rooms.delete(roomId);
+        this.deleteRoom(roomId);
       }
     }
   }
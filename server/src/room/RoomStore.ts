@@ -0,0 +1,33 @@
+import { StoredRoom } from '../types';
+
+// Where rooms are kept between server restarts. RoomManager holds live rooms
+// in memory and writes through to the store whenever a durable field changes.
+export interface RoomStore {
+  // Every room saved so far, read once at startup
+  load(): StoredRoom[];
+  save(room: StoredRoom): void;
+  delete(roomId: string): void;
+  // Write out anything still pending; called on shutdown
+  flush(): void;
+}
+
+// Keeps rooms for the lifetime of the process only
+export class MemoryRoomStore implements RoomStore {
+  private rooms: Map<string, StoredRoom> = new Map();
+
+  load(): StoredRoom[] {
+    return Array.from(this.rooms.values());
+  }
+
+  save(room: StoredRoom): void {
+    this.rooms.set(room.id, room);
+  }
+
+  delete(roomId: string): void {
+    this.rooms.delete(roomId);
+  }
+
+  flush(): void {
+    // Nothing to write
+  }
+}
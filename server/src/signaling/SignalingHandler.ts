@@ -1,42 +1,240 @@
 import { Server, Socket } from 'socket.io';
-import io from 'socket.io-client';
-import { RoomManager } from '../room/RoomManager';
-import { SignalingMessage, ControlMessage } from '../types';
+import { AnnotationInput, RoomManager } from '../room/RoomManager';
+import { RoomSync } from '../cluster/RoomSync';
+import { BrowserWorker, WorkerPool } from '../workers/WorkerPool';
+import { SignalingMessage, ControlMessage, Room, Role, User, SessionDescription, IceCandidate, BrowserState, DeviceSettings, MediaAction, MediaCommand, MediaState, RecordingInfo, TourCommand, TourState } from '../types';
+import { hasRole } from '../auth/roles';
 
+const CONTROL_TYPES: ControlMessage['type'][] = ['mouse', 'keyboard', 'scroll', 'click', 'navigation'];
+const MEDIA_ACTIONS: MediaAction[] = ['play', 'pause', 'seek', 'volume', 'mute', 'rate'];
+const FRAME_ACK_TIMEOUT = 2000; // Don't let one stalled viewer hold frames forever
+const MAX_TABS = 8; // Matches the browser service's per-room limit
+const MAX_REASON_LENGTH = 200;
+const POINTER_INTERVAL = 40; // Views send pointer moves every 50ms; allow some jitter
+const PING_INTERVAL = 1000;
+const DRAFT_INTERVAL = 90; // Views send annotation drafts every 100ms
+const TOUR_COMMANDS: TourCommand[] = ['pause', 'resume', 'skip', 'stop'];
+const MAX_TOUR_SOURCE_LENGTH = 64 * 1024; // Matches the browser service's limit
+
+// Room broadcasts and messages addressed to a socket id go through the
+// Socket.IO adapter, so with a cluster adapter they reach members connected
+// to other signaling nodes too. Everything the browser service sends reaches
+// every node, so those relays only go to this node's own sockets. Each
+// room's page runs on one browser-service worker from the WorkerPool.
 export class SignalingHandler {
   private io: Server;
   private roomManager: RoomManager;
+  private workers: WorkerPool;
+  private roomSync: RoomSync | null;
+  // Sockets connected to this node
   private connectedSockets: Map<string, Socket> = new Map();
-  private browserSocket: any = null;
 
-  constructor(io: Server, roomManager: RoomManager) {
+  constructor(io: Server, roomManager: RoomManager, workers: WorkerPool, roomSync: RoomSync | null = null) {
     this.io = io;
     this.roomManager = roomManager;
+    this.workers = workers;
+    this.roomSync = roomSync;
     this.setupSocketHandlers();
-    this.connectToBrowserService();
+    this.setupRoomLifecycle();
+    this.setupWorkers();
     this.setupBrowserWebRTCHandlers();
     this.startHeartbeat();
   }
 
-  private connectToBrowserService(): void {
-    console.log('🔗 Connecting to browser service...');
+  private setupWorkers(): void {
+    for (const worker of this.workers.getWorkers()) {
+      this.attachWorker(worker);
+    }
+    this.workers.on('worker-added', (worker: BrowserWorker) => this.attachWorker(worker));
+
+    // The room's page now runs on another worker; its viewers start over there
+    this.workers.on('room-moved', (roomId: string) => {
+      this.io.of('/browser-webrtc').to(roomId).emit('browser-reset', { roomId });
+    });
+
+    // Every worker is full; the room's views say so until it opens
+    this.workers.on('room-waiting', (roomId: string) => {
+      this.io.of('/browser-webrtc').to(roomId).emit('browser-waiting', { roomId });
+    });
+  }
+
+  // Relay a worker's replies to the viewers they are for
+  private attachWorker(worker: BrowserWorker): void {
+    const socket = worker.socket;
+
+    // Relay the browser service's side of each viewer's WebRTC negotiation
+    socket.on('webrtc-answer', (data: { answer: SessionDescription; clientId: string }) => {
+      console.log('📡 Received WebRTC answer from browser service');
+      this.getBrowserViewer(data.clientId)?.emit('webrtc-answer', { answer: data.answer });
+    });
+
+    socket.on('webrtc-ice-candidate', (data: { candidate: IceCandidate; clientId: string }) => {
+      this.getBrowserViewer(data.clientId)?.emit('webrtc-ice-candidate', { candidate: data.candidate });
+    });
+
+    socket.on('webrtc-error', (data: { message: string; clientId: string }) => {
+      this.getBrowserViewer(data.clientId)?.emit('webrtc-error', { message: data.message });
+    });
+
+    // Relay screencast frames to the viewer they were captured for. The
+    // browser service waits for this ack before capturing the next frame.
+    socket.on('browser-frame', (data: { clientId: string; frame: Buffer; metadata: any; timestamp: number }, ack?: () => void) => {
+      const viewer = this.getBrowserViewer(data.clientId);
+      if (!viewer) {
+        ack?.();
+        return;
+      }
+
+      viewer.timeout(FRAME_ACK_TIMEOUT).emit('browser-frame', {
+        frame: data.frame,
+        metadata: data.metadata,
+        timestamp: data.timestamp
+      }, () => ack?.());
+    });
+
+    // Audio is timestamped on the same clock as frames; late packets are
+    // useless, so they are dropped rather than buffered
+    socket.on('browser-audio', (data: { clientId: string; audio: Buffer; sampleRate: number; channels: number; timestamp: number }) => {
+      this.getBrowserViewer(data.clientId)?.volatile.emit('browser-audio', {
+        audio: data.audio,
+        sampleRate: data.sampleRate,
+        channels: data.channels,
+        timestamp: data.timestamp
+      });
+    });
+
+    // The room's page changed (navigation, loading, title, scroll); tell
+    // everyone in the room and every browser view showing it. A worker the
+    // room has moved away from may still report on it, so only the room's
+    // own worker is listened to.
+    socket.on('browser-state', (data: { roomId: string; state: BrowserState }) => {
+      if (this.roomManager.getRoom(data.roomId)?.workerUrl !== worker.url) return;
 
-    this.browserSocket = io('http://localhost:3002', {
-      transports: ['websocket', 'polling']
+      const room = this.roomManager.updateBrowserState(data.roomId, data.state);
+      if (!room) return;
+
+      this.io.local.to(room.id).emit('browser-state', { roomId: room.id, state: data.state });
+      this.io.of('/browser-webrtc').local.to(room.id).emit('browser-state', { roomId: room.id, state: data.state });
+    });
+
+    // The holder is driving the page over a WebRTC data channel, which
+    // keeps their control from expiring just as input sent through here does
+    socket.on('control-input', (data: { roomId: string; userId: string }) => {
+      if (this.roomManager.getRoom(data.roomId)?.workerUrl !== worker.url) return;
+
+      if (this.roomManager.canControl(data.roomId, data.userId)) {
+        this.roomManager.updateUserActivity(data.userId);
+      }
+    });
+
+    // Media on the room's page played, paused, seeked or came and went
+    socket.on('media-state', (data: { roomId: string; state: MediaState }) => {
+      if (this.roomManager.getRoom(data.roomId)?.workerUrl !== worker.url) return;
+
+      const room = this.roomManager.updateMediaState(data.roomId, data.state);
+      if (room) {
+        this.io.local.to(room.id).emit('media-state', { roomId: room.id, state: data.state });
+      }
+    });
+
+    // A media command failed on the page, e.g. because there was no media
+    socket.on('media-error', (data: { roomId: string; userId: string; message: string }) => {
+      this.connectedSockets.get(data.userId)?.emit('control-error', { message: data.message });
     });
 
-    this.browserSocket.on('connect', () => {
-      console.log('✅ Connected to browser service');
+    // The room's recording started or stopped
+    socket.on('recording-state', (data: { roomId: string; recording: RecordingInfo | null }) => {
+      if (this.roomManager.getRoom(data.roomId)?.workerUrl !== worker.url) return;
+
+      const room = this.roomManager.updateRecording(data.roomId, data.recording);
+      if (room) {
+        this.io.local.to(room.id).emit('recording-state', { roomId: room.id, recording: data.recording });
+      }
     });
 
-    this.browserSocket.on('disconnect', () => {
-      console.log('❌ Disconnected from browser service, attempting to reconnect...');
-      setTimeout(() => this.connectToBrowserService(), 2000);
+    socket.on('recording-error', (data: { roomId: string; userId: string; message: string }) => {
+      this.connectedSockets.get(data.userId)?.emit('control-error', { message: data.message });
     });
 
-    this.browserSocket.on('connect_error', (error: any) => {
-      console.error('❌ Failed to connect to browser service:', error.message);
-      setTimeout(() => this.connectToBrowserService(), 2000);
+    // The room's tour moved on, paused, or ended
+    socket.on('tour-state', (data: { roomId: string; tour: TourState | null }) => {
+      if (this.roomManager.getRoom(data.roomId)?.workerUrl !== worker.url) return;
+
+      const room = this.roomManager.updateTour(data.roomId, data.tour);
+      if (room) {
+        this.io.local.to(room.id).emit('tour-state', { roomId: room.id, tour: data.tour });
+      }
+    });
+
+    socket.on('tour-error', (data: { roomId: string; userId: string; message: string }) => {
+      this.connectedSockets.get(data.userId)?.emit('control-error', { message: data.message });
+    });
+
+    // The room's pages now emulate a different device
+    socket.on('device-state', (data: { roomId: string; device: DeviceSettings }) => {
+      if (this.roomManager.getRoom(data.roomId)?.workerUrl !== worker.url) return;
+
+      const room = this.roomManager.updateDevice(data.roomId, data.device);
+      if (room) {
+        this.io.local.to(room.id).emit('device-state', { roomId: room.id, device: data.device });
+      }
+    });
+
+    socket.on('device-error', (data: { roomId: string; userId: string; message: string }) => {
+      this.connectedSockets.get(data.userId)?.emit('control-error', { message: data.message });
+    });
+  }
+
+  // Find a viewer connected to the /browser-webrtc namespace
+  private getBrowserViewer(clientId: string): Socket | undefined {
+    return this.io.of('/browser-webrtc').sockets.get(clientId);
+  }
+
+  // Forward an event to the worker running the room's page, if it is reachable
+  private emitToRoomWorker(roomId: string, event: string, data: any): boolean {
+    return this.workers.emitToRoom(roomId, event, data);
+  }
+
+  private setupRoomLifecycle(): void {
+    // Tear down the room's browser context once the room is gone; workers
+    // it has moved away from may still have one too
+    this.roomManager.on('room-deleted', (roomId: string) => {
+      this.workers.broadcast('close-room', { roomId });
+    });
+
+    // A member's signaling node went away. Every surviving node tells its
+    // own sockets, since the lost node can't.
+    this.roomSync?.on('member-lost', (roomId: string, userId: string) => {
+      const room = this.roomManager.getRoom(roomId);
+      if (!room) return;
+
+      this.io.local.to(roomId).emit('user-disconnected', {
+        userId,
+        users: this.roomManager.getRoomUsers(roomId)
+      });
+      this.io.local.to(roomId).emit('control-changed', {
+        ...this.getControlPayload(room),
+        reason: 'member-left'
+      });
+      this.sendControlToWorker(room);
+    });
+
+    // A member's browser views go with them, wherever they left from
+    this.roomManager.on('member-left', (roomId: string, userId: string) => {
+      for (const view of this.io.of('/browser-webrtc').sockets.values()) {
+        if (view.data.userId === userId) {
+          view.disconnect(true);
+        }
+      }
+    });
+
+    // A member's role changed, here or on another node; their old member
+    // token would bring them back with the old one
+    this.roomManager.on('role-changed', (roomId: string, user: User) => {
+      const socket = this.connectedSockets.get(user.id);
+      if (socket) {
+        socket.emit('room-token', { roomId, token: this.roomManager.issueMemberToken(roomId, user) });
+      }
     });
   }
 
@@ -47,11 +245,11 @@ export class SignalingHandler {
       this.connectedSockets.set(socket.id, socket);
 
       // Handle room operations
-      socket.on('create-room', (data: { name: string; password?: string; maxUsers?: number }) => {
+      socket.on('create-room', (data: { name: string; userName?: string; password?: string; maxUsers?: number; inviteOnly?: boolean }) => {
         this.handleCreateRoom(socket, data);
       });
 
-      socket.on('join-room', (data: { roomId: string; userName: string; password?: string }) => {
+      socket.on('join-room', (data: { roomId: string; userName: string; password?: string; token?: string }) => {
         this.handleJoinRoom(socket, data);
       });
 
@@ -81,6 +279,106 @@ export class SignalingHandler {
         this.handleUrlChange(socket, data);
       });
 
+      // Handle playback of the page's video and audio
+      socket.on('media-command', (data: MediaCommand) => {
+        this.handleMediaCommand(socket, data);
+      });
+
+      // Handle tabs
+      socket.on('open-tab', (data?: { url?: string }) => {
+        this.handleOpenTab(socket, data);
+      });
+
+      socket.on('close-tab', (data: { tabId: string }) => {
+        this.handleCloseTab(socket, data);
+      });
+
+      socket.on('switch-tab', (data: { tabId: string }) => {
+        this.handleSwitchTab(socket, data);
+      });
+
+      // Handle control handoff
+      socket.on('request-control', () => {
+        this.handleRequestControl(socket);
+      });
+
+      socket.on('grant-control', (data: { userId: string }) => {
+        this.handleGrantControl(socket, data);
+      });
+
+      socket.on('deny-control', (data: { userId: string }) => {
+        this.handleDenyControl(socket, data);
+      });
+
+      socket.on('revoke-control', () => {
+        this.handleRevokeControl(socket);
+      });
+
+      // Handle invites and roles
+      socket.on('create-invite', (data?: { role?: Role; expiresIn?: number; singleUse?: boolean }) => {
+        this.handleCreateInvite(socket, data);
+      });
+
+      socket.on('set-role', (data: { userId: string; role: Role }) => {
+        this.handleSetRole(socket, data);
+      });
+
+      // Handle moderation
+      socket.on('kick-member', (data: { userId: string; reason?: string }) => {
+        this.handleRemoveMember(socket, data, false);
+      });
+
+      socket.on('ban-member', (data: { userId: string; reason?: string }) => {
+        this.handleRemoveMember(socket, data, true);
+      });
+
+      socket.on('mute-member', (data: { userId: string; muted: boolean }) => {
+        this.handleMuteMember(socket, data);
+      });
+
+      socket.on('transfer-ownership', (data: { userId: string }) => {
+        this.handleTransferOwnership(socket, data);
+      });
+
+      // Handle annotations; they are drawn in the browser view
+      socket.on('clear-annotations', () => {
+        this.handleClearAnnotations(socket);
+      });
+
+      // Handle recording; the browser service records, and serves the replay
+      socket.on('start-recording', () => {
+        this.handleRecording(socket, true);
+      });
+
+      socket.on('stop-recording', () => {
+        this.handleRecording(socket, false);
+      });
+
+      // Handle tours; the browser service plays them, and their captions
+      // come back with the tour's state
+      socket.on('start-tour', (data: { source: string }) => {
+        this.handleStartTour(socket, data);
+      });
+
+      socket.on('tour-command', (data: { command: TourCommand }) => {
+        this.handleTourCommand(socket, data);
+      });
+
+      // The host changes the device the room's pages are shown on; the
+      // browser service checks the settings and reports them back
+      socket.on('set-device', (data: { device: Partial<DeviceSettings> }) => {
+        this.handleSetDevice(socket, data);
+      });
+
+      // Handle chat
+      socket.on('chat-message', (data: { text: string }) => {
+        this.handleChatMessage(socket, data);
+      });
+
+      socket.on('typing', (data: { isTyping: boolean }) => {
+        this.handleTyping(socket, data);
+      });
+
       // Handle disconnection
       socket.on('disconnect', () => {
         console.log(`🔌 Client disconnected: ${socket.id}`);
@@ -90,23 +388,46 @@ export class SignalingHandler {
     });
   }
 
-  private handleCreateRoom(socket: Socket, data: { name: string; password?: string; maxUsers?: number }): void {
+  private handleCreateRoom(socket: Socket, data: { name: string; userName?: string; password?: string; maxUsers?: number; inviteOnly?: boolean }): void {
     try {
-      const room = this.roomManager.createRoom(data.name, data.password, data.maxUsers);
+      // The creator becomes the room's first member and owner
+      const { room, token } = this.roomManager.createRoom(
+        data.name,
+        { id: socket.id, name: data.userName || 'Anonymous User' },
+        { password: data.password || undefined, maxUsers: data.maxUsers, inviteOnly: data.inviteOnly }
+      );
+      if (!room) return;
 
       // Join the socket to the room
       socket.join(room.id);
 
+      const users = this.roomManager.getRoomUsers(room.id);
+      this.workers.openRoom(room.id);
+
       socket.emit('room-created', {
         roomId: room.id,
         room: {
           id: room.id,
           name: room.name,
-          currentUrl: room.currentUrl,
+          tabs: room.tabs,
+          activeTabIndex: room.activeTabIndex,
+          users: users,
           userCount: room.users.size,
-          maxUsers: room.maxUsers
-        }
+          maxUsers: room.maxUsers,
+          inviteOnly: room.inviteOnly,
+          control: this.getControlPayload(room),
+          browserState: room.browserState,
+          mediaState: room.mediaState,
+          recording: room.recording,
+          tour: room.tour,
+          device: room.device,
+          chat: this.roomManager.getChatHistory(room.id)
+        },
+        user: room.users.get(socket.id),
+        token,
+        viewToken: this.roomManager.issueViewToken(room.id, socket.id)
       });
+      this.broadcastControlState(room, 'created');
 
     } catch (error) {
       console.error('Error creating room:', error);
@@ -114,9 +435,12 @@ export class SignalingHandler {
     }
   }
 
-  private handleJoinRoom(socket: Socket, data: { roomId: string; userName: string; password?: string }): void {
+  private handleJoinRoom(socket: Socket, data: { roomId: string; userName: string; password?: string; token?: string }): void {
     try {
-      const result = this.roomManager.joinRoom(data.roomId, socket.id, data.userName, data.password);
+      const result = this.roomManager.joinRoom(data.roomId, socket.id, data.userName, {
+        password: data.password,
+        token: data.token
+      });
 
       if (result.success && result.room) {
         const room = result.room;
@@ -134,13 +458,29 @@ export class SignalingHandler {
           room: {
             id: room.id,
             name: room.name,
-            currentUrl: room.currentUrl,
+            tabs: room.tabs,
+            activeTabIndex: room.activeTabIndex,
             users: users,
-            maxUsers: room.maxUsers
+            maxUsers: room.maxUsers,
+            inviteOnly: room.inviteOnly,
+            control: this.getControlPayload(room),
+            browserState: room.browserState,
+            mediaState: room.mediaState,
+            recording: room.recording,
+            tour: room.tour,
+            device: room.device,
+            chat: this.roomManager.getChatHistory(room.id)
           },
-          user: user
+          user: user,
+          token: result.token,
+          viewToken: this.roomManager.issueViewToken(room.id, socket.id)
         });
 
+        // The first member brings up the room's browser context
+        if (users.length === 1) {
+          this.workers.openRoom(room.id);
+        }
+
         // Notify other users in the room
         socket.to(room.id).emit('user-joined', {
           userId: socket.id,
@@ -170,6 +510,7 @@ export class SignalingHandler {
           userId: socket.id,
           users: this.roomManager.getRoomUsers(room.id)
         });
+        this.broadcastControlState(room, 'member-left');
       }
     } catch (error) {
       console.error('Error leaving room:', error);
@@ -177,59 +518,490 @@ export class SignalingHandler {
   }
 
   private handleWebRTCOffer(socket: Socket, message: SignalingMessage): void {
-    const targetSocket = this.connectedSockets.get(message.to!);
-    if (targetSocket) {
-      targetSocket.emit('webrtc-offer', message);
-    }
+    this.relayToRoomMember(socket, 'webrtc-offer', message);
   }
 
   private handleWebRTCAnswer(socket: Socket, message: SignalingMessage): void {
-    const targetSocket = this.connectedSockets.get(message.to!);
-    if (targetSocket) {
-      targetSocket.emit('webrtc-answer', message);
-    }
+    this.relayToRoomMember(socket, 'webrtc-answer', message);
   }
 
   private handleICECandidate(socket: Socket, message: SignalingMessage): void {
-    const targetSocket = this.connectedSockets.get(message.to!);
-    if (targetSocket) {
-      targetSocket.emit('webrtc-ice-candidate', message);
+    this.relayToRoomMember(socket, 'webrtc-ice-candidate', message);
+  }
+
+  // Peer-to-peer signaling only flows between members of the same room
+  private relayToRoomMember(socket: Socket, event: string, message: SignalingMessage): void {
+    const room = this.roomManager.getUserRoom(socket.id);
+    if (!room || !message?.to || !room.users.has(message.to)) {
+      return;
     }
+
+    this.io.to(message.to).emit(event, { ...message, from: socket.id });
   }
 
   private handleControlMessage(socket: Socket, message: ControlMessage): void {
     const room = this.roomManager.getUserRoom(socket.id);
     if (room) {
-      // Broadcast to all users in the room except sender
-      socket.to(room.id).emit('control', message);
+      this.forwardControlMessage(room.id, socket.id, message);
+    }
+  }
+
+  // Route the controller's input to the room's page in the browser service.
+  // Input from anyone who doesn't hold control is dropped here.
+  private forwardControlMessage(roomId: string, userId: string, message: ControlMessage): boolean {
+    if (!message || !CONTROL_TYPES.includes(message.type)) {
+      return false;
+    }
+
+    if (!this.roomManager.canControl(roomId, userId)) {
+      return false;
+    }
+
+    this.roomManager.updateUserActivity(userId);
+
+    return this.emitToRoomWorker(roomId, 'control', {
+      roomId,
+      message: {
+        type: message.type,
+        userId,
+        data: message.data,
+        timestamp: message.timestamp || Date.now()
+      }
+    });
+  }
+
+  private handleMediaCommand(socket: Socket, data: MediaCommand): void {
+    const room = this.roomManager.getUserRoom(socket.id);
+    if (!room) return;
+
+    if (!data || !MEDIA_ACTIONS.includes(data.action)) {
+      socket.emit('control-error', { message: 'Unknown media command' });
+      return;
+    }
+
+    const needsNumber = data.action === 'seek' || data.action === 'volume' || data.action === 'rate';
+    if (needsNumber && !Number.isFinite(data.value)) {
+      socket.emit('control-error', { message: `A ${data.action} command needs a number` });
+      return;
+    }
+
+    if (!this.roomManager.canControl(room.id, socket.id)) {
+      socket.emit('control-error', { message: 'Only the member with control can control playback' });
+      return;
+    }
+
+    const command: MediaCommand = {
+      action: data.action,
+      ...(Number.isInteger(data.mediaId) ? { mediaId: data.mediaId } : {}),
+      ...(data.value !== undefined ? { value: data.action === 'mute' ? data.value === true : Number(data.value) } : {})
+    };
+
+    if (!this.emitToRoomWorker(room.id, 'media-command', { roomId: room.id, userId: socket.id, command })) {
+      socket.emit('error', { message: 'Browser service not available' });
     }
   }
 
   private handleUrlChange(socket: Socket, data: { url: string }): void {
     const room = this.roomManager.getUserRoom(socket.id);
     if (room) {
-      // Update room URL
+      if (typeof data?.url !== 'string' || !data.url) {
+        socket.emit('control-error', { message: 'A URL is required' });
+        return;
+      }
+      if (!this.roomManager.canControl(room.id, socket.id)) {
+        socket.emit('control-error', { message: 'Only the member with control can change the URL' });
+        return;
+      }
+
+      // Update room URL and navigate the room's page; the page reports back
+      // with browser-state as it loads
       this.roomManager.updateRoomUrl(room.id, data.url);
+      if (!this.emitToRoomWorker(room.id, 'navigate', { roomId: room.id, url: data.url })) {
+        socket.emit('error', { message: 'Browser service not available' });
+      }
 
       // Broadcast URL change to all users in the room
       this.io.to(room.id).emit('url-changed', {
+        roomId: room.id,
         url: data.url,
         changedBy: socket.id
       });
     }
   }
 
+  // Tabs live in the browser service, which reports the new tab strip back
+  // through browser-state. Only the member with control can change tabs.
+  private handleOpenTab(socket: Socket, data?: { url?: string }): void {
+    const room = this.getControlledRoom(socket, 'Only the member with control can open tabs');
+    if (!room) return;
+
+    if (room.tabs.length >= MAX_TABS) {
+      socket.emit('control-error', { message: `A room can have at most ${MAX_TABS} tabs` });
+      return;
+    }
+
+    this.emitToRoomWorker(room.id, 'open-tab', {
+      roomId: room.id,
+      url: typeof data?.url === 'string' && data.url.trim() ? data.url.trim() : undefined
+    });
+  }
+
+  private handleCloseTab(socket: Socket, data: { tabId: string }): void {
+    const room = this.getControlledRoom(socket, 'Only the member with control can close tabs');
+    if (!room) return;
+
+    if (!room.tabs.some(tab => tab.id === data?.tabId)) {
+      socket.emit('control-error', { message: 'Tab not found' });
+      return;
+    }
+
+    if (room.tabs.length <= 1) {
+      socket.emit('control-error', { message: 'A room needs at least one tab' });
+      return;
+    }
+
+    this.emitToRoomWorker(room.id, 'close-tab', { roomId: room.id, tabId: data.tabId });
+  }
+
+  private handleSwitchTab(socket: Socket, data: { tabId: string }): void {
+    const room = this.getControlledRoom(socket, 'Only the member with control can switch tabs');
+    if (!room) return;
+
+    if (!room.tabs.some(tab => tab.id === data?.tabId)) {
+      socket.emit('control-error', { message: 'Tab not found' });
+      return;
+    }
+
+    this.emitToRoomWorker(room.id, 'switch-tab', { roomId: room.id, tabId: data.tabId });
+  }
+
+  // The sender's room, if they hold its control; otherwise tell them why not
+  private getControlledRoom(socket: Socket, message: string): Room | null {
+    const room = this.roomManager.getUserRoom(socket.id);
+    if (!room) return null;
+
+    if (!this.roomManager.canControl(room.id, socket.id)) {
+      socket.emit('control-error', { message });
+      return null;
+    }
+
+    return room;
+  }
+
+  private handleRequestControl(socket: Socket): void {
+    const result = this.roomManager.requestControl(socket.id);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    this.broadcastControlState(result.room, 'requested');
+  }
+
+  private handleGrantControl(socket: Socket, data: { userId: string }): void {
+    const result = this.roomManager.grantControl(socket.id, data?.userId);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    this.broadcastControlState(result.room, 'granted');
+  }
+
+  private handleDenyControl(socket: Socket, data: { userId: string }): void {
+    const result = this.roomManager.denyControl(socket.id, data?.userId);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    this.io.to(data.userId).emit('control-denied', { deniedBy: socket.id });
+    this.broadcastControlState(result.room, 'denied');
+  }
+
+  private handleRevokeControl(socket: Socket): void {
+    const result = this.roomManager.revokeControl(socket.id);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    this.broadcastControlState(result.room, 'revoked');
+  }
+
+  private handleCreateInvite(socket: Socket, data?: { role?: Role; expiresIn?: number; singleUse?: boolean }): void {
+    const result = this.roomManager.createInvite(socket.id, {
+      role: data?.role,
+      expiresIn: data?.expiresIn,
+      singleUse: data?.singleUse
+    });
+    if (!result.success) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    socket.emit('invite-created', {
+      token: result.token,
+      role: result.role,
+      expiresAt: result.expiresAt,
+      singleUse: data?.singleUse === true
+    });
+  }
+
+  private handleSetRole(socket: Socket, data: { userId: string; role: Role }): void {
+    const result = this.roomManager.setRole(socket.id, data?.userId, data?.role);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    this.io.to(result.room.id).emit('role-changed', {
+      userId: data.userId,
+      role: data.role,
+      changedBy: socket.id,
+      users: this.roomManager.getRoomUsers(result.room.id)
+    });
+
+    // Viewers lose control and their place in the queue
+    if (!hasRole(data.role, 'controller')) {
+      this.broadcastControlState(result.room, 'role-changed');
+    }
+  }
+
+  // Kick or ban a member. Their socket may be connected to another node, so
+  // it is told, and taken out of the room, through the adapter.
+  private handleRemoveMember(socket: Socket, data: { userId: string; reason?: string }, ban: boolean): void {
+    const reason = typeof data?.reason === 'string' && data.reason.trim()
+      ? data.reason.trim().slice(0, MAX_REASON_LENGTH)
+      : undefined;
+    const result = ban
+      ? this.roomManager.banMember(socket.id, data?.userId, reason)
+      : this.roomManager.kickMember(socket.id, data?.userId);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    const room = result.room;
+    this.io.to(data.userId).emit('kicked', {
+      roomId: room.id,
+      reason,
+      banned: ban,
+      by: room.users.get(socket.id)?.name
+    });
+    this.io.in(data.userId).socketsLeave(room.id);
+
+    this.io.to(room.id).emit('user-left', {
+      userId: data.userId,
+      users: this.roomManager.getRoomUsers(room.id),
+      reason: ban ? 'banned' : 'kicked'
+    });
+    this.broadcastControlState(room, 'member-left');
+  }
+
+  private handleMuteMember(socket: Socket, data: { userId: string; muted: boolean }): void {
+    const result = this.roomManager.setMuted(socket.id, data?.userId, data?.muted === true);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    this.io.to(result.room.id).emit('member-muted', {
+      userId: data.userId,
+      muted: data.muted === true,
+      users: this.roomManager.getRoomUsers(result.room.id)
+    });
+
+    // Muted members lose control and their place in the queue
+    if (data.muted === true) {
+      this.broadcastControlState(result.room, 'muted');
+    }
+  }
+
+  private handleTransferOwnership(socket: Socket, data: { userId: string }): void {
+    const result = this.roomManager.transferOwnership(socket.id, data?.userId);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    this.io.to(result.room.id).emit('role-changed', {
+      userId: data.userId,
+      role: 'owner',
+      changedBy: socket.id,
+      users: this.roomManager.getRoomUsers(result.room.id)
+    });
+  }
+
+  private handleClearAnnotations(socket: Socket): void {
+    const result = this.roomManager.clearAnnotations(socket.id);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    this.io.of('/browser-webrtc').to(result.room.id).emit('annotations-cleared', {
+      clearedBy: result.room.users.get(socket.id)?.name
+    });
+  }
+
+  private handleChatMessage(socket: Socket, data: { text: string }): void {
+    const result = this.roomManager.addChatMessage(socket.id, data?.text);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    this.io.to(result.room.id).emit('chat-message', result.message);
+
+    // Chat goes into the room's recording too
+    if (result.room.recording) {
+      this.emitToRoomWorker(result.room.id, 'chat-message', { roomId: result.room.id, message: result.message });
+    }
+  }
+
+  private handleRecording(socket: Socket, start: boolean): void {
+    const result = this.roomManager.prepareRecording(socket.id, start);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    const room = result.room;
+    const sent = start
+      ? this.emitToRoomWorker(room.id, 'start-recording', {
+          roomId: room.id,
+          userId: socket.id,
+          startedBy: room.users.get(socket.id)!.name
+        })
+      : this.emitToRoomWorker(room.id, 'stop-recording', { roomId: room.id, userId: socket.id });
+    if (!sent) {
+      socket.emit('error', { message: 'Browser service not available' });
+    }
+  }
+
+  private handleStartTour(socket: Socket, data: { source: string }): void {
+    const source = data?.source;
+    if (typeof source !== 'string' || !source.trim()) {
+      socket.emit('control-error', { message: 'The tour is empty' });
+      return;
+    }
+    if (source.length > MAX_TOUR_SOURCE_LENGTH) {
+      socket.emit('control-error', { message: 'The tour is too long' });
+      return;
+    }
+
+    const result = this.roomManager.prepareTour(socket.id, true);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    const room = result.room;
+    const sent = this.emitToRoomWorker(room.id, 'start-tour', {
+      roomId: room.id,
+      userId: socket.id,
+      startedBy: room.users.get(socket.id)!.name,
+      source
+    });
+    if (!sent) {
+      socket.emit('error', { message: 'Browser service not available' });
+    }
+  }
+
+  private handleTourCommand(socket: Socket, data: { command: TourCommand }): void {
+    if (!TOUR_COMMANDS.includes(data?.command)) return;
+
+    const result = this.roomManager.prepareTour(socket.id, false);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    const sent = this.emitToRoomWorker(result.room.id, 'tour-command', {
+      roomId: result.room.id,
+      userId: socket.id,
+      command: data.command
+    });
+    if (!sent) {
+      socket.emit('error', { message: 'Browser service not available' });
+    }
+  }
+
+  private handleSetDevice(socket: Socket, data: { device: Partial<DeviceSettings> }): void {
+    if (!data?.device || typeof data.device !== 'object') {
+      socket.emit('control-error', { message: 'No device settings given' });
+      return;
+    }
+
+    const result = this.roomManager.prepareDevice(socket.id);
+    if (!result.success || !result.room) {
+      socket.emit('control-error', { message: result.error });
+      return;
+    }
+
+    const sent = this.emitToRoomWorker(result.room.id, 'set-device', {
+      roomId: result.room.id,
+      userId: socket.id,
+      device: data.device
+    });
+    if (!sent) {
+      socket.emit('error', { message: 'Browser service not available' });
+    }
+  }
+
+  private handleTyping(socket: Socket, data: { isTyping: boolean }): void {
+    const room = this.roomManager.getUserRoom(socket.id);
+    const user = room?.users.get(socket.id);
+    if (!room || !user || user.muted) return;
+
+    socket.to(room.id).emit('user-typing', {
+      userId: socket.id,
+      userName: user.name,
+      isTyping: data?.isTyping === true
+    });
+  }
+
+  private getControlPayload(room: Room): { holderId: string | null; requests: string[] } {
+    return {
+      holderId: room.control.holderId,
+      requests: room.control.requests
+    };
+  }
+
+  // Tell the room (and the browser service) who has control now
+  private broadcastControlState(room: Room, reason: string): void {
+    this.io.to(room.id).emit('control-changed', {
+      ...this.getControlPayload(room),
+      reason
+    });
+
+    this.sendControlToWorker(room);
+  }
+
+  // The worker only lets the holder's input through, and names them in recordings
+  private sendControlToWorker(room: Room): void {
+    const holderId = room.control.holderId;
+    this.emitToRoomWorker(room.id, 'control-changed', {
+      roomId: room.id,
+      holderId,
+      holderName: holderId ? room.users.get(holderId)?.name : undefined
+    });
+  }
+
   private handleDisconnect(socket: Socket): void {
     try {
+      // Look the room up before leaving, or there is nobody left to notify
+      const room = this.roomManager.getUserRoom(socket.id);
       this.roomManager.leaveRoom(socket.id);
 
       // Notify room about disconnection
-      const room = this.roomManager.getUserRoom(socket.id);
       if (room) {
         socket.to(room.id).emit('user-disconnected', {
           userId: socket.id,
           users: this.roomManager.getRoomUsers(room.id)
         });
+        this.broadcastControlState(room, 'member-left');
       }
     } catch (error) {
       console.error('Error handling disconnect:', error);
@@ -243,6 +1015,11 @@ export class SignalingHandler {
         this.roomManager.updateUserActivity(socket.id);
       }
 
+      // Release control nobody is using
+      for (const room of this.roomManager.expireIdleControl()) {
+        this.broadcastControlState(room, 'expired');
+      }
+
       // Clean up inactive rooms
       this.roomManager.cleanup();
     }, 30000); // Every 30 seconds
@@ -257,39 +1034,91 @@ export class SignalingHandler {
         id: room.id,
         name: room.name,
         userCount: room.users.size,
-        currentUrl: room.currentUrl
+        currentUrl: this.roomManager.getCurrentUrl(room.id),
+        tabCount: room.tabs.length
       }))
     };
   }
 
+  // A pointer position as fractions of the page viewport, or null if it isn't one
+  private toPagePoint(data: { x: number; y: number }): { x: number; y: number } | null {
+    const x = Number(data?.x);
+    const y = Number(data?.y);
+    if (!Number.isFinite(x) || !Number.isFinite(y) || x < 0 || x > 1 || y < 0 || y > 1) {
+      return null;
+    }
+    return { x, y };
+  }
+
   private setupBrowserWebRTCHandlers(): void {
     // Create a separate namespace for browser WebRTC connections
     const browserNamespace = this.io.of('/browser-webrtc');
 
+    // A browser view connects with the view token its member got on joining
+    // (handshake auth), which binds it to that member and their room
+    browserNamespace.use((socket, next) => {
+      const session = this.roomManager.verifyViewToken(socket.handshake.auth?.token);
+      if (!session) {
+        console.error(`❌ Browser WebRTC client ${socket.id} rejected: no valid view token`);
+        return next(new Error('Not a member of this room'));
+      }
+
+      socket.data.roomId = session.roomId;
+      socket.data.userId = session.userId;
+      next();
+    });
+
     browserNamespace.on('connection', (socket: Socket) => {
-      console.log(`🌐 Browser WebRTC client connected: ${socket.id}`);
+      // The main-namespace user this browser view belongs to; input is only
+      // forwarded while that user holds control of the room
+      const roomId: string = socket.data.roomId;
+      const userId: string = socket.data.userId;
+
+      // The member may have left since connecting; everything they send is
+      // checked against the room as it is now
+      const isMember = () => this.roomManager.isMember(roomId, userId);
+
+      // Commands that drive the page need control, as in the main namespace
+      const canControl = (message: string): boolean => {
+        if (this.roomManager.canControl(roomId, userId)) return true;
+        socket.emit('control-error', { message });
+        return false;
+      };
+
+      console.log(`🌐 Browser WebRTC client connected: ${socket.id} (room ${roomId}, user ${userId})`);
+
+      // Browser views follow the room's page state. The member's own room lets
+      // pointer updates skip the other views of the member who sent them.
+      socket.join(roomId);
+      socket.join(`views:${userId}`);
+      const room = this.roomManager.getRoom(roomId);
+      if (room?.browserState) {
+        socket.emit('browser-state', { roomId, state: room.browserState });
+      }
+      if (this.workers.isWaiting(roomId)) {
+        socket.emit('browser-waiting', { roomId });
+      }
+      socket.emit('annotations', { annotations: this.roomManager.getAnnotations(roomId) });
 
       // Handle WebRTC offer from browser client
-      socket.on('webrtc-offer', async (data: { offer: RTCSessionDescriptionInit }) => {
+      socket.on('webrtc-offer', async (data: { offer: SessionDescription }) => {
         console.log('📡 Received WebRTC offer from browser client');
+        if (!isMember()) return;
 
-        if (!this.browserSocket || !this.browserSocket.connected) {
-          console.error('❌ Browser service not connected');
+        if (!this.workers.getRoomWorker(roomId)) {
+          console.error(`❌ No browser worker is running room ${roomId}`);
           socket.emit('error', { message: 'Browser service not available' });
           return;
         }
 
         try {
-          // Forward the offer to the browser service
-          this.browserSocket.emit('webrtc-offer', {
+          // Forward the offer to the room's worker; its answer is relayed
+          // back to this socket by client id
+          this.emitToRoomWorker(roomId, 'webrtc-offer', {
             offer: data.offer,
-            clientId: socket.id
-          });
-
-          // Wait for the browser service to respond with an answer
-          this.browserSocket.once('webrtc-answer', (response: any) => {
-            console.log('📡 Received WebRTC answer from browser service');
-            socket.emit('webrtc-answer', response);
+            clientId: socket.id,
+            roomId,
+            userId
           });
 
         } catch (error) {
@@ -299,62 +1128,166 @@ export class SignalingHandler {
       });
 
       // Handle ICE candidates from browser client
-      socket.on('webrtc-ice-candidate', (data: { candidate: RTCIceCandidateInit }) => {
+      socket.on('webrtc-ice-candidate', (data: { candidate: IceCandidate }) => {
         console.log('🧊 Received ICE candidate from browser client');
+        if (!isMember()) return;
 
-        if (this.browserSocket && this.browserSocket.connected) {
-          // Forward ICE candidate to browser service
-          this.browserSocket.emit('webrtc-ice-candidate', {
-            candidate: data.candidate,
-            clientId: socket.id
-          });
-        }
+        // Forward ICE candidate to browser service
+        this.emitToRoomWorker(roomId, 'webrtc-ice-candidate', {
+          candidate: data.candidate,
+          clientId: socket.id
+        });
       });
 
       // Handle browser navigation commands
       socket.on('navigate', (data: { url: string }) => {
-        console.log(`🌐 Browser navigation request: ${data.url}`);
+        if (typeof data?.url !== 'string' || !data.url) {
+          socket.emit('control-error', { message: 'A URL is required' });
+          return;
+        }
+        console.log(`🌐 Browser navigation request for room ${roomId}: ${data.url}`);
 
-        if (this.browserSocket && this.browserSocket.connected) {
-          // Forward navigation command to browser service
-          this.browserSocket.emit('navigate', data);
-        } else {
+        if (!canControl('Only the member with control can change the URL')) return;
+
+        // Forward navigation command to browser service
+        if (!this.emitToRoomWorker(roomId, 'navigate', { roomId, url: data.url })) {
           console.error('❌ Cannot navigate: Browser service not connected');
           socket.emit('error', { message: 'Browser service not available' });
         }
       });
 
-      socket.on('refresh', () => {
-        console.log('🔄 Browser refresh request');
+      // Start the screencast for this viewer, or retune its frame rate and quality
+      socket.on('stream-settings', (data: { fps?: number; quality?: number }) => {
+        if (!isMember()) return;
+        this.emitToRoomWorker(roomId, 'stream-start', {
+          clientId: socket.id,
+          roomId,
+          fps: data?.fps,
+          quality: data?.quality
+        });
+      });
+
+      // Handle mouse, keyboard and scroll input from the browser canvas
+      socket.on('control', (message: ControlMessage) => {
+        this.forwardControlMessage(roomId, userId, message);
+      });
+
+      // Shared pointers: where each member points, as a fraction of the page
+      // viewport so it lands on the same spot at every view size
+      let lastPointerAt = 0;
+      let lastPingAt = 0;
+      // Whether the member's pointer is over this view. It is only gone from
+      // the page once it is over none of their views, on any server.
+      socket.data.pointerInside = false;
 
-        if (this.browserSocket && this.browserSocket.connected) {
-          this.browserSocket.emit('refresh');
+      const leavePointer = async () => {
+        socket.data.pointerInside = false;
+        try {
+          const views = await browserNamespace.in(`views:${userId}`).fetchSockets();
+          if (views.some(view => view.id !== socket.id && view.data.roomId === roomId && view.data.pointerInside)) return;
+        } catch (error) {
+          console.error(`❌ Could not check the other views of ${userId}:`, error);
         }
+        browserNamespace.to(roomId).except(`views:${userId}`).emit('pointer-left', { userId });
+      };
+
+      socket.on('pointer-move', (data: { x: number; y: number }) => {
+        const point = this.toPagePoint(data);
+        const user = this.roomManager.getRoom(roomId)?.users.get(userId);
+        const now = Date.now();
+        if (!point || !user) return;
+        socket.data.pointerInside = true;
+        if (now - lastPointerAt < POINTER_INTERVAL) return;
+        lastPointerAt = now;
+
+        socket.to(roomId).except(`views:${userId}`).emit('pointer-moved', {
+          userId,
+          userName: user.name,
+          ...point
+        });
       });
 
-      socket.on('back', () => {
-        console.log('⬅️ Browser back navigation');
+      socket.on('pointer-leave', leavePointer);
+
+      // Highlight a spot for everyone, including the member's own views
+      socket.on('pointer-ping', (data: { x: number; y: number }) => {
+        const point = this.toPagePoint(data);
+        const user = this.roomManager.getRoom(roomId)?.users.get(userId);
+        const now = Date.now();
+        if (!point || !user || user.muted || now - lastPingAt < PING_INTERVAL) return;
+        lastPingAt = now;
+
+        browserNamespace.to(roomId).emit('pointer-pinged', {
+          userId,
+          userName: user.name,
+          ...point
+        });
+      });
+
+      // Annotations: drafts are shown to the others while they are drawn,
+      // and kept once finished
+      let lastDraftAt = 0;
 
-        if (this.browserSocket && this.browserSocket.connected) {
-          this.browserSocket.emit('back');
+      socket.on('annotation-draft', (data: AnnotationInput) => {
+        const now = Date.now();
+        if (now - lastDraftAt < DRAFT_INTERVAL) return;
+        lastDraftAt = now;
+
+        const result = this.roomManager.prepareAnnotation(roomId, userId, data);
+        if (result.success) {
+          socket.to(roomId).except(`views:${userId}`).emit('annotation-draft', { userId, annotation: result.annotation });
         }
       });
 
-      socket.on('forward', () => {
-        console.log('➡️ Browser forward navigation');
+      socket.on('annotation-draft-end', () => {
+        socket.to(roomId).except(`views:${userId}`).emit('annotation-draft-ended', { userId });
+      });
 
-        if (this.browserSocket && this.browserSocket.connected) {
-          this.browserSocket.emit('forward');
+      socket.on('annotation-add', (data: AnnotationInput) => {
+        const result = this.roomManager.addAnnotation(roomId, userId, data);
+        if (!result.success) {
+          socket.emit('control-error', { message: result.error });
+          return;
+        }
+
+        browserNamespace.to(roomId).emit('annotation-added', result.annotation);
+      });
+
+      socket.on('annotation-undo', () => {
+        const result = this.roomManager.undoAnnotation(roomId, userId);
+        if (result.success && result.annotation) {
+          browserNamespace.to(roomId).emit('annotation-removed', { annotationId: result.annotation.id });
+        }
+      });
+
+      socket.on('refresh', () => {
+        console.log(`🔄 Browser refresh request for room ${roomId}`);
+        if (canControl('Only the member with control can refresh')) {
+          this.emitToRoomWorker(roomId, 'refresh', { roomId });
+        }
+      });
+
+      socket.on('back', () => {
+        console.log(`⬅️ Browser back navigation for room ${roomId}`);
+        if (canControl('Only the member with control can go back')) {
+          this.emitToRoomWorker(roomId, 'back', { roomId });
+        }
+      });
+
+      socket.on('forward', () => {
+        console.log(`➡️ Browser forward navigation for room ${roomId}`);
+        if (canControl('Only the member with control can go forward')) {
+          this.emitToRoomWorker(roomId, 'forward', { roomId });
         }
       });
 
       socket.on('disconnect', () => {
         console.log(`🌐 Browser WebRTC client disconnected: ${socket.id}`);
+        if (socket.data.pointerInside) leavePointer();
+        socket.to(roomId).except(`views:${userId}`).emit('annotation-draft-ended', { userId });
 
         // Notify browser service to clean up the connection
-        if (this.browserSocket && this.browserSocket.connected) {
-          this.browserSocket.emit('client-disconnected', { clientId: socket.id });
-        }
+        this.emitToRoomWorker(roomId, 'client-disconnected', { clientId: socket.id });
       });
     });
   }
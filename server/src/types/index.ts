@@ -1,20 +1,105 @@
+// What a member may do in their room, from most to least trusted. The owner
+// runs the room, moderators manage control and invites, controllers may take
+// control of the browser and viewers only watch.
+export type Role = 'owner' | 'moderator' | 'controller' | 'viewer';
+
 export interface User {
   id: string;
   name: string;
-  isHost: boolean;
+  role: Role;
+  // Stays the same when the member rejoins with their member token
+  sessionId: string;
+  // Invite the member was let in with, if any
+  inviteId?: string;
+  // Muted members can't chat or take control
+  muted: boolean;
   joinedAt: Date;
   lastActivity: Date;
 }
 
+// Someone banned from a room for as long as it exists. They are recognised by
+// their session, and by the invite that let them in; a room with bans turns
+// away joins without a token.
+export interface RoomBan {
+  sessionId: string;
+  inviteId?: string;
+  name: string;
+  reason?: string;
+  bannedBy: string;
+  bannedAt: number;
+}
+
+// Who currently has the wheel in a room; only the holder's input reaches the page
+export interface ControlState {
+  holderId: string | null;
+  grantedAt: Date | null;
+  lastInputAt: Date | null;
+  requests: string[];
+}
+
 export interface Room {
   id: string;
   name: string;
-  password?: string;
+  // Salted scrypt hash; see auth/passwords
+  passwordHash?: string;
+  // Only people holding an invite (or a member token) may join
+  inviteOnly: boolean;
+  // Single-use invites already redeemed, by invite id, with their expiry so
+  // they can be forgotten once they couldn't be used anyway
+  redeemedInvites: Record<string, number>;
+  bans: RoomBan[];
+  // Sessions muted by a moderator; they stay muted if they rejoin
+  mutedSessions: string[];
+  // Each session's current role. Member tokens carry the role they were
+  // issued with; this is what a returning member actually gets.
+  sessionRoles: Record<string, Role>;
   users: Map<string, User>;
-  currentUrl: string;
+  // Open tabs as last reported by the browser service; everyone sees the active one
+  tabs: TabInfo[];
+  activeTabIndex: number;
+  control: ControlState;
+  // Last state reported by the room's page; null until the page has loaded
+  browserState: BrowserState | null;
+  // Media on the active tab's page; null until the browser service reports it
+  mediaState: MediaState | null;
+  // The recording the browser service is making of the room, if any
+  recording: RecordingInfo | null;
+  // The tour the browser service is playing in the room, if any
+  tour: TourState | null;
+  // The device the room's pages are emulated as; null until the browser service reports it
+  device: DeviceSettings | null;
+  // Recent chat, oldest first; kept in memory only
+  chat: ChatMessage[];
+  // Marks drawn over the room's pages, oldest first; kept in memory only
+  annotations: Annotation[];
+  // Browser-service worker the room's page runs on; null until one is assigned
+  workerUrl: string | null;
   createdAt: Date;
   lastActivity: Date;
+  // When the last member left; the room is deleted a while after that
+  emptySince: Date | null;
+  maxUsers: number;
+}
+
+// The part of a room that outlives a server restart. Members and control are
+// tied to live sockets, so they start over when people reconnect.
+export interface StoredRoom {
+  id: string;
+  name: string;
+  passwordHash?: string;
+  inviteOnly: boolean;
+  redeemedInvites: Record<string, number>;
+  bans: RoomBan[];
+  mutedSessions: string[];
+  sessionRoles?: Record<string, Role>;
   maxUsers: number;
+  tabs: TabInfo[];
+  activeTabIndex: number;
+  workerUrl: string | null;
+  device?: DeviceSettings | null;
+  createdAt: Date;
+  lastActivity: Date;
+  emptySince: Date | null;
 }
 
 export interface SignalingMessage {
@@ -32,6 +117,41 @@ export interface ControlMessage {
   timestamp: number;
 }
 
+export interface ChatMessage {
+  id: string;
+  userId: string;
+  userName: string;
+  text: string;
+  timestamp: number;
+}
+
+export type AnnotationKind = 'freehand' | 'arrow' | 'rect' | 'text';
+
+// A mark drawn over the shared page. Points are in document pixels (the
+// viewport position plus the page's scroll position), so the mark stays on
+// the same content as the page scrolls. It only shows while the page is at
+// the URL it was drawn on.
+export interface Annotation {
+  id: string;
+  userId: string;
+  userName: string;
+  kind: AnnotationKind;
+  color: string;
+  // Freehand: the stroke; arrow: tail and head; rect: two corners; text: where the note is pinned
+  points: { x: number; y: number }[];
+  text?: string;
+  url: string;
+  createdAt: number;
+}
+
+export interface TabInfo {
+  id: string;
+  url: string;
+  title: string;
+  isLoading: boolean;
+}
+
+// What the room's page is showing, pushed by the browser service as it changes
 export interface BrowserState {
   url: string;
   title: string;
@@ -40,4 +160,100 @@ export interface BrowserState {
   isLoading: boolean;
   scrollPosition: { x: number; y: number };
   viewportSize: { width: number; height: number };
+  tabs: TabInfo[];
+  activeTabId: string;
+}
+
+// One <video> or <audio> element on the room's page, as the browser service
+// reports it
+export interface MediaElementState {
+  id: number;
+  kind: 'video' | 'audio';
+  src: string;
+  currentTime: number;
+  // Null until known, and for live streams
+  duration: number | null;
+  paused: boolean;
+  ended: boolean;
+  muted: boolean;
+  volume: number;
+  playbackRate: number;
+}
+
+export interface MediaState {
+  elements: MediaElementState[];
+  // When the page reported it; currentTime has moved on since if playing
+  updatedAt: number;
+}
+
+export type MediaAction = 'play' | 'pause' | 'seek' | 'volume' | 'mute' | 'rate';
+
+// Without a mediaId, the command goes to the page's main media element
+export interface MediaCommand {
+  action: MediaAction;
+  mediaId?: number;
+  value?: number | boolean;
+}
+
+// A recorded session of a room. The browser service keeps the archive and
+// serves its replay; endedAt is null while it is still recording.
+export interface RecordingInfo {
+  id: string;
+  roomId: string;
+  startedBy: string;
+  startedAt: number;
+  endedAt: number | null;
+  duration: number;
+  frameCount: number;
+}
+
+// A step of a tour, as the browser service plays it
+export type TourStep =
+  | { type: 'navigate'; url: string; caption?: string }
+  | { type: 'wait'; selector?: string; networkIdle?: boolean; timeout?: number; caption?: string }
+  | { type: 'click'; selector: string; timeout?: number; caption?: string }
+  | { type: 'scroll'; selector: string; timeout?: number; caption?: string }
+  | { type: 'pause'; duration?: number; caption?: string };
+
+export type TourCommand = 'pause' | 'resume' | 'skip' | 'stop';
+
+// Where the room's tour is. A step that fails pauses the tour with its error.
+export interface TourState {
+  id: string;
+  title: string;
+  startedBy: string;
+  status: 'playing' | 'paused';
+  stepIndex: number;
+  stepCount: number;
+  step: TourStep;
+  caption: string | null;
+  // When a timed pause step ends, in ms since the epoch; null otherwise
+  pauseEndsAt: number | null;
+  error: string | null;
+}
+
+export type DevicePreset = 'desktop' | 'phone' | 'tablet';
+
+// The device the browser service emulates for a room's pages
+export interface DeviceSettings {
+  preset: DevicePreset | 'custom';
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+  userAgent: string;
+  locale: string | null;
+  timezoneId: string | null;
+}
+
+// Plain WebRTC signaling payloads (Node has no DOM typings for these)
+export interface SessionDescription {
+  type: 'offer' | 'answer';
+  sdp: string;
+}
+
+export interface IceCandidate {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
 }
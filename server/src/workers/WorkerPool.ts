@@ -0,0 +1,342 @@
+import { EventEmitter } from 'events';
+import io from 'socket.io-client';
+import { RoomManager } from '../room/RoomManager';
+import { Room } from '../types';
+
+const CHECK_INTERVAL = 5000;
+const WORKER_TIMEOUT = 15000; // Three missed heartbeats
+const FORGET_AFTER = 10 * 60 * 1000; // Drop self-registered workers down this long
+
+export interface BrowserWorker {
+  url: string;
+  // Socket.IO connection to the worker; it reconnects on its own
+  socket: any;
+  // Listed in BROWSER_WORKERS rather than registered at runtime
+  isStatic: boolean;
+  capacity: number;
+  // Rooms the worker last reported having open
+  rooms: string[];
+  alive: boolean;
+  lastSeen: number;
+  downSince: number | null;
+}
+
+// The browser-service workers this signaling node can run rooms on. Workers
+// report their capacity and open rooms with a 'worker-status' heartbeat. Each
+// room is assigned to the live worker with the most free capacity, and moved
+// to another one if its worker dies.
+//
+// In a cluster every node connects to every worker, but only the node the
+// room's owner is connected to places the room, so nodes never race to move
+// it. The assignment is part of the room, so it is replicated like the rest.
+//
+// Emits 'worker-added' (worker) once per worker, 'worker-up' (worker),
+// 'worker-down' (worker), 'room-waiting' (roomId) when no worker has room for
+// a room, and 'room-moved' (roomId, worker) after a room has been reopened on
+// a new or restarted worker, or opened at last after waiting.
+export class WorkerPool extends EventEmitter {
+  private roomManager: RoomManager;
+  private workers: Map<string, BrowserWorker> = new Map();
+  private checkTimer: NodeJS.Timeout | null = null;
+  // Rooms waiting for a worker with free capacity
+  private waitingRooms: Set<string> = new Set();
+
+  constructor(roomManager: RoomManager) {
+    super();
+    this.roomManager = roomManager;
+    this.roomManager.on('room-deleted', (roomId: string) => this.waitingRooms.delete(roomId));
+  }
+
+  start(): void {
+    if (this.checkTimer) return;
+
+    this.checkTimer = setInterval(() => {
+      this.expireWorkers();
+      this.placeRooms();
+    }, CHECK_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+
+    // Closing isn't a failure, so nothing should be moved because of it
+    for (const worker of this.workers.values()) {
+      worker.socket.removeAllListeners();
+      worker.socket.close();
+    }
+    this.workers.clear();
+  }
+
+  // Add a worker; registering one that is already known is a no-op
+  register(url: string, isStatic: boolean = false): BrowserWorker {
+    const key = normalizeUrl(url);
+    const existing = this.workers.get(key);
+    if (existing) return existing;
+
+    const worker: BrowserWorker = {
+      url: key,
+      socket: io(key, { transports: ['websocket', 'polling'], auth: { token: process.env.WORKER_TOKEN } }),
+      isStatic,
+      capacity: 0,
+      rooms: [],
+      alive: false,
+      lastSeen: 0,
+      downSince: Date.now()
+    };
+    this.workers.set(key, worker);
+    console.log(`🔗 Connecting to browser worker ${key}...`);
+
+    worker.socket.on('worker-status', (status: { capacity: number; rooms: string[] }) => {
+      worker.capacity = Number(status?.capacity) || 0;
+      worker.rooms = Array.isArray(status?.rooms) ? status.rooms : [];
+      worker.lastSeen = Date.now();
+
+      if (!worker.alive) {
+        this.markUp(worker);
+      }
+    });
+
+    worker.socket.on('disconnect', () => {
+      this.markDown(worker);
+    });
+
+    worker.socket.on('connect_error', (error: any) => {
+      if (worker.alive || worker.lastSeen === 0) {
+        console.error(`❌ Failed to connect to browser worker ${key}:`, error.message);
+      }
+    });
+
+    this.emit('worker-added', worker);
+    return worker;
+  }
+
+  getWorker(url: string | null): BrowserWorker | undefined {
+    return url ? this.workers.get(url) : undefined;
+  }
+
+  getWorkers(): BrowserWorker[] {
+    return Array.from(this.workers.values());
+  }
+
+  // The live worker running a room's page, if any
+  getRoomWorker(roomId: string): BrowserWorker | undefined {
+    const worker = this.getWorker(this.roomManager.getRoom(roomId)?.workerUrl ?? null);
+    return worker?.alive ? worker : undefined;
+  }
+
+  // Send an event to the worker running a room
+  emitToRoom(roomId: string, event: string, data: any): boolean {
+    const worker = this.getRoomWorker(roomId);
+    if (!worker || !worker.socket.connected) {
+      return false;
+    }
+
+    worker.socket.emit(event, data);
+    return true;
+  }
+
+  // Send an event to every connected worker
+  broadcast(event: string, data: any): void {
+    for (const worker of this.workers.values()) {
+      if (worker.socket.connected) {
+        worker.socket.emit(event, data);
+      }
+    }
+  }
+
+  // Whether a room is waiting for a worker with free capacity
+  isWaiting(roomId: string): boolean {
+    return this.waitingRooms.has(roomId);
+  }
+
+  // Bring up a room's page, on its current worker if that one is still alive
+  openRoom(roomId: string): boolean {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return false;
+
+    const current = this.getRoomWorker(roomId);
+    if (current) {
+      this.sendOpenRoom(room, current);
+      return true;
+    }
+
+    return this.placeRoom(room) !== null;
+  }
+
+  private markUp(worker: BrowserWorker): void {
+    worker.alive = true;
+    worker.downSince = null;
+    console.log(`✅ Browser worker ${worker.url} is up (capacity ${worker.capacity})`);
+    this.emit('worker-up', worker);
+
+    const owned = this.getOwnedRooms();
+
+    // A restarted worker has lost the rooms it was running; open them again
+    for (const room of owned) {
+      if (room.workerUrl === worker.url && !worker.rooms.includes(room.id)) {
+        this.sendOpenRoom(room, worker);
+        this.emit('room-moved', room.id, worker);
+      }
+    }
+
+    // A worker that was only cut off may still run rooms that have since
+    // been deleted or moved elsewhere
+    for (const roomId of worker.rooms) {
+      const room = this.roomManager.getRoom(roomId);
+      if (!room || (owned.includes(room) && room.workerUrl !== worker.url)) {
+        worker.socket.emit('close-room', { roomId });
+      }
+    }
+
+    // Rooms that were waiting for capacity may fit now
+    this.placeRooms();
+  }
+
+  private markDown(worker: BrowserWorker): void {
+    if (!worker.alive) return;
+
+    worker.alive = false;
+    worker.downSince = Date.now();
+    console.log(`❌ Browser worker ${worker.url} is down`);
+    this.emit('worker-down', worker);
+
+    this.placeRooms();
+  }
+
+  private expireWorkers(): void {
+    const now = Date.now();
+
+    for (const worker of Array.from(this.workers.values())) {
+      if (worker.alive && now - worker.lastSeen > WORKER_TIMEOUT) {
+        console.log(`⏰ Browser worker ${worker.url} missed its heartbeats`);
+        this.markDown(worker);
+      }
+
+      // Workers that registered themselves and went away were likely scaled down
+      if (!worker.alive && !worker.isStatic && worker.downSince && now - worker.downSince > FORGET_AFTER) {
+        console.log(`🗑️ Forgetting browser worker ${worker.url}`);
+        worker.socket.close();
+        this.workers.delete(worker.url);
+      }
+    }
+  }
+
+  // Give every occupied room this node places a live worker
+  private placeRooms(): void {
+    for (const room of this.getOwnedRooms()) {
+      if (!this.getRoomWorker(room.id)) {
+        this.placeRoom(room);
+      }
+    }
+  }
+
+  private placeRoom(room: Room): BrowserWorker | null {
+    const worker = this.pickWorker();
+    if (!worker) {
+      if (!this.waitingRooms.has(room.id)) {
+        console.log(`⏳ No browser worker has room for ${room.id}; it will open when one does`);
+        this.waitingRooms.add(room.id);
+        this.emit('room-waiting', room.id);
+      }
+      return null;
+    }
+    const waited = this.waitingRooms.delete(room.id);
+
+    const moved = room.workerUrl !== null;
+    this.makeWay(worker);
+    this.roomManager.assignWorker(room.id, worker.url);
+    this.sendOpenRoom(room, worker);
+    console.log(`📦 Room ${room.id} ${moved ? 'moved' : 'assigned'} to browser worker ${worker.url}`);
+
+    // Views that were told to wait start their stream again, as after a move
+    if (moved || waited) {
+      this.emit('room-moved', room.id, worker);
+    }
+    return worker;
+  }
+
+  // The live worker with the most free capacity. Rooms nobody is in don't
+  // count; they only keep their page until they are deleted.
+  private pickWorker(): BrowserWorker | null {
+    const assigned: Map<string, number> = new Map();
+    for (const room of this.roomManager.getRooms()) {
+      if (room.workerUrl && this.isOccupied(room.id)) {
+        assigned.set(room.workerUrl, (assigned.get(room.workerUrl) ?? 0) + 1);
+      }
+    }
+
+    let best: BrowserWorker | null = null;
+    let bestFree = 0;
+
+    for (const worker of this.workers.values()) {
+      if (!worker.alive) continue;
+
+      const running = worker.rooms.filter(roomId => this.isOccupied(roomId)).length;
+      const load = Math.max(running, assigned.get(worker.url) ?? 0);
+      const free = worker.capacity - load;
+      if (free > bestFree) {
+        best = worker;
+        bestFree = free;
+      }
+    }
+
+    return best;
+  }
+
+  private isOccupied(roomId: string): boolean {
+    return (this.roomManager.getRoom(roomId)?.users.size ?? 0) > 0;
+  }
+
+  // Close the pages of empty rooms on the worker, as many as it takes to fit
+  // one more room. Such a room is placed again if someone comes back to it.
+  private makeWay(worker: BrowserWorker): void {
+    const pages = new Set(worker.rooms);
+    for (const room of this.roomManager.getRooms()) {
+      if (room.workerUrl === worker.url) {
+        pages.add(room.id);
+      }
+    }
+
+    let excess = pages.size + 1 - worker.capacity;
+    for (const roomId of pages) {
+      if (excess <= 0) break;
+      if (this.isOccupied(roomId)) continue;
+
+      worker.socket.emit('close-room', { roomId });
+      if (this.roomManager.getRoom(roomId)) {
+        this.roomManager.assignWorker(roomId, null);
+      }
+      excess--;
+    }
+  }
+
+  // A worker only knows the room from what we tell it, including who may
+  // drive the page
+  private sendOpenRoom(room: Room, worker: BrowserWorker): void {
+    worker.socket.emit('open-room', {
+      roomId: room.id,
+      url: this.roomManager.getCurrentUrl(room.id),
+      device: room.device ?? undefined
+    });
+    worker.socket.emit('control-changed', {
+      roomId: room.id,
+      holderId: room.control.holderId,
+      holderName: room.control.holderId ? room.users.get(room.control.holderId)?.name : undefined
+    });
+  }
+
+  // Occupied rooms whose owner is connected to this node
+  private getOwnedRooms(): Room[] {
+    return this.roomManager.getRooms().filter(room => {
+      const owner = this.roomManager.getOwner(room);
+      return owner !== undefined && this.roomManager.isLocalUser(owner.id);
+    });
+  }
+}
+
+function normalizeUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
@@ -16,23 +16,187 @@ import {
   Monitor,
   UserPlus,
   Copy,
-  CheckCircle
+  CheckCircle,
+  MousePointer2,
+  Hand,
+  Check,
+  Plus,
+  X,
+  VolumeX,
+  Volume2,
+  UserX,
+  Ban,
+  Crown,
+  MessageSquare,
+  Send,
+  Eraser,
+  Play,
+  Pause,
+  Circle,
+  Square,
+  Film,
+  Compass,
+  SkipForward,
+  Smartphone
 } from "lucide-react";
 
+// From most to least trusted; see the signaling server for what each may do
+type Role = 'owner' | 'moderator' | 'controller' | 'viewer';
+
+const ROLE_RANK: Record<Role, number> = { owner: 3, moderator: 2, controller: 1, viewer: 0 };
+
+const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  moderator: 'Moderator',
+  controller: 'Controller',
+  viewer: 'Viewer'
+};
+
+// A member's color; the browser view draws their pointer in the same one
+function userColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 70%, 45%)`;
+}
+
 interface User {
   id: string;
   name: string;
-  isHost: boolean;
+  role: Role;
+  muted: boolean;
   joinedAt: Date;
   lastActivity: Date;
 }
 
+interface ControlState {
+  holderId: string | null;
+  requests: string[];
+}
+
+interface ChatMessage {
+  id: string;
+  userId: string;
+  userName: string;
+  text: string;
+  timestamp: number;
+}
+
+// Others stop showing as typing if we don't hear from them for this long
+const TYPING_TIMEOUT = 5000;
+// We tell others we stopped typing after this long without a keystroke
+const TYPING_IDLE = 3000;
+
+interface TabInfo {
+  id: string;
+  url: string;
+  title: string;
+  isLoading: boolean;
+}
+
+// What the room's active tab is showing, pushed by the browser service
+interface BrowserState {
+  url: string;
+  title: string;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  isLoading: boolean;
+  scrollPosition: { x: number; y: number };
+  viewportSize: { width: number; height: number };
+  tabs: TabInfo[];
+  activeTabId: string;
+}
+
+// A <video> or <audio> element on the room's page
+interface MediaElementState {
+  id: number;
+  kind: 'video' | 'audio';
+  src: string;
+  currentTime: number;
+  duration: number | null;
+  paused: boolean;
+  ended: boolean;
+  muted: boolean;
+  volume: number;
+  playbackRate: number;
+}
+
+interface MediaState {
+  elements: MediaElementState[];
+  updatedAt: number;
+}
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+function formatTime(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const secs = String(whole % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+// A recorded session; the browser service keeps it and serves its replay
+interface RecordingInfo {
+  id: string;
+  roomId: string;
+  startedBy: string;
+  startedAt: number;
+  endedAt: number | null;
+  duration: number;
+  frameCount: number;
+}
+
+// The tour the browser service is playing in the room; see TourPlayer there
+interface TourState {
+  id: string;
+  title: string;
+  startedBy: string;
+  status: 'playing' | 'paused';
+  stepIndex: number;
+  stepCount: number;
+  step: { type: 'navigate' | 'wait' | 'click' | 'scroll' | 'pause'; duration?: number; caption?: string };
+  caption: string | null;
+  pauseEndsAt: number | null;
+  error: string | null;
+}
+
+type DevicePreset = 'desktop' | 'phone' | 'tablet';
+
+// The device the room's pages are shown on; see DeviceEmulation in the browser service
+interface DeviceSettings {
+  preset: DevicePreset | 'custom';
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+  userAgent: string;
+  locale: string | null;
+  timezoneId: string | null;
+}
+
+const DEVICE_PRESET_LABELS: Record<DeviceSettings['preset'], string> = {
+  desktop: 'Desktop',
+  phone: 'Phone',
+  tablet: 'Tablet',
+  custom: 'Custom'
+};
+
 interface Room {
   id: string;
   name: string;
-  currentUrl: string;
+  tabs: TabInfo[];
+  activeTabIndex: number;
   users: User[];
   maxUsers: number;
+  control: ControlState;
+  browserState: BrowserState | null;
+  mediaState: MediaState | null;
+  recording: RecordingInfo | null;
+  tour: TourState | null;
+  device: DeviceSettings | null;
+  chat: ChatMessage[];
 }
 
 export default function CollaborativeBrowser() {
@@ -43,18 +207,73 @@ export default function CollaborativeBrowser() {
   const [roomId, setRoomId] = useState("");
   const [userName, setUserName] = useState("Anonymous User");
   const [inputUrl, setInputUrl] = useState("https://www.google.com");
-  const [isLoading, setIsLoading] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
   const [showRoomDialog, setShowRoomDialog] = useState(false);
-  const [browserImage, setBrowserImage] = useState<string>("");
+  const [inviteRole, setInviteRole] = useState<Role>('controller');
+  const [inviteCopied, setInviteCopied] = useState(false);
+  // Lets the browser view connect as us; see /browser-webrtc on the server
+  const [viewToken, setViewToken] = useState<string | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatInput, setChatInput] = useState("");
+  // Names of the members typing right now, by user id
+  const [typingUsers, setTypingUsers] = useState<Record<string, string>>({});
+  // The page element the media bar drives; null follows the page's main one
+  const [mediaId, setMediaId] = useState<number | null>(null);
+  // Where the seek slider is being dragged to, until it is let go
+  const [seekingTo, setSeekingTo] = useState<number | null>(null);
+  // When the last media state arrived here, to move the clock on while playing
+  const [mediaReceivedAt, setMediaReceivedAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  // The room's recordings, newest first, from whichever workers hold them
+  const [recordings, setRecordings] = useState<RecordingInfo[]>([]);
+  // The device form as a moderator edits it, until they apply it
+  const [deviceDraft, setDeviceDraft] = useState<{ width: string; height: string; scale: string; userAgent: string; locale: string; timezoneId: string } | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // While the address bar has focus, page updates don't overwrite what's typed
+  const isEditingUrlRef = useRef(false);
+  // The room to rejoin if the connection drops, e.g. while the server
+  // restarts; the member token gets us back in with the same role
+  const rejoinRef = useRef<{ roomId: string; userName: string; token?: string } | null>(null);
+  // Invite from the link this page was opened with
+  const inviteRef = useRef<string | null>(null);
+  const chatEndRef = useRef<HTMLDivElement>(null);
+  // Picks the JSON or YAML file a moderator starts a tour from
+  const tourFileRef = useRef<HTMLInputElement>(null);
+  const typingTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  // Set while we've told the room we're typing
+  const typingIdleRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const browserUrl = process.env.NEXT_PUBLIC_BROWSER_URL || "http://localhost:3002";
+  const signalingUrl = process.env.NEXT_PUBLIC_SIGNALING_URL || "http://localhost:3001";
 
-  // Initialize socket connection
+  const clearTyping = useCallback((userId?: string) => {
+    const timers = typingTimersRef.current;
+    for (const [id, timer] of Array.from(timers.entries())) {
+      if (userId === undefined || id === userId) {
+        clearTimeout(timer);
+        timers.delete(id);
+      }
+    }
+    setTypingUsers(prev => {
+      if (userId === undefined) return {};
+      const next = { ...prev };
+      delete next[userId];
+      return next;
+    });
+  }, []);
+
+  // Pick up a room link or invite link
   useEffect(() => {
-    const signalingUrl = process.env.NEXT_PUBLIC_SIGNALING_URL || "http://localhost:3001";
+    const params = new URLSearchParams(window.location.search);
+    const linkedRoom = params.get("room");
+    if (linkedRoom) {
+      setRoomId(linkedRoom);
+    }
+    inviteRef.current = params.get("invite");
+  }, []);
 
+  // Initialize socket connection
+  useEffect(() => {
     console.log("🔌 Connecting to signaling server:", signalingUrl);
 
     const newSocket = io(signalingUrl, {
@@ -69,6 +288,11 @@ export default function CollaborativeBrowser() {
       console.log("✅ Connected to signaling server");
       setIsConnected(true);
       setConnectionStatus('connected');
+
+      if (rejoinRef.current) {
+        console.log("🔄 Rejoining room:", rejoinRef.current.roomId);
+        newSocket.emit("join-room", rejoinRef.current);
+      }
     });
 
     newSocket.on("disconnect", () => {
@@ -77,6 +301,7 @@ export default function CollaborativeBrowser() {
       setConnectionStatus('disconnected');
       setCurrentRoom(null);
       setCurrentUser(null);
+      clearTyping();
     });
 
     newSocket.on("connect_error", (error) => {
@@ -107,16 +332,19 @@ export default function CollaborativeBrowser() {
       console.log("🏠 Room created successfully:", data);
       try {
         setCurrentRoom(data.room);
-        // Find the user that was just created
-        const user = data.room.users.find(u => u.id === newSocket.id);
-        if (user) {
-          setCurrentUser(user);
+        setViewToken(data.viewToken);
+        setChatMessages(data.room.chat ?? []);
+        setMediaReceivedAt(Date.now());
+        rejoinRef.current = { roomId: data.room.id, userName: data.user?.name || userName || 'Anonymous', token: data.token };
+        if (data.user) {
+          setCurrentUser(data.user);
         } else {
           // Fallback user object
           setCurrentUser({
             id: newSocket.id,
             name: userName || 'Anonymous',
-            isHost: true,
+            role: 'owner',
+            muted: false,
             joinedAt: new Date(),
             lastActivity: new Date()
           });
@@ -134,6 +362,11 @@ export default function CollaborativeBrowser() {
       try {
         setCurrentRoom(data.room);
         setCurrentUser(data.user);
+        setViewToken(data.viewToken);
+        setChatMessages(data.room.chat ?? []);
+        setMediaReceivedAt(Date.now());
+        rejoinRef.current = { roomId: data.room.id, userName: data.user.name, token: data.token };
+        setInputUrl(data.room.browserState?.url || data.room.tabs[data.room.activeTabIndex]?.url || "");
         setShowRoomDialog(false);
         console.log("✅ Room join complete");
       } catch (error) {
@@ -144,6 +377,7 @@ export default function CollaborativeBrowser() {
 
     newSocket.on("join-error", (data) => {
       console.error("❌ Failed to join room:", data);
+      rejoinRef.current = null;
       alert(`Failed to join room: ${data.message}`);
     });
 
@@ -154,81 +388,147 @@ export default function CollaborativeBrowser() {
 
     newSocket.on("user-joined", (data) => {
       console.log("👤 User joined:", data);
-      if (currentRoom) {
-        setCurrentRoom(prev => prev ? { ...prev, users: data.users } : null);
-      }
+      setCurrentRoom(prev => prev ? { ...prev, users: data.users } : null);
     });
 
     newSocket.on("user-left", (data) => {
       console.log("👋 User left:", data);
-      if (currentRoom) {
-        setCurrentRoom(prev => prev ? { ...prev, users: data.users } : null);
-      }
+      setCurrentRoom(prev => prev ? { ...prev, users: data.users } : null);
+      clearTyping(data.userId);
     });
 
-    newSocket.on("url-changed", (data) => {
-      console.log("🔗 URL changed:", data);
-      if (currentRoom) {
-        setCurrentRoom(prev => prev ? { ...prev, currentUrl: data.url } : null);
-        setInputUrl(data.url);
-        // Update browser content
-        updateBrowserContent(data.url);
+    newSocket.on("user-disconnected", (data) => {
+      console.log("🔌 User disconnected:", data);
+      setCurrentRoom(prev => prev ? { ...prev, users: data.users } : null);
+      clearTyping(data.userId);
+    });
+
+    // Chat
+    newSocket.on("chat-message", (message: ChatMessage) => {
+      setChatMessages(prev => [...prev, message]);
+      clearTyping(message.userId);
+    });
+
+    newSocket.on("user-typing", (data: { userId: string; userName: string; isTyping: boolean }) => {
+      clearTyping(data.userId);
+      if (data.isTyping) {
+        setTypingUsers(prev => ({ ...prev, [data.userId]: data.userName }));
+        typingTimersRef.current.set(data.userId, setTimeout(() => clearTyping(data.userId), TYPING_TIMEOUT));
       }
     });
 
-    setSocket(newSocket);
+    // Roles
+    newSocket.on("role-changed", (data) => {
+      console.log("🎭 Role changed:", data);
+      setCurrentRoom(prev => prev ? { ...prev, users: data.users } : null);
+    });
 
-    return () => {
-      newSocket.close();
-    };
-  }, []);
+    // Moderation
+    newSocket.on("member-muted", (data) => {
+      console.log("🔇 Member muted:", data);
+      setCurrentRoom(prev => prev ? { ...prev, users: data.users } : null);
+    });
 
-  // Update browser content when URL changes
-  const updateBrowserContent = useCallback(async (url: string) => {
-    try {
-      setIsLoading(true);
-
-      // Navigate the browser service
-      const response = await fetch(`${browserUrl}/navigate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ url }),
-      });
+    newSocket.on("kicked", (data) => {
+      console.log("👢 Removed from room:", data);
+      rejoinRef.current = null;
+      setCurrentRoom(null);
+      setCurrentUser(null);
+      setViewToken(null);
+      setChatMessages([]);
+      clearTyping();
+      const verb = data.banned ? "banned from" : "removed from";
+      alert(`You were ${verb} the room${data.by ? ` by ${data.by}` : ''}${data.reason ? `: ${data.reason}` : ''}`);
+    });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    // Our role changed, so the token to rejoin with did too
+    newSocket.on("room-token", (data) => {
+      if (rejoinRef.current && rejoinRef.current.roomId === data.roomId) {
+        rejoinRef.current = { ...rejoinRef.current, token: data.token };
       }
+    });
 
-      const data = await response.json();
-      console.log("✅ Browser navigated:", data);
+    newSocket.on("invite-created", (data) => {
+      const link = `${window.location.origin}?room=${encodeURIComponent(rejoinRef.current?.roomId ?? '')}&invite=${encodeURIComponent(data.token)}`;
+      navigator.clipboard.writeText(link);
+      setInviteCopied(true);
+      setTimeout(() => setInviteCopied(false), 2000);
+    });
 
-      // Wait a moment for the page to load, then get screenshot
-      setTimeout(async () => {
-        await refreshBrowserImage();
-        setIsLoading(false);
-      }, 2000);
+    // Control handoff events
+    newSocket.on("control-changed", (data) => {
+      console.log("🎮 Control changed:", data);
+      setCurrentRoom(prev => prev ? {
+        ...prev,
+        control: { holderId: data.holderId, requests: data.requests }
+      } : null);
+    });
 
-    } catch (error) {
-      console.error("❌ Failed to navigate:", error);
-      setIsLoading(false);
-    }
-  }, [browserUrl]);
+    newSocket.on("control-denied", () => {
+      alert("Your request for control was denied");
+    });
 
-  // Refresh browser image
-  const refreshBrowserImage = useCallback(async () => {
-    try {
-      const response = await fetch(`${browserUrl}/screenshot`);
-      if (response.ok) {
-        const blob = await response.blob();
-        const imageUrl = URL.createObjectURL(blob);
-        setBrowserImage(imageUrl);
+    newSocket.on("control-error", (data) => {
+      console.error("❌ Control error:", data);
+      alert(data.message);
+    });
+
+    newSocket.on("url-changed", (data) => {
+      console.log("🔗 URL changed:", data);
+      setCurrentRoom(prev => prev ? {
+        ...prev,
+        tabs: prev.tabs.map((tab, index) => index === prev.activeTabIndex ? { ...tab, url: data.url } : tab)
+      } : null);
+    });
+
+    // The room's page navigated, started or finished loading, changed title,
+    // or a tab was opened, closed or switched to
+    newSocket.on("browser-state", (data: { roomId: string; state: BrowserState }) => {
+      setCurrentRoom(prev => prev && prev.id === data.roomId ? {
+        ...prev,
+        tabs: data.state.tabs,
+        activeTabIndex: Math.max(data.state.tabs.findIndex(tab => tab.id === data.state.activeTabId), 0),
+        browserState: data.state
+      } : prev);
+      if (!isEditingUrlRef.current) {
+        setInputUrl(data.state.url);
       }
-    } catch (error) {
-      console.error("Failed to get screenshot:", error);
-    }
-  }, [browserUrl]);
+    });
+
+    // The page's video and audio played, paused, seeked or came and went
+    newSocket.on("media-state", (data: { roomId: string; state: MediaState }) => {
+      setCurrentRoom(prev => prev && prev.id === data.roomId ? { ...prev, mediaState: data.state } : prev);
+      setMediaReceivedAt(Date.now());
+    });
+
+    // A moderator started or stopped recording the room
+    newSocket.on("recording-state", (data: { roomId: string; recording: RecordingInfo | null }) => {
+      setCurrentRoom(prev => prev && prev.id === data.roomId ? { ...prev, recording: data.recording } : prev);
+    });
+
+    // The room's tour moved to another step, paused, or ended
+    newSocket.on("tour-state", (data: { roomId: string; tour: TourState | null }) => {
+      setCurrentRoom(prev => prev && prev.id === data.roomId ? { ...prev, tour: data.tour } : prev);
+    });
+
+    // A moderator changed the device the room's pages are shown on
+    newSocket.on("device-state", (data: { roomId: string; device: DeviceSettings }) => {
+      setCurrentRoom(prev => prev && prev.id === data.roomId ? { ...prev, device: data.device } : prev);
+      setDeviceDraft(null);
+    });
+
+    setSocket(newSocket);
+
+    return () => {
+      newSocket.close();
+      clearTyping();
+    };
+  }, [clearTyping, signalingUrl]);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ block: "end" });
+  }, [chatMessages]);
 
   // Create a new room
   const createRoom = useCallback(() => {
@@ -242,6 +542,7 @@ export default function CollaborativeBrowser() {
       console.log("🏠 Creating room...");
       socket.emit("create-room", {
         name: `Room by ${userName || 'Anonymous'}`,
+        userName: userName.trim() || "Anonymous User",
         maxUsers: 10
       });
     } catch (error) {
@@ -264,7 +565,8 @@ export default function CollaborativeBrowser() {
 
     socket.emit("join-room", {
       roomId: roomId.trim(),
-      userName: userName.trim() || "Anonymous User"
+      userName: userName.trim() || "Anonymous User",
+      token: inviteRef.current || undefined
     });
   }, [socket, isConnected, roomId, userName]);
 
@@ -272,23 +574,173 @@ export default function CollaborativeBrowser() {
   const leaveRoom = useCallback(() => {
     if (socket) {
       socket.emit("leave-room");
+      rejoinRef.current = null;
       setCurrentRoom(null);
       setCurrentUser(null);
+      setChatMessages([]);
+      clearTyping();
+    }
+  }, [socket, clearTyping]);
+
+  // Roles can change while we're in the room, so read ours from the member list
+  const myRole: Role = currentRoom?.users.find(u => u.id === currentUser?.id)?.role ?? currentUser?.role ?? 'viewer';
+  const isModerator = ROLE_RANK[myRole] >= ROLE_RANK.moderator;
+  const isController = !!currentUser && currentRoom?.control.holderId === currentUser.id;
+  const canManageControl = isController || isModerator;
+  const hasRequestedControl = !!currentUser && !!currentRoom?.control.requests.includes(currentUser.id);
+
+  // Control handoff
+  const requestControl = useCallback(() => {
+    socket?.emit("request-control");
+  }, [socket]);
+
+  const grantControl = useCallback((userId: string) => {
+    socket?.emit("grant-control", { userId });
+  }, [socket]);
+
+  const denyControl = useCallback((userId: string) => {
+    socket?.emit("deny-control", { userId });
+  }, [socket]);
+
+  const revokeControl = useCallback(() => {
+    socket?.emit("revoke-control");
+  }, [socket]);
+
+  // Invites and roles
+  const createInvite = useCallback(() => {
+    socket?.emit("create-invite", { role: inviteRole });
+  }, [socket, inviteRole]);
+
+  // Moderators record the room; anyone can replay it afterwards
+  const toggleRecording = useCallback(() => {
+    socket?.emit(currentRoom?.recording ? "stop-recording" : "start-recording");
+  }, [socket, currentRoom?.recording]);
+
+  // Moderators play tours from a file; the browser service checks the steps
+  const startTour = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    socket?.emit("start-tour", { source: await file.text() });
+  }, [socket]);
+
+  const sendTourCommand = useCallback((command: 'pause' | 'resume' | 'skip' | 'stop') => {
+    socket?.emit("tour-command", { command });
+  }, [socket]);
+
+  // Moderators pick a preset, or change its values and apply them; the
+  // browser service checks them and reports the device back
+  const setDevicePreset = useCallback((preset: DevicePreset) => {
+    socket?.emit("set-device", { device: { preset } });
+  }, [socket]);
+
+  const applyDeviceDraft = useCallback(() => {
+    if (!deviceDraft) return;
+    socket?.emit("set-device", {
+      device: {
+        viewport: { width: Number(deviceDraft.width), height: Number(deviceDraft.height) },
+        deviceScaleFactor: Number(deviceDraft.scale),
+        userAgent: deviceDraft.userAgent,
+        locale: deviceDraft.locale.trim() || null,
+        timezoneId: deviceDraft.timezoneId.trim() || null
+      }
+    });
+  }, [socket, deviceDraft]);
+
+  const editDevice = useCallback((changes: Partial<NonNullable<typeof deviceDraft>>) => {
+    const device = currentRoom?.device;
+    setDeviceDraft(prev => {
+      const base = prev ?? (device ? {
+        width: String(device.viewport.width),
+        height: String(device.viewport.height),
+        scale: String(device.deviceScaleFactor),
+        userAgent: device.userAgent,
+        locale: device.locale ?? "",
+        timezoneId: device.timezoneId ?? ""
+      } : null);
+      return base && { ...base, ...changes };
+    });
+  }, [currentRoom?.device]);
+
+  // Annotations are drawn in the browser view; moderators can wipe them all
+  const clearAnnotations = useCallback(() => {
+    if (window.confirm("Clear everyone's annotations in this room?")) {
+      socket?.emit("clear-annotations");
     }
   }, [socket]);
 
+  const setRole = useCallback((userId: string, role: Role) => {
+    socket?.emit("set-role", { userId, role });
+  }, [socket]);
+
+  // Moderators act on members ranked below them
+  const canModerate = (user: User) => isModerator && user.id !== currentUser?.id && ROLE_RANK[user.role] < ROLE_RANK[myRole];
+
+  const muteMember = useCallback((user: User) => {
+    socket?.emit("mute-member", { userId: user.id, muted: !user.muted });
+  }, [socket]);
+
+  const removeMember = useCallback((user: User, ban: boolean) => {
+    const reason = window.prompt(`${ban ? 'Ban' : 'Remove'} ${user.name}? Reason (optional):`);
+    if (reason === null) return;
+    socket?.emit(ban ? "ban-member" : "kick-member", { userId: user.id, reason });
+  }, [socket]);
+
+  const transferOwnership = useCallback((user: User) => {
+    if (window.confirm(`Make ${user.name} the owner of this room? You will become a moderator.`)) {
+      socket?.emit("transfer-ownership", { userId: user.id });
+    }
+  }, [socket]);
+
+  // Chat
+  const stopTyping = useCallback(() => {
+    if (typingIdleRef.current) {
+      clearTimeout(typingIdleRef.current);
+      typingIdleRef.current = null;
+      socket?.emit("typing", { isTyping: false });
+    }
+  }, [socket]);
+
+  const handleChatInput = useCallback((value: string) => {
+    setChatInput(value);
+    if (!socket || !currentRoom) return;
+
+    if (!value.trim()) {
+      stopTyping();
+      return;
+    }
+
+    // Only the first keystroke is sent; after that we just push back the idle timer
+    if (typingIdleRef.current) {
+      clearTimeout(typingIdleRef.current);
+    } else {
+      socket.emit("typing", { isTyping: true });
+    }
+    typingIdleRef.current = setTimeout(stopTyping, TYPING_IDLE);
+  }, [socket, currentRoom, stopTyping]);
+
+  const sendChatMessage = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    const text = chatInput.trim();
+    if (!socket || !currentRoom || !text) return;
+
+    socket.emit("chat-message", { text });
+    stopTyping();
+    setChatInput("");
+  }, [socket, currentRoom, chatInput, stopTyping]);
+
   // Handle URL navigation
   const handleUrlSubmit = useCallback((e: React.FormEvent) => {
     e.preventDefault();
-    if (socket && currentRoom && currentUser?.isHost) {
+    if (socket && currentRoom && isController) {
       socket.emit("url-change", { url: inputUrl });
-      updateBrowserContent(inputUrl);
     } else if (!currentRoom) {
-      updateBrowserContent(inputUrl);
+      alert("Create or join a room to start browsing");
     } else {
-      alert("Only the host can change the URL");
+      alert("Only the member with control can change the URL");
     }
-  }, [socket, currentRoom, currentUser, inputUrl, updateBrowserContent]);
+  }, [socket, currentRoom, isController, inputUrl]);
 
   // Copy room link
   const copyRoomLink = useCallback(() => {
@@ -299,10 +751,101 @@ export default function CollaborativeBrowser() {
     }
   }, [currentRoom]);
 
-  // Refresh browser image
-  const handleRefresh = useCallback(() => {
-    refreshBrowserImage();
-  }, [refreshBrowserImage]);
+  // Back, forward and reload run on the room's page, so they need control
+  const navigateHistory = useCallback((action: 'back' | 'forward' | 'refresh') => {
+    if (socket && currentUser && isController) {
+      socket.emit("control", {
+        type: "navigation",
+        userId: currentUser.id,
+        data: { action },
+        timestamp: Date.now()
+      });
+    }
+  }, [socket, currentUser, isController]);
+
+  // Tabs live on the room's browser, so opening, closing and switching need control
+  const openTab = useCallback(() => {
+    if (socket && isController) {
+      socket.emit("open-tab", {});
+    }
+  }, [socket, isController]);
+
+  const closeTab = useCallback((tabId: string) => {
+    if (socket && isController) {
+      socket.emit("close-tab", { tabId });
+    }
+  }, [socket, isController]);
+
+  const switchTab = useCallback((tabId: string) => {
+    if (socket && isController) {
+      socket.emit("switch-tab", { tabId });
+    }
+  }, [socket, isController]);
+
+  const browserState = currentRoom?.browserState ?? null;
+  const activeTab = currentRoom?.tabs[currentRoom.activeTabIndex];
+
+  // Playback of the page's media; the same element the browser service
+  // picks when no id is given
+  const mediaElements = currentRoom?.mediaState?.elements ?? [];
+  const media = mediaElements.find(element => element.id === mediaId)
+    ?? mediaElements.find(element => !element.paused)
+    ?? mediaElements.find(element => element.kind === 'video')
+    ?? mediaElements[0];
+  const isPlaying = !!media && !media.paused && !media.ended;
+  const mediaTime = media
+    ? Math.min(
+        media.currentTime + (isPlaying ? ((now - mediaReceivedAt) / 1000) * media.playbackRate : 0),
+        media.duration ?? Infinity
+      )
+    : 0;
+
+  // Move the clock on between reports while something plays
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [isPlaying]);
+
+  const sendMediaCommand = useCallback((action: string, value?: number | boolean) => {
+    if (socket && media && isController) {
+      socket.emit("media-command", { action, mediaId: media.id, value });
+    }
+  }, [socket, media, isController]);
+
+  const commitSeek = useCallback(() => {
+    if (seekingTo !== null) {
+      sendMediaCommand("seek", seekingTo);
+      setSeekingTo(null);
+    }
+  }, [seekingTo, sendMediaCommand]);
+
+  // List the room's recordings again whenever one starts or stops
+  const currentRoomId = currentRoom?.id ?? null;
+  const activeRecordingId = currentRoom?.recording?.id ?? null;
+  useEffect(() => {
+    if (!currentRoomId || !viewToken) {
+      setRecordings([]);
+      return;
+    }
+
+    // The signaling server asks the room's workers and checks we are a member
+    let cancelled = false;
+    fetch(`${signalingUrl}/rooms/${encodeURIComponent(currentRoomId)}/recordings`, {
+      headers: { Authorization: `Bearer ${viewToken}` }
+    })
+      .then(response => response.ok ? response.json() : [])
+      .then((list: RecordingInfo[]) => {
+        if (!cancelled) setRecordings(list);
+      })
+      .catch(error => console.error("Failed to list recordings:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentRoomId, activeRecordingId, viewToken, signalingUrl]);
+
+  const isMuted = !!currentRoom?.users.find(u => u.id === currentUser?.id)?.muted;
+  const typingNames = Object.values(typingUsers);
 
   return (
     <div className="h-screen bg-gray-50 flex flex-col">
@@ -338,16 +881,29 @@ export default function CollaborativeBrowser() {
               <Users className="h-4 w-4" />
               <span className="text-sm font-medium">
                 Room: {currentRoom.name} ({currentRoom.users.length}/{currentRoom.maxUsers})
-                {currentUser?.isHost && <span className="ml-1">(Host)</span>}
+                <span className="ml-1">({ROLE_LABELS[myRole]})</span>
               </span>
             </div>
           )}
 
+          {/* Recording Status */}
+          {currentRoom?.recording && (
+            <div
+              className="flex items-center gap-2 px-3 py-1 bg-red-50 text-red-700 rounded-lg"
+              title={`Recorded by ${currentRoom.recording.startedBy}`}
+            >
+              <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+              <span className="text-sm font-medium">Recording</span>
+            </div>
+          )}
+
           {/* Navigation Controls */}
           <div className="flex items-center gap-1">
             <Button
               variant="ghost"
               size="sm"
+              onClick={() => navigateHistory('back')}
+              disabled={!isController || !browserState?.canGoBack}
               className="h-8 w-8 p-0 text-gray-500 hover:text-gray-700 hover:bg-gray-100"
               title="Go Back"
             >
@@ -356,7 +912,18 @@ export default function CollaborativeBrowser() {
             <Button
               variant="ghost"
               size="sm"
-              onClick={handleRefresh}
+              onClick={() => navigateHistory('forward')}
+              disabled={!isController || !browserState?.canGoForward}
+              className="h-8 w-8 p-0 text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+              title="Go Forward"
+            >
+              <ArrowRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigateHistory('refresh')}
+              disabled={!isController || !browserState}
               className="h-8 w-8 p-0 text-gray-500 hover:text-gray-700 hover:bg-gray-100"
               title="Refresh"
             >
@@ -379,11 +946,13 @@ export default function CollaborativeBrowser() {
                 type="text"
                 value={inputUrl}
                 onChange={(e) => setInputUrl(e.target.value)}
+                onFocus={() => { isEditingUrlRef.current = true; }}
+                onBlur={() => { isEditingUrlRef.current = false; }}
                 placeholder="Enter URL"
                 className="bg-gray-50 border-gray-300 text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:ring-blue-500/20 rounded-lg h-10 px-4 pr-12"
               />
               <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
-                {isLoading && (
+                {browserState?.isLoading && (
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500"></div>
                 )}
               </div>
@@ -449,14 +1018,206 @@ export default function CollaborativeBrowser() {
 
       {/* Main Content */}
       <div className="flex-1 flex">
-        {/* Interactive Browser */}
-        <div className="flex-1 bg-gray-900 relative overflow-hidden">
-          <iframe
-            src={`${browserUrl}/browser`}
-            className="w-full h-full border-0"
-            title="Interactive Browser"
-            sandbox="allow-scripts allow-forms allow-same-origin allow-popups"
-          />
+        <div className="flex-1 flex flex-col">
+          {/* Tab Strip */}
+          {currentRoom && (
+            <div className="flex items-center gap-1 px-2 pt-2 bg-gray-100 border-b border-gray-200 overflow-x-auto">
+              {currentRoom.tabs.map((tab, index) => (
+                <div
+                  key={tab.id || index}
+                  onClick={() => tab.id && index !== currentRoom.activeTabIndex && switchTab(tab.id)}
+                  className={`group flex items-center gap-2 max-w-[200px] px-3 py-1.5 rounded-t-lg text-sm ${
+                    index === currentRoom.activeTabIndex
+                      ? 'bg-white text-gray-900'
+                      : 'bg-gray-200 text-gray-600 hover:bg-gray-50'
+                  } ${isController ? 'cursor-pointer' : 'cursor-default'}`}
+                  title={tab.url}
+                >
+                  {tab.isLoading ? (
+                    <div className="animate-spin rounded-full h-3 w-3 flex-shrink-0 border-b-2 border-blue-500"></div>
+                  ) : (
+                    <Globe className="h-3 w-3 flex-shrink-0 text-gray-400" />
+                  )}
+                  <span className="truncate">{tab.title || tab.url || 'New Tab'}</span>
+                  {isController && currentRoom.tabs.length > 1 && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        closeTab(tab.id);
+                      }}
+                      className="flex-shrink-0 rounded p-0.5 text-gray-400 hover:text-gray-700 hover:bg-gray-300"
+                      title="Close Tab"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={openTab}
+                disabled={!isController}
+                className="h-7 w-7 p-0 mb-1 text-gray-500 hover:text-gray-700 hover:bg-gray-200"
+                title="New Tab"
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
+          {/* Interactive Browser */}
+          <div className="flex-1 bg-gray-900 relative overflow-hidden">
+            {currentRoom && currentUser && viewToken ? (
+              <iframe
+                key={`${currentRoom.id}:${currentUser.id}`}
+                src={`${browserUrl}/browser?roomId=${encodeURIComponent(currentRoom.id)}&token=${encodeURIComponent(viewToken)}`}
+                className="w-full h-full border-0"
+                title="Interactive Browser"
+                sandbox="allow-scripts allow-forms allow-same-origin allow-popups allow-downloads"
+              />
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center text-gray-400">
+                <Monitor className="w-12 h-12 mb-4" />
+                <p>Create or join a room to start browsing</p>
+              </div>
+            )}
+
+            {/* Tour Captions */}
+            {currentRoom?.tour && (
+              <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[min(36rem,calc(100%-2rem))] rounded-lg bg-black/80 text-white shadow-lg px-4 py-3">
+                <div className="flex items-center gap-2 text-xs text-gray-300">
+                  <Compass className="h-3 w-3" />
+                  <span className="truncate">{currentRoom.tour.title}</span>
+                  <span className="ml-auto tabular-nums">
+                    Step {currentRoom.tour.stepIndex + 1} of {currentRoom.tour.stepCount}
+                    {currentRoom.tour.status === 'paused' && ' · Paused'}
+                  </span>
+                </div>
+                {currentRoom.tour.caption && (
+                  <p className="mt-1 text-sm leading-snug whitespace-pre-wrap">{currentRoom.tour.caption}</p>
+                )}
+                {currentRoom.tour.error && (
+                  <p className="mt-1 text-xs text-red-300">{currentRoom.tour.error}</p>
+                )}
+                {isModerator && (
+                  <div className="mt-2 flex items-center gap-1">
+                    <Button
+                      onClick={() => sendTourCommand(currentRoom.tour!.status === 'paused' ? "resume" : "pause")}
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-white hover:bg-white/20 hover:text-white"
+                      title={currentRoom.tour.status === 'paused'
+                        ? (currentRoom.tour.error ? "Try the step again" : "Resume the tour")
+                        : "Pause the tour"}
+                    >
+                      {currentRoom.tour.status === 'paused' ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      onClick={() => sendTourCommand("skip")}
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-white hover:bg-white/20 hover:text-white"
+                      title={currentRoom.tour.step.type === 'pause' && !currentRoom.tour.step.duration ? "Next step" : "Skip this step"}
+                    >
+                      <SkipForward className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      onClick={() => sendTourCommand("stop")}
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-white hover:bg-white/20 hover:text-white"
+                      title="End the tour"
+                    >
+                      <Square className="h-4 w-4" />
+                    </Button>
+                    <span className="ml-auto text-xs text-gray-400">Started by {currentRoom.tour.startedBy}</span>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Media Controls */}
+          {currentRoom && media && (
+            <div
+              className="flex items-center gap-3 px-4 py-2 bg-white border-t border-gray-200"
+              title={isController ? undefined : "Take control to use the playback controls"}
+            >
+              <Button
+                onClick={() => sendMediaCommand(isPlaying ? "pause" : "play")}
+                disabled={!isController}
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                title={isPlaying ? "Pause" : "Play"}
+              >
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <span className="text-xs text-gray-600 tabular-nums w-24 text-center">
+                {formatTime(seekingTo ?? mediaTime)} / {media.duration !== null ? formatTime(media.duration) : 'Live'}
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={media.duration ?? 0}
+                step={0.1}
+                value={seekingTo ?? mediaTime}
+                onChange={(e) => setSeekingTo(Number(e.target.value))}
+                onMouseUp={commitSeek}
+                onTouchEnd={commitSeek}
+                onKeyUp={commitSeek}
+                disabled={!isController || media.duration === null}
+                className="flex-1"
+                title="Seek"
+              />
+              <Button
+                onClick={() => sendMediaCommand("mute", !media.muted)}
+                disabled={!isController}
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                title={media.muted ? "Unmute" : "Mute"}
+              >
+                {media.muted || media.volume === 0 ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+              </Button>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={media.muted ? 0 : media.volume}
+                onChange={(e) => sendMediaCommand("volume", Number(e.target.value))}
+                disabled={!isController}
+                className="w-20"
+                title="Volume"
+              />
+              <select
+                value={media.playbackRate}
+                onChange={(e) => sendMediaCommand("rate", Number(e.target.value))}
+                disabled={!isController}
+                className="h-8 px-1 text-xs border border-gray-300 rounded-md bg-white"
+                title="Playback speed"
+              >
+                {(PLAYBACK_RATES.includes(media.playbackRate) ? PLAYBACK_RATES : [...PLAYBACK_RATES, media.playbackRate].sort((a, b) => a - b))
+                  .map(rate => <option key={rate} value={rate}>{rate}x</option>)}
+              </select>
+              {mediaElements.length > 1 && (
+                <select
+                  value={media.id}
+                  onChange={(e) => setMediaId(Number(e.target.value))}
+                  className="h-8 px-1 text-xs border border-gray-300 rounded-md bg-white max-w-[140px]"
+                  title="Which media on the page"
+                >
+                  {mediaElements.map((element, index) => (
+                    <option key={element.id} value={element.id}>
+                      {element.kind === 'video' ? 'Video' : 'Audio'} {index + 1}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Sidebar */}
@@ -466,24 +1227,199 @@ export default function CollaborativeBrowser() {
             <h2 className="text-lg font-semibold text-gray-900 mb-4">
               Participants ({currentRoom?.users.length || 0})
             </h2>
+            {currentRoom && (
+              <div className="mb-4">
+                {isController ? (
+                  <Button onClick={revokeControl} variant="outline" size="sm" className="w-full">
+                    <Hand className="h-4 w-4 mr-2" />
+                    Release control
+                  </Button>
+                ) : myRole === 'viewer' ? (
+                  <p className="text-xs text-center text-gray-500">You are watching as a viewer</p>
+                ) : (
+                  <Button
+                    onClick={requestControl}
+                    disabled={hasRequestedControl}
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                  >
+                    <MousePointer2 className="h-4 w-4 mr-2" />
+                    {hasRequestedControl ? "Control requested..." : "Request control"}
+                  </Button>
+                )}
+                {isModerator && (
+                  <div className="flex gap-2 mt-2">
+                    <select
+                      value={inviteRole}
+                      onChange={(e) => setInviteRole(e.target.value as Role)}
+                      className="flex-1 h-8 px-2 text-sm border border-gray-300 rounded-md bg-white"
+                      title="Role for people joining with the invite"
+                    >
+                      {(['moderator', 'controller', 'viewer'] as Role[])
+                        .filter(role => ROLE_RANK[role] < ROLE_RANK[myRole])
+                        .map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                    </select>
+                    <Button onClick={createInvite} variant="outline" size="sm">
+                      {inviteCopied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+                      {inviteCopied ? "Copied" : "Invite link"}
+                    </Button>
+                    <Button
+                      onClick={clearAnnotations}
+                      variant="outline"
+                      size="sm"
+                      className="px-2"
+                      title="Clear annotations"
+                    >
+                      <Eraser className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      onClick={toggleRecording}
+                      variant="outline"
+                      size="sm"
+                      className="px-2"
+                      title={currentRoom.recording ? "Stop recording" : "Record the session"}
+                    >
+                      {currentRoom.recording
+                        ? <Square className="h-4 w-4 text-red-600 fill-current" />
+                        : <Circle className="h-4 w-4 text-red-600" />}
+                    </Button>
+                    <Button
+                      onClick={() => tourFileRef.current?.click()}
+                      disabled={currentRoom.tour !== null}
+                      variant="outline"
+                      size="sm"
+                      className="px-2"
+                      title={currentRoom.tour ? "A tour is running" : "Play a tour from a JSON or YAML file"}
+                    >
+                      <Compass className="h-4 w-4" />
+                    </Button>
+                    <input
+                      ref={tourFileRef}
+                      type="file"
+                      accept=".json,.yaml,.yml,application/json,application/yaml,text/yaml"
+                      onChange={startTour}
+                      className="hidden"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
             <div className="space-y-3">
               {currentRoom?.users.map(user => (
                 <div
                   key={user.id}
                   className="flex items-center gap-3 p-3 rounded-lg bg-gray-50"
                 >
-                  <div className="w-8 h-8 rounded-full bg-blue-500 flex items-center justify-center text-white text-sm font-medium">
+                  <div
+                    className="w-8 h-8 rounded-full flex items-center justify-center text-white text-sm font-medium"
+                    style={{ backgroundColor: userColor(user.id) }}
+                  >
                     {user.name.charAt(0).toUpperCase()}
                   </div>
                   <div className="flex-1">
                     <div className="font-medium text-gray-900">
                       {user.name}
-                      {user.isHost && <span className="ml-2 text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded">Host</span>}
+                      {user.role !== 'controller' && (
+                        <span className="ml-2 text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded">{ROLE_LABELS[user.role]}</span>
+                      )}
+                      {currentRoom.control.holderId === user.id && (
+                        <span className="ml-2 text-xs bg-green-100 text-green-700 px-2 py-1 rounded">Controlling</span>
+                      )}
+                      {user.muted && (
+                        <span className="ml-2 text-xs bg-gray-200 text-gray-600 px-2 py-1 rounded">Muted</span>
+                      )}
                     </div>
                     <div className="text-xs text-gray-500">
                       {user.id === currentUser?.id ? 'You' : 'Participant'}
+                      {currentRoom.control.requests.includes(user.id) && ' · wants control'}
                     </div>
+                    {canModerate(user) && (
+                      <div className="flex items-center gap-1 mt-1">
+                        <select
+                          value={user.role}
+                          onChange={(e) => setRole(user.id, e.target.value as Role)}
+                          className="h-7 px-1 text-xs border border-gray-300 rounded-md bg-white"
+                          title="Change role"
+                        >
+                          {(['moderator', 'controller', 'viewer'] as Role[])
+                            .filter(role => ROLE_RANK[role] < ROLE_RANK[myRole])
+                            .map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                        </select>
+                        <Button
+                          onClick={() => muteMember(user)}
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-gray-500 hover:bg-gray-200"
+                          title={user.muted ? "Unmute" : "Mute"}
+                        >
+                          {user.muted ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          onClick={() => removeMember(user, false)}
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-red-600 hover:bg-red-100"
+                          title="Remove from room"
+                        >
+                          <UserX className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          onClick={() => removeMember(user, true)}
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-red-600 hover:bg-red-100"
+                          title="Ban from room"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                        {myRole === 'owner' && (
+                          <Button
+                            onClick={() => transferOwnership(user)}
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-yellow-600 hover:bg-yellow-100"
+                            title="Make owner"
+                          >
+                            <Crown className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
                   </div>
+                  {canManageControl && currentRoom.control.requests.includes(user.id) && (
+                    <div className="flex gap-1">
+                      <Button
+                        onClick={() => grantControl(user.id)}
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-green-600 hover:bg-green-100"
+                        title="Grant control"
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        onClick={() => denyControl(user.id)}
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-red-600 hover:bg-red-100"
+                        title="Deny control"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                  {isModerator && !isController && currentRoom.control.holderId === user.id && (
+                    <Button
+                      onClick={revokeControl}
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs text-red-600 hover:bg-red-100"
+                      title="Revoke control"
+                    >
+                      Revoke
+                    </Button>
+                  )}
                   {user.id === currentUser?.id && (
                     <CheckCircle className="h-4 w-4 text-green-500" />
                   )}
@@ -505,34 +1441,181 @@ export default function CollaborativeBrowser() {
             <div className="p-4 border-b border-gray-200">
               <h3 className="text-sm font-medium text-gray-700 mb-2">Current Page</h3>
               <div className="bg-gray-50 p-3 rounded-lg">
+                {browserState?.title && (
+                  <p className="text-sm font-medium text-gray-800 mb-1 break-words">
+                    {browserState.title}
+                  </p>
+                )}
                 <p className="text-sm text-gray-600 break-all">
-                  {currentRoom.currentUrl || 'No URL set'}
+                  {activeTab?.url || 'No URL set'}
                 </p>
               </div>
             </div>
           )}
 
-          {/* Instructions */}
-          <div className="flex-1 p-4">
-            <h3 className="text-sm font-medium text-gray-700 mb-3">How it works:</h3>
-            <div className="space-y-2 text-sm text-gray-600">
-              <div className="flex items-start gap-2">
-                <span className="text-blue-500 mt-1">1.</span>
-                <span>Create a room or join with a room ID</span>
-              </div>
-              <div className="flex items-start gap-2">
-                <span className="text-blue-500 mt-1">2.</span>
-                <span>Host enters URLs and everyone sees the same page</span>
-              </div>
-              <div className="flex items-start gap-2">
-                <span className="text-blue-500 mt-1">3.</span>
-                <span>Share the room link to invite others</span>
-              </div>
-              <div className="flex items-start gap-2">
-                <span className="text-blue-500 mt-1">4.</span>
-                <span>Watch videos, browse sites together in sync</span>
+          {/* Device */}
+          {currentRoom?.device && (
+            <div className="p-4 border-b border-gray-200">
+              <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+                <Smartphone className="h-4 w-4" />
+                Device
+              </h3>
+              <p className="text-sm text-gray-600">
+                {DEVICE_PRESET_LABELS[currentRoom.device.preset]} · {currentRoom.device.viewport.width}×{currentRoom.device.viewport.height}
+                {currentRoom.device.deviceScaleFactor !== 1 && ` @${currentRoom.device.deviceScaleFactor}x`}
+                {currentRoom.device.hasTouch && ' · touch'}
+                {currentRoom.device.locale && ` · ${currentRoom.device.locale}`}
+                {currentRoom.device.timezoneId && ` · ${currentRoom.device.timezoneId}`}
+              </p>
+              {isModerator && (
+                <div className="mt-2 space-y-2">
+                  <select
+                    value={currentRoom.device.preset}
+                    onChange={(e) => setDevicePreset(e.target.value as DevicePreset)}
+                    className="w-full h-8 px-2 text-sm border border-gray-300 rounded-md bg-white"
+                    title="Show the room's pages as this device"
+                  >
+                    {(Object.keys(DEVICE_PRESET_LABELS) as DeviceSettings['preset'][]).map(preset => (
+                      <option key={preset} value={preset} disabled={preset === 'custom'}>{DEVICE_PRESET_LABELS[preset]}</option>
+                    ))}
+                  </select>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      value={deviceDraft?.width ?? currentRoom.device.viewport.width}
+                      onChange={(e) => editDevice({ width: e.target.value })}
+                      className="h-8 text-sm"
+                      title="Viewport width"
+                    />
+                    <Input
+                      type="number"
+                      value={deviceDraft?.height ?? currentRoom.device.viewport.height}
+                      onChange={(e) => editDevice({ height: e.target.value })}
+                      className="h-8 text-sm"
+                      title="Viewport height"
+                    />
+                    <Input
+                      type="number"
+                      step="0.25"
+                      value={deviceDraft?.scale ?? currentRoom.device.deviceScaleFactor}
+                      onChange={(e) => editDevice({ scale: e.target.value })}
+                      className="h-8 text-sm"
+                      title="Device pixel ratio"
+                    />
+                  </div>
+                  <Input
+                    type="text"
+                    value={deviceDraft?.userAgent ?? currentRoom.device.userAgent}
+                    onChange={(e) => editDevice({ userAgent: e.target.value })}
+                    className="h-8 text-sm"
+                    title="User agent"
+                  />
+                  <div className="flex gap-2">
+                    <Input
+                      type="text"
+                      value={deviceDraft?.locale ?? currentRoom.device.locale ?? ""}
+                      onChange={(e) => editDevice({ locale: e.target.value })}
+                      placeholder="Locale, e.g. en-GB"
+                      className="h-8 text-sm"
+                    />
+                    <Input
+                      type="text"
+                      value={deviceDraft?.timezoneId ?? currentRoom.device.timezoneId ?? ""}
+                      onChange={(e) => editDevice({ timezoneId: e.target.value })}
+                      placeholder="Time zone, e.g. Europe/Berlin"
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                  {deviceDraft && (
+                    <div className="flex gap-2">
+                      <Button onClick={applyDeviceDraft} size="sm" className="flex-1">Apply</Button>
+                      <Button onClick={() => setDeviceDraft(null)} variant="outline" size="sm">Cancel</Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Recordings */}
+          {currentRoom && recordings.length > 0 && (
+            <div className="p-4 border-b border-gray-200">
+              <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+                <Film className="h-4 w-4" />
+                Recordings
+              </h3>
+              <div className="space-y-1 max-h-32 overflow-y-auto">
+                {recordings.map(recording => (
+                  <a
+                    key={recording.id}
+                    href={`${browserUrl}/replay/${recording.id}?roomId=${encodeURIComponent(currentRoom.id)}&token=${encodeURIComponent(viewToken ?? '')}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center justify-between gap-2 px-2 py-1 text-sm rounded hover:bg-gray-50"
+                  >
+                    <span className="text-blue-600 truncate">
+                      {new Date(recording.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} by {recording.startedBy}
+                    </span>
+                    <span className="text-xs text-gray-500 shrink-0">
+                      {recording.endedAt === null ? 'recording' : formatTime(recording.duration / 1000)}
+                    </span>
+                  </a>
+                ))}
               </div>
             </div>
+          )}
+
+          {/* Chat */}
+          <div className="flex-1 min-h-0 flex flex-col p-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-3 flex items-center gap-2">
+              <MessageSquare className="h-4 w-4" />
+              Chat
+            </h3>
+            <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+              {chatMessages.map(message => (
+                <div key={message.id} className="text-sm">
+                  <div className="flex items-baseline gap-2">
+                    <span className={`font-medium ${message.userId === currentUser?.id ? 'text-blue-700' : 'text-gray-900'}`}>
+                      {message.userName}
+                    </span>
+                    <span className="text-xs text-gray-400">
+                      {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </div>
+                  <p className="text-gray-700 whitespace-pre-wrap break-words">{message.text}</p>
+                </div>
+              ))}
+              {chatMessages.length === 0 && (
+                <p className="text-center text-xs text-gray-500 py-4">
+                  {currentRoom ? 'No messages yet' : 'Join a room to chat'}
+                </p>
+              )}
+              <div ref={chatEndRef} />
+            </div>
+            <div className="h-5 text-xs text-gray-500 italic">
+              {typingNames.length === 1 && `${typingNames[0]} is typing…`}
+              {typingNames.length === 2 && `${typingNames[0]} and ${typingNames[1]} are typing…`}
+              {typingNames.length > 2 && 'Several people are typing…'}
+            </div>
+            <form onSubmit={sendChatMessage} className="flex gap-2">
+              <Input
+                value={chatInput}
+                onChange={(e) => handleChatInput(e.target.value)}
+                onBlur={stopTyping}
+                placeholder={isMuted ? "You are muted" : "Message the room"}
+                disabled={!currentRoom || isMuted}
+                maxLength={1000}
+                className="flex-1"
+              />
+              <Button
+                type="submit"
+                size="sm"
+                disabled={!currentRoom || isMuted || !chatInput.trim()}
+                title="Send"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            </form>
           </div>
         </div>
       </div>